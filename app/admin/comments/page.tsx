@@ -0,0 +1,27 @@
+import type { Metadata } from 'next'
+import AdminLayout from '@/components/admin/layout/AdminLayout'
+import CommentModeration from '@/components/admin/comments/CommentModeration'
+import { BreadcrumbItem } from '@/components/admin/layout/AdminBreadcrumb'
+import { CommentStatus } from '@/types/admin'
+
+export const metadata: Metadata = {
+  title: 'Comments'
+}
+
+interface CommentsPageProps {
+  searchParams: Promise<{ status?: string }>
+}
+
+export default async function CommentsPage({ searchParams }: CommentsPageProps) {
+  const { status } = await searchParams
+
+  const breadcrumb: BreadcrumbItem[] = [
+    { name: 'Comments', current: true }
+  ]
+
+  return (
+    <AdminLayout title="Comments" breadcrumb={breadcrumb}>
+      <CommentModeration initialStatus={(status as CommentStatus) || 'pending'} />
+    </AdminLayout>
+  )
+}
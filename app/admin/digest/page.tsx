@@ -0,0 +1,21 @@
+import type { Metadata } from 'next'
+import AdminLayout from '@/components/admin/layout/AdminLayout'
+import DigestManager from '@/components/admin/digest/DigestManager'
+import { BreadcrumbItem } from '@/components/admin/layout/AdminBreadcrumb'
+
+export const metadata: Metadata = {
+  title: 'Weekly Digest'
+}
+
+export default function DigestPage() {
+  const breadcrumb: BreadcrumbItem[] = [
+    { name: 'Subscribers', href: '/admin/subscribers' },
+    { name: 'Weekly Digest', current: true }
+  ]
+
+  return (
+    <AdminLayout title="Weekly Digest" breadcrumb={breadcrumb}>
+      <DigestManager />
+    </AdminLayout>
+  )
+}
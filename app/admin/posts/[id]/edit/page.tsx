@@ -2,13 +2,15 @@
 
 import { useState, useEffect, use } from 'react'
 import { useRouter } from 'next/navigation'
-import { ArrowLeftIcon } from '@heroicons/react/24/outline'
+import { ArrowLeftIcon, ClockIcon } from '@heroicons/react/24/outline'
 import Link from 'next/link'
 import AdminLayout from '@/components/admin/layout/AdminLayout'
 import PostForm from '@/components/admin/posts/PostForm'
+import PreviewLinks from '@/components/admin/posts/PreviewLinks'
 import { BreadcrumbItem } from '@/components/admin/layout/AdminBreadcrumb'
 import { useAuth } from '@/hooks/useAuth'
-import { FirestorePost } from '@/types/admin'
+import { PostRow } from '@/types/admin'
+import { toDateTimeLocalValue } from '@/lib/utils'
 
 interface EditPostPageProps {
   params: Promise<{ id: string }>
@@ -16,7 +18,7 @@ interface EditPostPageProps {
 
 export default function EditPostPage({ params }: EditPostPageProps) {
   const resolvedParams = use(params)
-  const [post, setPost] = useState<FirestorePost | null>(null)
+  const [post, setPost] = useState<PostRow | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const { user } = useAuth()
@@ -139,6 +141,13 @@ export default function EditPostPage({ params }: EditPostPageProps) {
         <ArrowLeftIcon className="-ml-1 mr-2 h-5 w-5" aria-hidden="true" />
         Back to Posts
       </Link>
+      <Link
+        href={`/admin/posts/${post.id}/revisions`}
+        className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+      >
+        <ClockIcon className="-ml-1 mr-2 h-5 w-5" aria-hidden="true" />
+        History
+      </Link>
       {post.status === 'published' && (
         <Link
           href={`/blog/${post.slug}`}
@@ -160,10 +169,13 @@ export default function EditPostPage({ params }: EditPostPageProps) {
     categoryId: post.categoryId,
     tags: post.tags || [],
     featured: post.featured || false,
+    hideTableOfContents: post.hideTableOfContents || false,
     featuredImage: post.featuredImage || undefined,
     seo: post.seo || undefined,
-    status: post.status as 'draft' | 'published' | 'scheduled',
-    scheduledFor: post.scheduledFor || undefined
+    status: post.status,
+    scheduledFor: toDateTimeLocalValue(post.scheduledFor),
+    expiresAt: toDateTimeLocalValue(post.expiresAt),
+    expiryAction: post.expiryAction || 'archive'
   }
 
   return (
@@ -195,12 +207,17 @@ export default function EditPostPage({ params }: EditPostPageProps) {
               mode="edit"
               postId={post.id}
               initialData={initialData}
+              expiredAt={post.expiredAt}
+              updatedAt={post.updatedAt}
               onSuccess={handleSuccess}
               onCancel={handleCancel}
             />
           </div>
         </div>
 
+        {/* Preview links for reviewers outside the admin */}
+        {post.id && <PreviewLinks postId={post.id} />}
+
         {/* Post Stats */}
         {post.status === 'published' && (
           <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
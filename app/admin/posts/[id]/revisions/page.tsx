@@ -0,0 +1,28 @@
+import type { Metadata } from 'next'
+import AdminLayout from '@/components/admin/layout/AdminLayout'
+import PostRevisions from '@/components/admin/posts/PostRevisions'
+import { BreadcrumbItem } from '@/components/admin/layout/AdminBreadcrumb'
+
+export const metadata: Metadata = {
+  title: 'Revision History'
+}
+
+interface PostRevisionsPageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function PostRevisionsPage({ params }: PostRevisionsPageProps) {
+  const { id } = await params
+
+  const breadcrumb: BreadcrumbItem[] = [
+    { name: 'Posts', href: '/admin/posts' },
+    { name: 'Edit', href: `/admin/posts/${id}/edit` },
+    { name: 'Revision History', current: true }
+  ]
+
+  return (
+    <AdminLayout title="Revision History" breadcrumb={breadcrumb}>
+      <PostRevisions postId={id} />
+    </AdminLayout>
+  )
+}
@@ -0,0 +1,176 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { toast } from 'react-hot-toast'
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import AdminLayout from '@/components/admin/layout/AdminLayout'
+import { BreadcrumbItem } from '@/components/admin/layout/AdminBreadcrumb'
+import { useAuth } from '@/hooks/useAuth'
+
+interface SiteSettings {
+  maintenanceMode: boolean
+  maintenanceMessage: string
+  updatedAt: string | null
+}
+
+export default function SettingsPage() {
+  const { user, hasPermission } = useAuth()
+  const [settings, setSettings] = useState<SiteSettings>({
+    maintenanceMode: false,
+    maintenanceMessage: '',
+    updatedAt: null
+  })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const breadcrumb: BreadcrumbItem[] = [
+    { name: 'Settings', current: true }
+  ]
+
+  const canEdit = hasPermission('settings.edit')
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      if (!user) return
+
+      try {
+        const token = await user.getIdToken()
+        const response = await fetch('/api/admin/settings', {
+          headers: { 'Authorization': `Bearer ${token}` }
+        })
+        const result = await response.json()
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load settings')
+        }
+
+        setSettings(result.data)
+      } catch (error) {
+        console.error('Error loading settings:', error)
+        toast.error(error instanceof Error ? error.message : 'Failed to load settings')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadSettings()
+  }, [user])
+
+  const handleSave = async () => {
+    if (!user) return
+
+    setSaving(true)
+    try {
+      const token = await user.getIdToken()
+      const response = await fetch('/api/admin/settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          maintenanceMode: settings.maintenanceMode,
+          maintenanceMessage: settings.maintenanceMessage
+        })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save settings')
+      }
+
+      toast.success(result.message)
+    } catch (error) {
+      console.error('Error saving settings:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <AdminLayout title="Settings" breadcrumb={breadcrumb} maxWidth="4xl">
+      <div className="space-y-6">
+        {settings.maintenanceMode && !loading && (
+          <div className="rounded-lg bg-yellow-50 border border-yellow-200 p-4 flex">
+            <ExclamationTriangleIcon className="h-5 w-5 text-yellow-400 flex-shrink-0" aria-hidden="true" />
+            <p className="ml-3 text-sm text-yellow-800">
+              Maintenance mode is on. Visitors see the maintenance page; signed-in admins can still browse the site.
+            </p>
+          </div>
+        )}
+
+        <div className="bg-white shadow-sm rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">Maintenance Mode</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Take the public site offline with an HTTP 503 while you work. The admin panel stays available.
+              Changes reach every server within about 30 seconds.
+            </p>
+          </div>
+
+          {loading ? (
+            <div className="p-6 flex justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="p-6 space-y-6">
+              <label className="flex items-center justify-between cursor-pointer">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">Enable maintenance mode</div>
+                  <div className="text-sm text-gray-500">Public pages and API routes return 503 with a Retry-After header</div>
+                </div>
+                <button
+                  type="button"
+                  role="switch"
+                  aria-checked={settings.maintenanceMode}
+                  onClick={() => setSettings((current) => ({ ...current, maintenanceMode: !current.maintenanceMode }))}
+                  disabled={!canEdit || saving}
+                  className={`relative inline-flex h-6 w-11 flex-shrink-0 rounded-full border-2 border-transparent transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 ${
+                    settings.maintenanceMode ? 'bg-yellow-500' : 'bg-gray-200'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-5 w-5 transform rounded-full bg-white shadow transition duration-200 ${
+                      settings.maintenanceMode ? 'translate-x-5' : 'translate-x-0'
+                    }`}
+                  />
+                </button>
+              </label>
+
+              <div>
+                <label htmlFor="maintenanceMessage" className="block text-sm font-medium text-gray-900 mb-2">
+                  Message for visitors
+                </label>
+                <textarea
+                  id="maintenanceMessage"
+                  rows={3}
+                  maxLength={500}
+                  value={settings.maintenanceMessage}
+                  onChange={(e) => setSettings((current) => ({ ...current, maintenanceMessage: e.target.value }))}
+                  disabled={!canEdit || saving}
+                  className="block w-full rounded-md border-0 py-2 px-3 text-gray-900 ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500 sm:text-sm"
+                  placeholder="We're making some improvements and will be back shortly."
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-500">
+                  {settings.updatedAt ? `Last changed ${new Date(settings.updatedAt).toLocaleString()}` : 'Never changed'}
+                </p>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={!canEdit || saving}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'Saving...' : 'Save Settings'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  )
+}
@@ -0,0 +1,20 @@
+import type { Metadata } from 'next'
+import AdminLayout from '@/components/admin/layout/AdminLayout'
+import SubscriberList from '@/components/admin/subscribers/SubscriberList'
+import { BreadcrumbItem } from '@/components/admin/layout/AdminBreadcrumb'
+
+export const metadata: Metadata = {
+  title: 'Subscribers'
+}
+
+export default function SubscribersPage() {
+  const breadcrumb: BreadcrumbItem[] = [
+    { name: 'Subscribers', current: true }
+  ]
+
+  return (
+    <AdminLayout title="Newsletter Subscribers" breadcrumb={breadcrumb}>
+      <SubscriberList />
+    </AdminLayout>
+  )
+}
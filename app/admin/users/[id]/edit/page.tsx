@@ -9,6 +9,7 @@ import UserForm from '@/components/admin/users/UserForm'
 import { BreadcrumbItem } from '@/components/admin/layout/AdminBreadcrumb'
 import { useAuth } from '@/hooks/useAuth'
 import { FirestoreUser } from '@/types/admin'
+import { getSocialLinkUrl } from '@/lib/utils'
 
 interface EditUserPageProps {
   params: Promise<{ id: string }>
@@ -154,6 +155,8 @@ export default function EditUserPage({ params }: EditUserPageProps) {
     confirmPassword: ''
   }
 
+  const websiteUrl = getSocialLinkUrl('website', user.social?.website)
+
   const getRoleColor = (role: string) => {
     switch (role) {
       case 'admin':
@@ -256,8 +259,8 @@ export default function EditUserPage({ params }: EditUserPageProps) {
                   <div className="mt-3">
                     <span className="text-sm font-medium text-gray-700">Social Links:</span>
                     <div className="flex flex-wrap gap-2 mt-1">
-                      {user.social.website && (
-                        <a href={user.social.website} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-600 hover:text-blue-800">
+                      {websiteUrl && (
+                        <a href={websiteUrl} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-600 hover:text-blue-800">
                           Website
                         </a>
                       )}
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { FieldValue } from 'firebase-admin/firestore'
+import { withModeratorAuth, getAuthUser, AuthenticatedRequest } from '@/lib/auth/middleware'
+import { getAdminDb } from '@/lib/firebase/admin'
+import { COMMENTS_COLLECTION, COMMENT_STATUSES, deleteCommentThread } from '@/lib/comments'
+
+function getCommentId(request: AuthenticatedRequest): string {
+  return new URL(request.url).pathname.split('/').pop() || ''
+}
+
+// PATCH /api/admin/comments/[id] - Approve, reject or mark as spam
+export const PATCH = withModeratorAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const user = getAuthUser(request)
+    const id = getCommentId(request)
+    const { status } = await request.json()
+
+    if (!COMMENT_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of ${COMMENT_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const commentRef = getAdminDb().collection(COMMENTS_COLLECTION).doc(id)
+    const commentDoc = await commentRef.get()
+
+    if (!commentDoc.exists) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 })
+    }
+
+    await commentRef.update({
+      status,
+      moderatedAt: FieldValue.serverTimestamp(),
+      moderatedBy: user.uid
+    })
+
+    return NextResponse.json({
+      message: `Comment marked as ${status}`,
+      data: { id, status }
+    })
+  } catch (error) {
+    console.error('Error moderating comment:', error)
+    return NextResponse.json(
+      { error: 'Failed to update comment' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/admin/comments/[id] - Delete a comment and its replies
+export const DELETE = withModeratorAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const id = getCommentId(request)
+    const commentDoc = await getAdminDb().collection(COMMENTS_COLLECTION).doc(id).get()
+
+    if (!commentDoc.exists) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 })
+    }
+
+    const deleted = await deleteCommentThread(id)
+
+    return NextResponse.json({
+      message: deleted > 1 ? `Deleted comment and ${deleted - 1} replies` : 'Comment deleted'
+    })
+  } catch (error) {
+    console.error('Error deleting comment:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete comment' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { withModeratorAuth, AuthenticatedRequest } from '@/lib/auth/middleware'
+import { listComments, countCommentsByStatus, COMMENT_STATUSES } from '@/lib/comments'
+import { CommentStatus } from '@/types/admin'
+
+// GET /api/admin/comments - Moderation queue, filtered by ?status= and ?post=
+export const GET = withModeratorAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') as CommentStatus | null
+
+    if (status && !COMMENT_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of ${COMMENT_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const [comments, counts] = await Promise.all([
+      listComments({
+        status: status || undefined,
+        postSlug: searchParams.get('post') || undefined
+      }),
+      countCommentsByStatus()
+    ])
+
+    return NextResponse.json({ data: { comments, counts } })
+  } catch (error) {
+    console.error('Error fetching comments:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch comments' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { withAuthorAuth } from '@/lib/auth/middleware'
+import { listRecentActivity } from '@/lib/activity'
+
+// GET /api/admin/dashboard/activity - Latest entries from the activity log
+export const GET = withAuthorAuth(async () => {
+  try {
+    const activity = await listRecentActivity()
+    return NextResponse.json({ data: activity })
+  } catch (error) {
+    console.error('Error fetching recent activity:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch recent activity' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { withEditorAuth } from '@/lib/auth/middleware'
+import { listDigestSends } from '@/lib/digest'
+
+// GET /api/admin/digest/history - Recent digest runs
+export const GET = withEditorAuth(async () => {
+  try {
+    const sends = await listDigestSends()
+    return NextResponse.json({ data: sends })
+  } catch (error) {
+    console.error('Error fetching digest history:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch digest history' },
+      { status: 500 }
+    )
+  }
+})
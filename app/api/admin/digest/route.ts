@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import { withEditorAuth, withAdminAuth, getAuthUser, AuthenticatedRequest } from '@/lib/auth/middleware'
+import { buildDigestPreview, sendDigest, getDigestSendMessage, DigestError, DIGEST_WINDOW_DAYS } from '@/lib/digest'
+import { normalizeCategories } from '@/lib/newsletter'
+
+const MAX_WINDOW_DAYS = 31
+
+function parseDays(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return DIGEST_WINDOW_DAYS
+  const days = Number(value)
+  return Number.isInteger(days) && days >= 1 && days <= MAX_WINDOW_DAYS ? days : null
+}
+
+function invalidDays() {
+  return NextResponse.json(
+    { error: `days must be a whole number between 1 and ${MAX_WINDOW_DAYS}` },
+    { status: 400 }
+  )
+}
+
+// GET /api/admin/digest - Preview the digest, optionally for ?categories=a,b
+export const GET = withEditorAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const days = parseDays(searchParams.get('days'))
+    if (days === null) {
+      return invalidDays()
+    }
+
+    const categories = normalizeCategories((searchParams.get('categories') || '').split(','))
+    const preview = await buildDigestPreview({ days, categories })
+
+    return NextResponse.json({ data: preview })
+  } catch (error) {
+    console.error('Error building digest preview:', error)
+    return NextResponse.json(
+      { error: 'Failed to build digest preview' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/admin/digest - Send the digest to all confirmed subscribers, or
+// continue an unfinished run
+export const POST = withAdminAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const user = getAuthUser(request)
+    const body = await request.json().catch(() => ({}))
+    const days = parseDays(body.days)
+    if (days === null) {
+      return invalidDays()
+    }
+
+    const send = await sendDigest({ days, triggeredBy: user.uid, force: body.force === true })
+
+    return NextResponse.json({
+      message: getDigestSendMessage(send),
+      data: send
+    })
+  } catch (error) {
+    if (error instanceof DigestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error sending digest:', error)
+    return NextResponse.json(
+      { error: 'Failed to send digest' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server'
+import { withAuthorAuth, getAuthUser, AuthenticatedRequest } from '@/lib/auth/middleware'
+import { deletePostDraft, getPostDraft, savePostDraft, DraftError } from '@/lib/drafts'
+
+// Drafts for posts not created yet have no postId
+function getPostId(request: AuthenticatedRequest): string | null {
+  return new URL(request.url).searchParams.get('postId') || null
+}
+
+// GET /api/admin/drafts?postId= - The current user's autosaved draft
+export const GET = withAuthorAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const user = getAuthUser(request)
+    const draft = await getPostDraft(user.uid, getPostId(request))
+
+    return NextResponse.json({ data: draft })
+  } catch (error) {
+    console.error('Error fetching draft:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch draft' },
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/admin/drafts?postId= - Autosave the editor state
+export const PUT = withAuthorAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const user = getAuthUser(request)
+    const body = await request.json().catch(() => null)
+    const baseUpdatedAt = typeof body?.baseUpdatedAt === 'string' ? body.baseUpdatedAt : null
+    const draft = await savePostDraft(user.uid, getPostId(request), body?.data, baseUpdatedAt)
+
+    return NextResponse.json({ data: draft })
+  } catch (error) {
+    if (error instanceof DraftError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error saving draft:', error)
+    return NextResponse.json(
+      { error: 'Failed to save draft' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/admin/drafts?postId= - Discard the autosaved draft
+export const DELETE = withAuthorAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const user = getAuthUser(request)
+    await deletePostDraft(user.uid, getPostId(request))
+
+    return NextResponse.json({ message: 'Draft discarded' })
+  } catch (error) {
+    console.error('Error discarding draft:', error)
+    return NextResponse.json(
+      { error: 'Failed to discard draft' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server'
+import { withAuthorAuth, getAuthUser, AuthenticatedRequest } from '@/lib/auth/middleware'
+import { getAdminDb } from '@/lib/firebase/admin'
+import { NOTIFICATIONS_COLLECTION } from '@/lib/comments'
+
+const MAX_NOTIFICATIONS = 20
+
+// GET /api/admin/notifications - Latest notifications for the signed-in user
+export const GET = withAuthorAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const user = getAuthUser(request)
+    const collection = getAdminDb().collection(NOTIFICATIONS_COLLECTION)
+
+    const [snapshot, unread] = await Promise.all([
+      collection
+        .where('userId', '==', user.uid)
+        .orderBy('createdAt', 'desc')
+        .limit(MAX_NOTIFICATIONS)
+        .get(),
+      collection
+        .where('userId', '==', user.uid)
+        .where('read', '==', false)
+        .count()
+        .get()
+    ])
+
+    const notifications = snapshot.docs.map((doc) => {
+      const data = doc.data()
+      return {
+        ...data,
+        id: doc.id,
+        createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString()
+      }
+    })
+
+    return NextResponse.json({
+      data: { notifications, unreadCount: unread.data().count }
+    })
+  } catch (error) {
+    console.error('Error fetching notifications:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch notifications' },
+      { status: 500 }
+    )
+  }
+})
+
+// PATCH /api/admin/notifications - Mark the given ids, or all, as read
+export const PATCH = withAuthorAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const user = getAuthUser(request)
+    const body = await request.json().catch(() => ({}))
+    const ids: string[] | undefined = Array.isArray(body.ids) ? body.ids : undefined
+    const db = getAdminDb()
+
+    const snapshot = await db.collection(NOTIFICATIONS_COLLECTION)
+      .where('userId', '==', user.uid)
+      .where('read', '==', false)
+      .get()
+
+    const batch = db.batch()
+    let updated = 0
+    snapshot.docs.forEach((doc) => {
+      if (!ids || ids.includes(doc.id)) {
+        batch.update(doc.ref, { read: true })
+        updated++
+      }
+    })
+    await batch.commit()
+
+    return NextResponse.json({
+      message: `Marked ${updated} notification${updated === 1 ? '' : 's'} as read`,
+      data: { updated }
+    })
+  } catch (error) {
+    console.error('Error updating notifications:', error)
+    return NextResponse.json(
+      { error: 'Failed to update notifications' },
+      { status: 500 }
+    )
+  }
+})
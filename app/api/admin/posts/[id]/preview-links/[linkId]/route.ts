@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { withAuthorAuth, getAuthUser, AuthenticatedRequest } from '@/lib/auth/middleware'
+import { assertCanPreviewPost, revokePreviewLink, PreviewError } from '@/lib/preview'
+
+// /api/admin/posts/[id]/preview-links/[linkId]
+function getLinkParams(request: AuthenticatedRequest): { postId: string; linkId: string } {
+  const segments = new URL(request.url).pathname.split('/')
+  return {
+    postId: segments[segments.length - 3] || '',
+    linkId: segments[segments.length - 1] || ''
+  }
+}
+
+// DELETE /api/admin/posts/[id]/preview-links/[linkId] - Revoke a preview link
+export const DELETE = withAuthorAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const { postId, linkId } = getLinkParams(request)
+    await assertCanPreviewPost(postId, getAuthUser(request))
+
+    await revokePreviewLink(postId, linkId)
+
+    return NextResponse.json({ message: 'Preview link revoked' })
+  } catch (error) {
+    if (error instanceof PreviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error revoking preview link:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke preview link' },
+      { status: 500 }
+    )
+  }
+})
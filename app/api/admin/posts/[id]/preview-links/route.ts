@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server'
+import { withAuthorAuth, getAuthUser, AuthenticatedRequest } from '@/lib/auth/middleware'
+import { assertCanPreviewPost, createPreviewLink, listPreviewLinks, PreviewError } from '@/lib/preview'
+
+// /api/admin/posts/[id]/preview-links
+function getPostId(request: AuthenticatedRequest): string {
+  const segments = new URL(request.url).pathname.split('/')
+  return segments[segments.length - 2] || ''
+}
+
+// GET /api/admin/posts/[id]/preview-links - Preview links for a post
+export const GET = withAuthorAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const postId = getPostId(request)
+    await assertCanPreviewPost(postId, getAuthUser(request))
+
+    const links = await listPreviewLinks(postId)
+
+    return NextResponse.json({ data: links })
+  } catch (error) {
+    if (error instanceof PreviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error fetching preview links:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch preview links' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/admin/posts/[id]/preview-links - Create a preview link
+export const POST = withAuthorAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const user = getAuthUser(request)
+    const postId = getPostId(request)
+    await assertCanPreviewPost(postId, user)
+
+    const body = await request.json().catch(() => ({}))
+    const link = await createPreviewLink(postId, {
+      uid: user.uid,
+      name: user.displayName || user.email
+    }, Number(body.days) || 7)
+
+    return NextResponse.json(
+      { message: 'Preview link created', data: link },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof PreviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error creating preview link:', error)
+    return NextResponse.json(
+      { error: 'Failed to create preview link' },
+      { status: 500 }
+    )
+  }
+})
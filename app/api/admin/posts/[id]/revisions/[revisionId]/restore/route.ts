@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { withAuthorAuth, getAuthUser, AuthenticatedRequest } from '@/lib/auth/middleware'
+import { getEditablePost, restorePostRevision, RevisionError } from '@/lib/revisions'
+
+// /api/admin/posts/[id]/revisions/[revisionId]/restore
+function getRevisionParams(request: AuthenticatedRequest): { postId: string; revisionId: string } {
+  const segments = new URL(request.url).pathname.split('/')
+  return {
+    postId: segments[segments.length - 4] || '',
+    revisionId: segments[segments.length - 2] || ''
+  }
+}
+
+// POST /api/admin/posts/[id]/revisions/[revisionId]/restore - Restore a revision
+export const POST = withAuthorAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const user = getAuthUser(request)
+    const { postId, revisionId } = getRevisionParams(request)
+    await getEditablePost(postId, user)
+
+    const restoredRevisionId = await restorePostRevision(postId, revisionId, {
+      uid: user.uid,
+      name: user.displayName || user.email
+    })
+
+    return NextResponse.json({
+      message: 'Revision restored',
+      data: { revisionId: restoredRevisionId }
+    })
+  } catch (error) {
+    if (error instanceof RevisionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error restoring revision:', error)
+    return NextResponse.json(
+      { error: 'Failed to restore revision' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { withAuthorAuth, getAuthUser, AuthenticatedRequest } from '@/lib/auth/middleware'
+import { getEditablePost, getPostRevision, RevisionError } from '@/lib/revisions'
+
+// /api/admin/posts/[id]/revisions/[revisionId]
+function getRevisionParams(request: AuthenticatedRequest): { postId: string; revisionId: string } {
+  const segments = new URL(request.url).pathname.split('/')
+  return {
+    postId: segments[segments.length - 3] || '',
+    revisionId: segments[segments.length - 1] || ''
+  }
+}
+
+// GET /api/admin/posts/[id]/revisions/[revisionId] - One revision with its content
+export const GET = withAuthorAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const { postId, revisionId } = getRevisionParams(request)
+    await getEditablePost(postId, getAuthUser(request))
+
+    const revision = await getPostRevision(postId, revisionId)
+    if (!revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ data: revision })
+  } catch (error) {
+    if (error instanceof RevisionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error fetching revision:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch revision' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { withAuthorAuth, getAuthUser, AuthenticatedRequest } from '@/lib/auth/middleware'
+import { getEditablePost, listPostRevisions, RevisionError } from '@/lib/revisions'
+
+// /api/admin/posts/[id]/revisions
+function getPostId(request: AuthenticatedRequest): string {
+  const segments = new URL(request.url).pathname.split('/')
+  return segments[segments.length - 2] || ''
+}
+
+// GET /api/admin/posts/[id]/revisions - Saved revisions of a post, newest first
+export const GET = withAuthorAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const postId = getPostId(request)
+    await getEditablePost(postId, getAuthUser(request))
+
+    const revisions = await listPostRevisions(postId)
+
+    return NextResponse.json({ data: revisions })
+  } catch (error) {
+    if (error instanceof RevisionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error fetching revisions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch revisions' },
+      { status: 500 }
+    )
+  }
+})
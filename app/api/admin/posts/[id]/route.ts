@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getAuth } from 'firebase-admin/auth'
 import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore'
 import { initializeFirebaseAdmin } from '@/lib/firebase/admin'
+import { normalizeTags, toISOString, toOptionalISOString } from '@/lib/utils'
+import { updatePostSearchIndex } from '@/lib/search-index'
+import { getPublishedCountDelta, updatePublishedCounters } from '@/lib/publishing'
+import { addBaselineRevision, addPostRevision } from '@/lib/revisions'
+import { getDraftRef } from '@/lib/drafts'
+import { FirestorePost, PostRow } from '@/types/admin'
 
 // Initialize Firebase Admin
 initializeFirebaseAdmin()
@@ -33,6 +39,7 @@ async function authenticateUser(request: NextRequest) {
     return {
       uid: decodedToken.uid,
       email: decodedToken.email,
+      displayName: userData?.displayName || decodedToken.email || '',
       role: userData?.role || 'author',
       permissions: userData?.permissions || [],
       active: userData?.active !== false
@@ -86,20 +93,22 @@ export async function GET(
       return NextResponse.json({ error: 'Post not found' }, { status: 404 })
     }
 
-    const postData = postDoc.data()!
+    const postData = postDoc.data() as FirestorePost
 
     // Authors can only access their own posts
     if (user.role === 'author' && postData.authorId !== user.uid) {
       return NextResponse.json({ error: 'Access denied' }, { status: 403 })
     }
 
-    const post = {
-      id: postDoc.id,
+    const post: PostRow = {
       ...postData,
-      createdAt: postData.createdAt?.toDate?.()?.toISOString() || null,
-      updatedAt: postData.updatedAt?.toDate?.()?.toISOString() || null,
-      publishDate: postData.publishDate?.toDate?.()?.toISOString() || null,
-      scheduledFor: postData.scheduledFor?.toDate?.()?.toISOString() || null
+      id: postDoc.id,
+      createdAt: toISOString(postData.createdAt),
+      updatedAt: toISOString(postData.updatedAt),
+      publishDate: toOptionalISOString(postData.publishDate),
+      scheduledFor: toOptionalISOString(postData.scheduledFor),
+      expiresAt: toOptionalISOString(postData.expiresAt),
+      expiredAt: toOptionalISOString(postData.expiredAt)
     }
 
     return NextResponse.json(post)
@@ -152,10 +161,15 @@ export async function PUT(
       categoryId, 
       tags = [],
       featured = false,
+      hideTableOfContents = false,
       featuredImage,
       seo,
       status,
-      scheduledFor
+      scheduledFor,
+      expiresAt,
+      expiryAction,
+      // Lifts the "outdated" banner from an expired post
+      markUpToDate = false
     } = body
 
     // Validate required fields
@@ -174,6 +188,22 @@ export async function PUT(
       )
     }
 
+    // Validate schedule
+    if (scheduledFor && isNaN(new Date(scheduledFor).getTime())) {
+      return NextResponse.json({ error: 'Invalid scheduled date' }, { status: 400 })
+    }
+
+    // Validate expiry
+    if (expiresAt && isNaN(new Date(expiresAt).getTime())) {
+      return NextResponse.json({ error: 'Invalid expiry date' }, { status: 400 })
+    }
+    if (expiryAction && !['archive', 'banner'].includes(expiryAction)) {
+      return NextResponse.json(
+        { error: 'Invalid expiry action. Must be archive or banner' },
+        { status: 400 }
+      )
+    }
+
     // Validate category exists if changed
     if (categoryId !== existingPost.categoryId) {
       const categoryDoc = await db.collection('categories').doc(categoryId).get()
@@ -225,8 +255,9 @@ export async function PUT(
       // Category & content
       categoryId,
       featuredImage: featuredImage || null,
-      tags: Array.isArray(tags) ? tags : [],
+      tags: Array.isArray(tags) ? normalizeTags(tags) : [],
       featured,
+      hideTableOfContents,
       readingTime,
       
       // SEO
@@ -248,16 +279,39 @@ export async function PUT(
         updateData.publishDate = FieldValue.serverTimestamp()
       }
       
-      // Handle scheduling
-      if (status === 'scheduled' && scheduledFor) {
-        updateData.scheduledFor = Timestamp.fromDate(new Date(scheduledFor))
-      } else if (status !== 'scheduled') {
+      if (status !== 'scheduled') {
         updateData.scheduledFor = null
       }
     }
 
-    // Update post
-    await db.collection('posts').doc(params.id).update(updateData)
+    // Handle expiry. A new expiry date, an explicit request or republishing an
+    // archived post clears a previous expiry.
+    if (expiresAt !== undefined) {
+      updateData.expiresAt = expiresAt ? Timestamp.fromDate(new Date(expiresAt)) : null
+    }
+    if (expiryAction) {
+      updateData.expiryAction = expiryAction
+    }
+    if (markUpToDate || expiresAt || (status === 'published' && existingPost.status === 'archived')) {
+      updateData.expiredAt = null
+    }
+
+    // Handle scheduling, including rescheduling an already scheduled post
+    if (status === 'scheduled' && scheduledFor) {
+      updateData.scheduledFor = Timestamp.fromDate(new Date(scheduledFor))
+    }
+
+    // Update post, recording the saved version in its revision history and
+    // clearing the editor's autosaved draft
+    const batch = db.batch()
+    await addBaselineRevision(batch, params.id, existingPost)
+    batch.update(db.collection('posts').doc(params.id), updateData)
+    addPostRevision(batch, params.id, {
+      ...existingPost,
+      ...updateData
+    }, { uid: user.uid, name: user.displayName })
+    batch.delete(getDraftRef(user.uid, params.id))
+    await batch.commit()
 
     // Update category post counts if category changed
     if (categoryId !== existingPost.categoryId) {
@@ -274,6 +328,24 @@ export async function PUT(
       })
     }
 
+    // Keep publishedCount in step when a post is published, unpublished or
+    // moves between categories
+    const newStatus = status || existingPost.status
+    const counterUpdates = categoryId !== existingPost.categoryId
+      ? [
+          updatePublishedCounters({ categoryId: existingPost.categoryId, authorId: existingPost.authorId }, getPublishedCountDelta(existingPost.status, null)),
+          updatePublishedCounters({ categoryId, authorId: existingPost.authorId }, getPublishedCountDelta(null, newStatus))
+        ]
+      : [updatePublishedCounters({ categoryId, authorId: existingPost.authorId }, getPublishedCountDelta(existingPost.status, newStatus))]
+    await Promise.all(counterUpdates).catch(error => {
+      console.error('Error updating published counters:', error)
+    })
+
+    // Keep the public search index in sync (a failure here shouldn't fail the save)
+    await updatePostSearchIndex(params.id).catch(error => {
+      console.error('Error updating search index:', error)
+    })
+
     // Get updated post
     const updatedPostDoc = await db.collection('posts').doc(params.id).get()
     const updatedPost = {
@@ -282,7 +354,9 @@ export async function PUT(
       createdAt: updatedPostDoc.data()?.createdAt?.toDate?.()?.toISOString() || null,
       updatedAt: new Date().toISOString(),
       publishDate: updatedPostDoc.data()?.publishDate?.toDate?.()?.toISOString() || null,
-      scheduledFor: updatedPostDoc.data()?.scheduledFor?.toDate?.()?.toISOString() || null
+      scheduledFor: updatedPostDoc.data()?.scheduledFor?.toDate?.()?.toISOString() || null,
+      expiresAt: updatedPostDoc.data()?.expiresAt?.toDate?.()?.toISOString() || null,
+      expiredAt: updatedPostDoc.data()?.expiredAt?.toDate?.()?.toISOString() || null
     }
 
     return NextResponse.json(updatedPost)
@@ -329,8 +403,8 @@ export async function DELETE(
 
     const postData = postDoc.data()!
 
-    // Delete post
-    await db.collection('posts').doc(params.id).delete()
+    // Delete post along with its revision history
+    await db.recursiveDelete(db.collection('posts').doc(params.id))
 
     // Update category post count
     if (postData.categoryId) {
@@ -353,6 +427,15 @@ export async function DELETE(
       await db.collection('users').doc(postData.authorId).update(decrementData)
     }
 
+    await updatePublishedCounters(postData, getPublishedCountDelta(postData.status, null)).catch(error => {
+      console.error('Error updating published counters:', error)
+    })
+
+    // Remove the post from the public search index
+    await updatePostSearchIndex(params.id).catch(error => {
+      console.error('Error updating search index:', error)
+    })
+
     return NextResponse.json({ 
       message: 'Post deleted successfully',
       id: params.id 
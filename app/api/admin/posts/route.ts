@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getAuth } from 'firebase-admin/auth'
 import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore'
 import { initializeFirebaseAdmin } from '@/lib/firebase/admin'
+import { normalizeTags, toISOString, toOptionalISOString } from '@/lib/utils'
+import { updatePostSearchIndex } from '@/lib/search-index'
+import { getPublishedCountDelta, updatePublishedCounters } from '@/lib/publishing'
+import { addPostRevision } from '@/lib/revisions'
+import { getDraftRef } from '@/lib/drafts'
+import { FirestorePost, PostRow } from '@/types/admin'
 
 // Initialize Firebase Admin
 initializeFirebaseAdmin()
@@ -33,6 +39,7 @@ async function authenticateUser(request: NextRequest) {
     return {
       uid: decodedToken.uid,
       email: decodedToken.email,
+      displayName: userData?.displayName || decodedToken.email || '',
       role: userData?.role || 'author',
       permissions: userData?.permissions || [],
       active: userData?.active !== false
@@ -108,14 +115,19 @@ export async function GET(request: NextRequest) {
 
     const snapshot = await query.get()
     
-    let posts = snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data(),
-      createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || null,
-      updatedAt: doc.data().updatedAt?.toDate?.()?.toISOString() || null,
-      publishDate: doc.data().publishDate?.toDate?.()?.toISOString() || null,
-      scheduledFor: doc.data().scheduledFor?.toDate?.()?.toISOString() || null
-    }))
+    let posts = snapshot.docs.map((doc): PostRow => {
+      const data = doc.data() as FirestorePost
+      return {
+        ...data,
+        id: doc.id,
+        createdAt: toISOString(data.createdAt),
+        updatedAt: toISOString(data.updatedAt),
+        publishDate: toOptionalISOString(data.publishDate),
+        scheduledFor: toOptionalISOString(data.scheduledFor),
+        expiresAt: toOptionalISOString(data.expiresAt),
+        expiredAt: toOptionalISOString(data.expiredAt)
+      }
+    })
 
     // Apply text search filter (client-side for simplicity)
     if (search) {
@@ -188,10 +200,13 @@ export async function POST(request: NextRequest) {
       categoryId, 
       tags = [],
       featured = false,
+      hideTableOfContents = false,
       featuredImage,
       seo,
       status = 'draft',
-      scheduledFor
+      scheduledFor,
+      expiresAt,
+      expiryAction = 'archive'
     } = body
 
     // Validate required fields
@@ -210,6 +225,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Validate schedule
+    if (scheduledFor && isNaN(new Date(scheduledFor).getTime())) {
+      return NextResponse.json({ error: 'Invalid scheduled date' }, { status: 400 })
+    }
+
+    // Validate expiry
+    if (expiresAt && isNaN(new Date(expiresAt).getTime())) {
+      return NextResponse.json({ error: 'Invalid expiry date' }, { status: 400 })
+    }
+    if (!['archive', 'banner'].includes(expiryAction)) {
+      return NextResponse.json(
+        { error: 'Invalid expiry action. Must be archive or banner' },
+        { status: 400 }
+      )
+    }
+
     // Validate category exists
     const categoryDoc = await db.collection('categories').doc(categoryId).get()
     if (!categoryDoc.exists) {
@@ -248,6 +279,9 @@ export async function POST(request: NextRequest) {
       createdAt: FieldValue.serverTimestamp(),
       updatedAt: FieldValue.serverTimestamp(),
       scheduledFor: scheduledFor ? Timestamp.fromDate(new Date(scheduledFor)) : null,
+      expiresAt: expiresAt ? Timestamp.fromDate(new Date(expiresAt)) : null,
+      expiryAction,
+      expiredAt: null,
       
       // Author & Category
       authorId: user.uid,
@@ -255,8 +289,9 @@ export async function POST(request: NextRequest) {
       
       // Content details
       featuredImage: featuredImage || null,
-      tags: Array.isArray(tags) ? tags : [],
+      tags: Array.isArray(tags) ? normalizeTags(tags) : [],
       featured,
+      hideTableOfContents,
       readingTime,
       
       // SEO & Social
@@ -279,7 +314,13 @@ export async function POST(request: NextRequest) {
       lastModifiedBy: user.uid
     }
 
-    const docRef = await db.collection('posts').add(postData)
+    // Create the post with its first revision, clearing the autosaved draft
+    const docRef = db.collection('posts').doc()
+    const batch = db.batch()
+    batch.set(docRef, postData)
+    addPostRevision(batch, docRef.id, postData, { uid: user.uid, name: user.displayName })
+    batch.delete(getDraftRef(user.uid, null))
+    await batch.commit()
     const newPost = await docRef.get()
 
     // Update category post count
@@ -294,6 +335,15 @@ export async function POST(request: NextRequest) {
       draftsCount: status === 'draft' ? FieldValue.increment(1) : 0
     })
 
+    await updatePublishedCounters({ categoryId, authorId: user.uid }, getPublishedCountDelta(null, status)).catch(error => {
+      console.error('Error updating published counters:', error)
+    })
+
+    // Keep the public search index in sync (a failure here shouldn't fail the save)
+    await updatePostSearchIndex(docRef.id).catch(error => {
+      console.error('Error updating search index:', error)
+    })
+
     const responseData = {
       id: docRef.id,
       ...newPost.data(),
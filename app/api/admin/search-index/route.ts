@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { withAdminAuth } from '@/lib/auth/middleware'
+import { rebuildSearchIndex } from '@/lib/search-index'
+
+// POST /api/admin/search-index - Rebuild the public search index from published posts
+export const POST = withAdminAuth(async () => {
+  try {
+    const indexed = await rebuildSearchIndex()
+
+    return NextResponse.json({
+      message: 'Search index rebuilt successfully',
+      indexed
+    })
+  } catch (error) {
+    console.error('Error rebuilding search index:', error)
+    return NextResponse.json(
+      { error: 'Failed to rebuild search index' },
+      { status: 500 }
+    )
+  }
+})
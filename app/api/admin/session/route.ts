@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { withAdminAuth, getAuthUser, AuthenticatedRequest } from '@/lib/auth/middleware'
+import {
+  createMaintenanceBypassToken,
+  MAINTENANCE_BYPASS_COOKIE,
+  MAINTENANCE_BYPASS_TTL
+} from '@/lib/maintenance'
+
+// POST /api/admin/session - Issue the cookie that lets admins past maintenance mode
+export const POST = withAdminAuth(async (request: AuthenticatedRequest) => {
+  const user = getAuthUser(request)
+  const response = NextResponse.json({ message: 'Session started' })
+
+  response.cookies.set(MAINTENANCE_BYPASS_COOKIE, await createMaintenanceBypassToken(user.uid), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: MAINTENANCE_BYPASS_TTL
+  })
+
+  return response
+})
+
+// DELETE /api/admin/session - Clear the bypass cookie on sign out
+export async function DELETE() {
+  const response = NextResponse.json({ message: 'Session ended' })
+  response.cookies.delete(MAINTENANCE_BYPASS_COOKIE)
+  return response
+}
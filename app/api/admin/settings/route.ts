@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server'
+import { FieldValue } from 'firebase-admin/firestore'
+import { withAdminAuth, getAuthUser, AuthenticatedRequest } from '@/lib/auth/middleware'
+import { getAdminDb } from '@/lib/firebase/admin'
+
+const MAX_MESSAGE_LENGTH = 500
+
+function getSiteConfigDoc() {
+  return getAdminDb().collection('site_config').doc('main')
+}
+
+// GET /api/admin/settings - Current site settings
+export const GET = withAdminAuth(async () => {
+  try {
+    const snapshot = await getSiteConfigDoc().get()
+    const data = snapshot.data() || {}
+
+    return NextResponse.json({
+      data: {
+        maintenanceMode: data.maintenanceMode === true,
+        maintenanceMessage: data.maintenanceMessage || '',
+        updatedAt: data.updatedAt?.toDate?.()?.toISOString() || null,
+        updatedBy: data.updatedBy || null
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching site settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch site settings' },
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/admin/settings - Update maintenance mode
+export const PUT = withAdminAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const user = getAuthUser(request)
+    const body = await request.json()
+    const { maintenanceMode, maintenanceMessage = '' } = body
+
+    if (typeof maintenanceMode !== 'boolean') {
+      return NextResponse.json(
+        { error: 'maintenanceMode must be a boolean' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof maintenanceMessage !== 'string' || maintenanceMessage.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json(
+        { error: `maintenanceMessage must be a string of at most ${MAX_MESSAGE_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    await getSiteConfigDoc().set({
+      id: 'main',
+      maintenanceMode,
+      maintenanceMessage: maintenanceMessage.trim(),
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedBy: user.uid
+    }, { merge: true })
+
+    return NextResponse.json({
+      message: `Maintenance mode ${maintenanceMode ? 'enabled' : 'disabled'}`,
+      data: { maintenanceMode, maintenanceMessage: maintenanceMessage.trim() }
+    })
+  } catch (error) {
+    console.error('Error updating site settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to update site settings' },
+      { status: 500 }
+    )
+  }
+})
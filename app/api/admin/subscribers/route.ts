@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { withEditorAuth, AuthenticatedRequest } from '@/lib/auth/middleware'
+import { listSubscribers, subscribersToCsv, SUBSCRIBER_STATUSES } from '@/lib/newsletter'
+import { SubscriberStatus } from '@/types/admin'
+
+// GET /api/admin/subscribers - Subscribers by ?status=, or a CSV with ?format=csv
+export const GET = withEditorAuth(async (request: AuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') as SubscriberStatus | null
+
+    if (status && !SUBSCRIBER_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of ${SUBSCRIBER_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const subscribers = await listSubscribers(status || undefined)
+
+    if (searchParams.get('format') === 'csv') {
+      const date = new Date().toISOString().split('T')[0]
+      return new NextResponse(subscribersToCsv(subscribers), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="subscribers-${status || 'all'}-${date}.csv"`,
+          'Cache-Control': 'no-store'
+        }
+      })
+    }
+
+    return NextResponse.json({ data: subscribers })
+  } catch (error) {
+    console.error('Error fetching subscribers:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch subscribers' },
+      { status: 500 }
+    )
+  }
+})
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getAuth } from 'firebase-admin/auth'
 import { getFirestore, FieldValue } from 'firebase-admin/firestore'
 import { initializeFirebaseAdmin } from '@/lib/firebase/admin'
+import { getSocialLinkUrl } from '@/lib/utils'
 
 // Initialize Firebase Admin
 initializeFirebaseAdmin()
@@ -47,6 +48,24 @@ function hasRole(userRole: string, allowedRoles: string[]): boolean {
   return allowedRoles.includes(userRole)
 }
 
+const SOCIAL_NETWORKS = ['twitter', 'linkedin', 'instagram', 'github', 'website', 'email']
+
+// Social links are rendered as hrefs on author pages, so only keep values that
+// resolve to an http(s) URL, a handle or an email address. Returns null when
+// the payload contains anything else.
+function validateSocialLinks(social: unknown): Record<string, string> | null {
+  if (!social || typeof social !== 'object' || Array.isArray(social)) return null
+
+  const links: Record<string, string> = {}
+  for (const [network, value] of Object.entries(social)) {
+    if (!SOCIAL_NETWORKS.includes(network) || typeof value !== 'string') return null
+    if (!value.trim()) continue
+    if (!getSocialLinkUrl(network, value)) return null
+    links[network] = value.trim()
+  }
+  return links
+}
+
 // GET /api/admin/users/[id] - Get single user
 export async function GET(
   request: NextRequest,
@@ -121,6 +140,11 @@ export async function PUT(
       return NextResponse.json({ error: 'User not found' }, { status: 404 })
     }
 
+    const socialLinks = social !== undefined ? validateSocialLinks(social) : undefined
+    if (socialLinks === null) {
+      return NextResponse.json({ error: 'Social links must be http(s) URLs, handles or an email address' }, { status: 400 })
+    }
+
     // Prepare update data
     const updateData: any = {
       updatedAt: FieldValue.serverTimestamp()
@@ -131,7 +155,7 @@ export async function PUT(
       if (displayName !== undefined) updateData.displayName = displayName
       if (bio !== undefined) updateData.bio = bio
       if (expertise !== undefined) updateData.expertise = expertise
-      if (social !== undefined) updateData.social = social
+      if (socialLinks !== undefined) updateData.social = socialLinks
     }
 
     // Admins can update everything (including role and active status)
@@ -139,7 +163,7 @@ export async function PUT(
       if (displayName !== undefined) updateData.displayName = displayName
       if (bio !== undefined) updateData.bio = bio
       if (expertise !== undefined) updateData.expertise = expertise
-      if (social !== undefined) updateData.social = social
+      if (socialLinks !== undefined) updateData.social = socialLinks
       if (active !== undefined) updateData.active = active
       
       // Role update with permissions
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { sendDigest, isDigestDue, getDigestSendMessage, DigestError } from '@/lib/digest'
+import { siteConfig } from '@/data'
+
+// GET /api/cron/digest - Weekly digest, called by the scheduler. Safe to call
+// often: each call sends the next chunk of an unfinished run, and a new run
+// only starts once a week.
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!siteConfig.features.newsletter) {
+    return NextResponse.json({ message: 'Newsletter is disabled' })
+  }
+
+  try {
+    if (!(await isDigestDue())) {
+      return NextResponse.json({ message: 'No digest is due' })
+    }
+
+    const send = await sendDigest({ triggeredBy: 'cron' })
+    return NextResponse.json({
+      message: getDigestSendMessage(send),
+      data: send
+    })
+  } catch (error) {
+    // Nothing new this week, or already sent: not a failure for the scheduler
+    if (error instanceof DigestError) {
+      return NextResponse.json({ message: error.message })
+    }
+
+    console.error('Error sending scheduled digest:', error)
+    return NextResponse.json(
+      { error: 'Failed to send digest' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { expireDuePosts, publishDuePosts } from '@/lib/publishing'
+
+// GET /api/cron/publish - Publish scheduled posts and expire time-sensitive ones that are due
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const publishing = await publishDuePosts()
+    const expiry = await expireDuePosts()
+
+    // Regenerate statically rendered listings, feeds and the affected post pages
+    if (publishing.published.length > 0 || expiry.expired.length > 0) {
+      revalidatePath('/', 'layout')
+    }
+
+    return NextResponse.json({
+      message: `Published ${publishing.published.length} and expired ${expiry.expired.length} posts`,
+      data: {
+        published: publishing.published,
+        expired: expiry.expired,
+        failed: publishing.failed + expiry.failed
+      }
+    })
+  } catch (error) {
+    console.error('Error running the publishing schedule:', error)
+    return NextResponse.json(
+      { error: 'Failed to run the publishing schedule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { rollupPostStats } from '@/lib/post-stats'
+
+// GET /api/cron/stats - Fold counter shards into post, category and author totals
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await rollupPostStats()
+    return NextResponse.json({
+      message: `Updated ${result.posts} posts and ${result.totals} category/author totals`,
+      data: result
+    })
+  } catch (error) {
+    console.error('Error rolling up post stats:', error)
+    return NextResponse.json(
+      { error: 'Failed to roll up post stats' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { confirmSubscription, createNewsletterToken } from '@/lib/newsletter'
+
+// GET /api/newsletter/confirm?token= - Confirmation link from the signup email
+export async function GET(request: NextRequest) {
+  const url = new URL('/newsletter', request.url)
+
+  try {
+    const email = await confirmSubscription(request.nextUrl.searchParams.get('token'))
+
+    if (email) {
+      url.searchParams.set('status', 'confirmed')
+      url.searchParams.set('token', await createNewsletterToken(email, 'newsletter-manage'))
+    } else {
+      url.searchParams.set('status', 'invalid')
+    }
+  } catch (error) {
+    console.error('Error confirming newsletter subscription:', error)
+    url.searchParams.set('status', 'error')
+  }
+
+  return NextResponse.redirect(url)
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSubscriberPreferences, updateSubscriberPreferences } from '@/lib/newsletter'
+
+function invalidToken() {
+  return NextResponse.json(
+    { error: 'This link is invalid or has expired' },
+    { status: 400 }
+  )
+}
+
+// GET /api/newsletter/preferences?token= - Subscriber's current preferences
+export async function GET(request: NextRequest) {
+  try {
+    const preferences = await getSubscriberPreferences(request.nextUrl.searchParams.get('token'))
+    if (!preferences) {
+      return invalidToken()
+    }
+
+    return NextResponse.json({ data: preferences })
+  } catch (error) {
+    console.error('Error fetching newsletter preferences:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch preferences' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/newsletter/preferences - Replace category interests
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const preferences = await updateSubscriberPreferences(body.token, body.categories)
+    if (!preferences) {
+      return invalidToken()
+    }
+
+    return NextResponse.json({
+      message: 'Preferences saved',
+      data: preferences
+    })
+  } catch (error) {
+    console.error('Error updating newsletter preferences:', error)
+    return NextResponse.json(
+      { error: 'Failed to update preferences' },
+      { status: 500 }
+    )
+  }
+}
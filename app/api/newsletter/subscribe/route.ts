@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { subscribe, NewsletterError } from '@/lib/newsletter'
+import { siteConfig, newsletterData } from '@/data'
+
+// POST /api/newsletter/subscribe - Start a double opt-in signup
+export async function POST(request: NextRequest) {
+  if (!siteConfig.features.newsletter) {
+    return NextResponse.json({ error: 'Newsletter is disabled' }, { status: 404 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+
+    // Honeypot: pretend it worked so bots learn nothing
+    if (typeof body.website === 'string' && body.website.trim()) {
+      return NextResponse.json({ message: newsletterData.successMessage })
+    }
+
+    await subscribe({
+      email: body.email,
+      categories: body.categories,
+      source: typeof body.source === 'string' ? body.source.slice(0, 50) : undefined
+    })
+
+    return NextResponse.json({ message: newsletterData.successMessage })
+  } catch (error) {
+    if (error instanceof NewsletterError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error subscribing to newsletter:', error)
+    return NextResponse.json(
+      { error: newsletterData.errorMessage },
+      { status: 500 }
+    )
+  }
+}
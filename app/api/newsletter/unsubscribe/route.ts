@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { unsubscribe } from '@/lib/newsletter'
+
+// POST /api/newsletter/unsubscribe - Token in the JSON body, or in the query
+// string for one-click unsubscribe from mail clients (RFC 8058)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const token = body.token || request.nextUrl.searchParams.get('token')
+
+    if (!(await unsubscribe(token))) {
+      return NextResponse.json(
+        { error: 'This link is invalid or has expired' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ message: "You've been unsubscribed" })
+  } catch (error) {
+    console.error('Error unsubscribing from newsletter:', error)
+    return NextResponse.json(
+      { error: 'Failed to unsubscribe' },
+      { status: 500 }
+    )
+  }
+}
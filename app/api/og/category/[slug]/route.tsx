@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCategoryBySlugFromDB } from '@/lib/blog-db'
+import { getCategoryBySlug } from '@/lib/blog'
+import { renderOgImage } from '@/lib/og-image'
+
+// GET /api/og/category/[slug] - Generated Open Graph card for a category
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params
+
+  try {
+    const category = (await getCategoryBySlugFromDB(slug)) || getCategoryBySlug(slug)
+
+    if (!category) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 })
+    }
+
+    return renderOgImage({
+      title: category.name,
+      eyebrow: 'Category',
+      icon: category.icon,
+      color: category.color,
+      byline: `${category.postCount} ${category.postCount === 1 ? 'article' : 'articles'}`
+    })
+  } catch (error) {
+    console.error(`Error generating OG image for category ${slug}:`, error)
+    return NextResponse.json({ error: 'Failed to generate image' }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPostBySlugFromDB, getCategoryBySlugFromDB } from '@/lib/blog-db'
+import { getPostBySlug, getCategoryBySlug } from '@/lib/blog'
+import { renderOgImage } from '@/lib/og-image'
+
+// GET /api/og/post/[slug] - Generated Open Graph card for a post
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params
+
+  try {
+    const post = (await getPostBySlugFromDB(slug)) || getPostBySlug(slug)
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 })
+    }
+
+    const category = (await getCategoryBySlugFromDB(post.category)) || getCategoryBySlug(post.category)
+
+    return renderOgImage({
+      title: post.title,
+      eyebrow: category?.name || post.category.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase()),
+      icon: category?.icon,
+      color: category?.color,
+      byline: post.author && post.author !== 'Anonymous' ? `By ${post.author}` : undefined
+    })
+  } catch (error) {
+    console.error(`Error generating OG image for post ${slug}:`, error)
+    return NextResponse.json({ error: 'Failed to generate image' }, { status: 500 })
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPostBySlugFromDB } from '@/lib/blog-db'
+import { getPostBySlug } from '@/lib/blog'
+import { getApprovedComments, submitComment, validateCommentInput, CommentError } from '@/lib/comments'
+import { getClientIp } from '@/lib/utils'
+import { siteConfig } from '@/data'
+
+function commentsDisabled() {
+  return NextResponse.json({ error: 'Comments are disabled' }, { status: 404 })
+}
+
+// GET /api/posts/[slug]/comments - Approved comments, threaded
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  if (!siteConfig.features.comments) {
+    return commentsDisabled()
+  }
+
+  try {
+    const { slug } = await params
+    const comments = await getApprovedComments(slug)
+
+    return NextResponse.json(
+      { data: comments },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    console.error('Error fetching comments:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch comments' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/posts/[slug]/comments - Submit a comment for moderation
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  if (!siteConfig.features.comments) {
+    return commentsDisabled()
+  }
+
+  try {
+    const { slug } = await params
+    const post = (await getPostBySlugFromDB(slug)) || getPostBySlug(slug)
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const input = validateCommentInput(body)
+
+    await submitComment(input, {
+      post: { slug: post.slug, title: post.title, authorId: post.authorId },
+      ip: getClientIp(request.headers),
+      userAgent: request.headers.get('user-agent') || ''
+    })
+
+    return NextResponse.json(
+      { message: 'Thanks! Your comment will appear once it has been approved.' },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof CommentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error submitting comment:', error)
+    return NextResponse.json(
+      { error: 'Failed to submit comment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPostBySlugFromDB, getPostNavigationFromDB } from '@/lib/blog-db'
+import { getPostBySlug, getPostNavigation } from '@/lib/blog'
+
+// GET /api/posts/[slug] - Published post with its previous/next navigation
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params
+    const post = (await getPostBySlugFromDB(slug)) || getPostBySlug(slug)
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 })
+    }
+
+    const [navigation, categoryNavigation] = await Promise.all([
+      getPostNavigationFromDB(slug),
+      getPostNavigationFromDB(slug, { withinCategory: true })
+    ])
+
+    return NextResponse.json({
+      data: {
+        post,
+        navigation: {
+          global: navigation || getPostNavigation(slug),
+          category: categoryNavigation || getPostNavigation(slug, true)
+        }
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching post:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch post' },
+      { status: 500 }
+    )
+  }
+}
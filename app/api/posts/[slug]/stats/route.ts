@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPostBySlugFromDB } from '@/lib/blog-db'
+import { getPostBySlug } from '@/lib/blog'
+import {
+  createVisitorCookie,
+  getPostStats,
+  isBotRequest,
+  recordShare,
+  recordView,
+  setLiked,
+  PostStatsError,
+  SHARE_NETWORKS,
+  verifyVisitorCookie,
+  VISITOR_COOKIE,
+  VISITOR_COOKIE_MAX_AGE
+} from '@/lib/post-stats'
+import { PostEngagementEvent, ShareNetwork } from '@/types/blog'
+import { siteConfig } from '@/data'
+
+const EVENTS: PostEngagementEvent[] = ['view', 'like', 'unlike', 'share']
+
+function engagementDisabled() {
+  return NextResponse.json({ error: 'Engagement tracking is disabled' }, { status: 404 })
+}
+
+function getCookieVisitorId(request: NextRequest): Promise<string | null> {
+  return verifyVisitorCookie(request.cookies.get(VISITOR_COOKIE)?.value)
+}
+
+async function setNewVisitorCookie(response: NextResponse): Promise<NextResponse> {
+  const { value } = await createVisitorCookie()
+  response.cookies.set(VISITOR_COOKIE, value, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: VISITOR_COOKIE_MAX_AGE
+  })
+  return response
+}
+
+// GET /api/posts/[slug]/stats - View, like and share counts for a post. Also
+// issues the visitor cookie that POST requires before it counts anything.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  if (!siteConfig.features.engagement) {
+    return engagementDisabled()
+  }
+
+  try {
+    const { slug } = await params
+    const visitorId = await getCookieVisitorId(request)
+    const stats = await getPostStats(slug, visitorId || undefined)
+
+    const response = NextResponse.json(
+      { data: stats },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+    return visitorId ? response : setNewVisitorCookie(response)
+  } catch (error) {
+    console.error('Error fetching post stats:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch post stats' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/posts/[slug]/stats - Record a view, like, unlike or share
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  if (!siteConfig.features.engagement) {
+    return engagementDisabled()
+  }
+
+  try {
+    const { slug } = await params
+    const body = await request.json().catch(() => null)
+    const event = body?.event as PostEngagementEvent
+    const network = body?.network as ShareNetwork
+
+    if (!EVENTS.includes(event)) {
+      throw new PostStatsError(`Event must be one of: ${EVENTS.join(', ')}`)
+    }
+    if (event === 'share' && !SHARE_NETWORKS.includes(network)) {
+      throw new PostStatsError(`Network must be one of: ${SHARE_NETWORKS.join(', ')}`)
+    }
+
+    // Crawlers and prefetches are acknowledged but never counted
+    if (isBotRequest(request.headers)) {
+      return NextResponse.json({ data: { counted: false } })
+    }
+
+    const post = (await getPostBySlugFromDB(slug)) || getPostBySlug(slug)
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 })
+    }
+
+    // A client that doesn't send the cookie back would get a new id on every
+    // request, so nothing is counted until it returns a valid signed cookie
+    const visitorId = await getCookieVisitorId(request)
+    if (!visitorId) {
+      return setNewVisitorCookie(NextResponse.json({ data: { counted: false } }))
+    }
+
+    let counted = true
+
+    if (event === 'view') {
+      counted = await recordView(post.slug, visitorId)
+    } else if (event === 'share') {
+      counted = await recordShare(post.slug, visitorId, network)
+    } else {
+      await setLiked(post.slug, visitorId, event === 'like')
+    }
+
+    return NextResponse.json({ data: { counted } })
+  } catch (error) {
+    if (error instanceof PostStatsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error recording post event:', error)
+    return NextResponse.json(
+      { error: 'Failed to record event' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPostsPageFromDB } from '@/lib/blog-db'
+import { siteConfig } from '@/data'
+import { PostSortOption } from '@/types/blog'
+
+const SORT_OPTIONS: PostSortOption[] = ['recent', 'oldest', 'popular', 'title']
+const MAX_LIMIT = 50
+// Cursors are post ids, which are Firestore auto ids
+const CURSOR_PATTERN = /^[A-Za-z0-9_-]{1,128}$/
+
+// GET /api/posts - Page of published posts, continuing after ?cursor=<post id>
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const sort = searchParams.get('sort') as PostSortOption | null
+    const cursor = searchParams.get('cursor') || undefined
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get('limit') || '') || siteConfig.content.postsPerPage, 1),
+      MAX_LIMIT
+    )
+
+    if (cursor && !CURSOR_PATTERN.test(cursor)) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 })
+    }
+
+    if (sort && !SORT_OPTIONS.includes(sort)) {
+      return NextResponse.json(
+        { error: `Invalid sort. Must be one of ${SORT_OPTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const result = await getPostsPageFromDB(
+      {
+        featured: searchParams.get('featured') === 'true',
+        category: searchParams.get('category') || undefined,
+        tag: searchParams.get('tag') || undefined,
+        sort: sort || undefined
+      },
+      { page, cursor, pageSize: limit }
+    )
+
+    return NextResponse.json({ data: result })
+  } catch (error) {
+    console.error('Error fetching posts:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch posts' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,4 @@
+import { createFeedHandler } from '@/lib/feed'
+
+// GET /atom.xml - Atom feed of the latest posts (?category=, ?tag=, ?content=full|excerpt)
+export const GET = createFeedHandler('atom')
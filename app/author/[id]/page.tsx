@@ -0,0 +1,164 @@
+import { getAuthorByIdFromDB, getPostsByAuthorFromDB } from '@/lib/blog-db'
+import { getAllPosts } from '@/lib/blog'
+import { generateAuthorMetadata } from '@/lib/metadata'
+import { getPersonJsonLd, getBreadcrumbJsonLd } from '@/lib/structured-data'
+import { BlogGrid, AuthorAvatar } from '@/components/blog'
+import JsonLd from '@/components/ui/JsonLd'
+import { getAuthorById, authorConfig } from '@/data'
+import { Author, BlogPost } from '@/types/blog'
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import { Metadata } from 'next'
+
+interface AuthorPageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+// Firestore users are the primary source, data/AuthorData.ts covers MDX-sourced posts
+async function resolveAuthor(id: string): Promise<{ author: Author; posts: BlogPost[] } | null> {
+  const dbAuthor = await getAuthorByIdFromDB(id)
+  if (dbAuthor) {
+    return { author: dbAuthor, posts: await getPostsByAuthorFromDB(id) }
+  }
+
+  const staticAuthor = getAuthorById(id)
+  if (staticAuthor) {
+    const posts = getAllPosts().filter(
+      (post) => post.author === staticAuthor.name || post.author === staticAuthor.id
+    )
+    return { author: staticAuthor, posts }
+  }
+
+  return null
+}
+
+// Generate metadata for SEO
+export async function generateMetadata({ params }: AuthorPageProps): Promise<Metadata> {
+  const { id } = await params
+  const resolved = authorConfig.enableAuthorPages ? await resolveAuthor(id) : null
+
+  if (!resolved) {
+    return {
+      title: 'Author Not Found | Variety Vibes'
+    }
+  }
+
+  return generateAuthorMetadata(resolved.author)
+}
+
+export default async function AuthorPage({ params }: AuthorPageProps) {
+  const { id } = await params
+
+  if (!authorConfig.enableAuthorPages) {
+    notFound()
+  }
+
+  const resolved = await resolveAuthor(id)
+
+  if (!resolved) {
+    notFound()
+  }
+
+  const { author, posts } = resolved
+  const displayedPosts = authorConfig.showAuthorArticles
+    ? posts.slice(0, authorConfig.articlesPerAuthorPage)
+    : []
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <JsonLd data={getPersonJsonLd(author)} />
+      <JsonLd
+        data={getBreadcrumbJsonLd([
+          { name: 'Home', path: '/' },
+          { name: 'Blog', path: '/blog' },
+          { name: author.name }
+        ])}
+      />
+
+      {/* Breadcrumb */}
+      <nav className="mb-8" aria-label="Breadcrumb">
+        <div className="flex items-center space-x-2 text-sm text-gray-500 dark:text-gray-400">
+          <Link href="/" className="hover:text-primary-600 dark:hover:text-primary-400 transition-colors">
+            Home
+          </Link>
+          <span>/</span>
+          <Link href="/blog" className="hover:text-primary-600 dark:hover:text-primary-400 transition-colors">
+            Blog
+          </Link>
+          <span>/</span>
+          <span className="text-gray-900 dark:text-gray-100 font-medium">{author.name}</span>
+        </div>
+      </nav>
+
+      {/* Author Header */}
+      <div className="text-center mb-12">
+        <div className="flex items-center justify-center mb-6">
+          <AuthorAvatar author={author} size={96} />
+        </div>
+
+        <h1 className="text-4xl md:text-5xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+          {author.name}
+        </h1>
+
+        {author.role && (
+          <p className="text-lg text-primary-600 dark:text-primary-400 font-medium mb-4">{author.role}</p>
+        )}
+
+        {author.bio && (
+          <p className="text-xl text-gray-600 dark:text-gray-400 max-w-2xl mx-auto mb-6">
+            {author.bio}
+          </p>
+        )}
+
+        {author.expertise.length > 0 && (
+          <div className="flex flex-wrap items-center justify-center gap-2 mb-6">
+            {author.expertise.map((item) => (
+              <span
+                key={item}
+                className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-primary-100 dark:bg-primary-900/40 text-primary-800 dark:text-primary-200"
+              >
+                {item}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-center gap-6 text-sm text-gray-500 dark:text-gray-400">
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-primary-600 dark:text-primary-400">{posts.length}</span>
+            <span>{posts.length === 1 ? 'Post' : 'Posts'}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Author Posts */}
+      {authorConfig.showAuthorArticles && (
+        displayedPosts.length > 0 ? (
+          <BlogGrid
+            posts={displayedPosts}
+            columns={3}
+            showAuthor={false}
+            className="mb-12"
+          />
+        ) : (
+          <div className="text-center py-16">
+            <h3 className="text-xl font-medium text-gray-900 dark:text-gray-100 mb-2">No posts by {author.name} yet</h3>
+            <p className="text-gray-500 dark:text-gray-400 mb-8">Check back soon for new articles!</p>
+          </div>
+        )
+      )}
+
+      {/* Back Navigation */}
+      <div className="text-center">
+        <Link
+          href="/blog"
+          className="inline-flex items-center px-4 py-2 text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 transition-colors"
+        >
+          ← Back to all posts
+        </Link>
+      </div>
+    </div>
+  )
+}
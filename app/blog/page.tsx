@@ -1,65 +1,248 @@
-import { getAllPostsFromDB, getAllCategoriesFromDB } from '@/lib/blog-db'
+import { getPostsPageFromDB, getAllCategoriesFromDB, getTagBySlugFromDB } from '@/lib/blog-db'
 import { generatePageMetadata } from '@/lib/metadata'
-import { BlogGrid } from '@/components/blog'
+import { getFeedAlternates } from '@/lib/feed'
+import { BlogGrid, Pagination } from '@/components/blog'
+import { siteConfig } from '@/data'
+import { PostListFilters, PostSortOption } from '@/types/blog'
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
 import { Metadata } from 'next'
 
-export const metadata: Metadata = generatePageMetadata(
-  'All Blog Posts',
-  'Browse all our comprehensive guides, expert insights, and practical tips across multiple categories.'
-)
+interface BlogPageProps {
+  searchParams: Promise<{
+    featured?: string
+    category?: string
+    tag?: string
+    sort?: string
+    page?: string
+  }>
+}
 
-export default async function BlogPage() {
-  const [posts, categories] = await Promise.all([
-    getAllPostsFromDB(),
-    getAllCategoriesFromDB()
+const sortOptions: { value: PostSortOption; label: string }[] = [
+  { value: 'recent', label: 'Latest' },
+  { value: 'popular', label: 'Most Popular' },
+  { value: 'title', label: 'A-Z' },
+  { value: 'oldest', label: 'Oldest' }
+]
+
+function parsePage(page?: string): number {
+  const parsed = parseInt(page || '1', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 1
+}
+
+function parseFilters(params: Awaited<BlogPageProps['searchParams']>): PostListFilters {
+  const sort = sortOptions.find((option) => option.value === params.sort)?.value
+
+  return {
+    featured: params.featured === 'true' || undefined,
+    category: params.category || undefined,
+    tag: params.tag || undefined,
+    sort
+  }
+}
+
+// Listing query string; the default sort and first page are left out of URLs
+function toQueryString(filters: PostListFilters, page: number = 1): string {
+  const params = new URLSearchParams()
+  if (filters.featured) params.set('featured', 'true')
+  if (filters.category) params.set('category', filters.category)
+  if (filters.tag) params.set('tag', filters.tag)
+  if (filters.sort && filters.sort !== 'recent') params.set('sort', filters.sort)
+  if (page > 1) params.set('page', String(page))
+  return params.toString()
+}
+
+function getBlogHref(filters: PostListFilters, page: number = 1): string {
+  const queryString = toQueryString(filters, page)
+  return queryString ? `/blog?${queryString}` : '/blog'
+}
+
+export async function generateMetadata({ searchParams }: BlogPageProps): Promise<Metadata> {
+  const params = await searchParams
+  const filters = parseFilters(params)
+  const page = parsePage(params.page)
+  const title = filters.featured ? 'Featured Posts' : 'All Blog Posts'
+
+  return {
+    ...generatePageMetadata(
+      page > 1 ? `${title} - Page ${page}` : title,
+      'Browse all our comprehensive guides, expert insights, and practical tips across multiple categories.'
+    ),
+    alternates: {
+      canonical: getBlogHref(filters, page),
+      types: getFeedAlternates(),
+    },
+  }
+}
+
+export default async function BlogPage({ searchParams }: BlogPageProps) {
+  const params = await searchParams
+  const filters = parseFilters(params)
+  const currentPage = parsePage(params.page)
+  const postsPerPage = siteConfig.content.postsPerPage
+
+  const [{ posts, nextCursor, total }, categories, activeTag] = await Promise.all([
+    getPostsPageFromDB(filters, { page: currentPage, pageSize: postsPerPage }),
+    getAllCategoriesFromDB(),
+    filters.tag ? getTagBySlugFromDB(filters.tag) : null
   ])
 
+  const totalPages = Math.max(1, Math.ceil(total / postsPerPage))
+  if (currentPage > totalPages) {
+    notFound()
+  }
+
+  const activeCategory = categories.find((category) => category.slug === filters.category)
+  const hasFilters = Boolean(filters.featured || filters.category || filters.tag)
+  const pillClasses = (active: boolean) =>
+    `inline-flex items-center px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+      active ? 'bg-primary-600 text-white' : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+    }`
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Header */}
       <div className="text-center mb-12">
-        <h1 className="text-4xl md:text-5xl font-bold text-gray-900 mb-4">
-          All Blog Posts
+        <h1 className="text-4xl md:text-5xl font-bold text-gray-900 dark:text-gray-100 mb-4">
+          {filters.featured ? 'Featured Posts' : 'All Blog Posts'}
         </h1>
-        <p className="text-xl text-gray-600 max-w-2xl mx-auto mb-6">
+        <p className="text-xl text-gray-600 dark:text-gray-400 max-w-2xl mx-auto mb-6">
           Discover insights and stories across various topics that matter to you
         </p>
-        
+
         {/* Stats */}
-        <div className="flex items-center justify-center gap-8 text-sm text-gray-500">
+        <div className="flex items-center justify-center gap-8 text-sm text-gray-500 dark:text-gray-400">
           <div className="flex items-center gap-2">
-            <span className="font-medium text-primary-600">{posts.length}</span>
-            <span>Total Posts</span>
+            <span className="font-medium text-primary-600 dark:text-primary-400">{total}</span>
+            <span>{hasFilters ? 'Matching Posts' : 'Total Posts'}</span>
           </div>
           <div className="flex items-center gap-2">
-            <span className="font-medium text-primary-600">{categories.length}</span>
+            <span className="font-medium text-primary-600 dark:text-primary-400">{categories.length}</span>
             <span>Categories</span>
           </div>
-          <div className="flex items-center gap-2">
-            <span className="font-medium text-primary-600">3-5 min</span>
-            <span>Average Read</span>
+          {totalPages > 1 && (
+            <div className="flex items-center gap-2">
+              <span>Page</span>
+              <span className="font-medium text-primary-600 dark:text-primary-400">{currentPage}</span>
+              <span>of {totalPages}</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="mb-10 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Link href={getBlogHref({ ...filters, category: undefined })} className={pillClasses(!filters.category)}>
+            All Categories
+          </Link>
+          {categories.map((category) => (
+            <Link
+              key={category.slug}
+              href={getBlogHref({ ...filters, category: category.slug })}
+              className={pillClasses(category.slug === filters.category)}
+            >
+              {category.name}
+            </Link>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Link
+              href={getBlogHref({ ...filters, featured: !filters.featured || undefined })}
+              className={pillClasses(Boolean(filters.featured))}
+              aria-pressed={Boolean(filters.featured)}
+            >
+              ★ Featured only
+            </Link>
+            {activeTag && (
+              <Link
+                href={getBlogHref({ ...filters, tag: undefined })}
+                className={pillClasses(true)}
+                aria-label={`Remove tag filter ${activeTag.name}`}
+              >
+                #{activeTag.name} ✕
+              </Link>
+            )}
+            {hasFilters && (
+              <Link
+                href={getBlogHref({ sort: filters.sort })}
+                className="text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 transition-colors"
+              >
+                Clear filters
+              </Link>
+            )}
           </div>
+
+          <nav className="flex items-center gap-1 text-sm" aria-label="Sort posts">
+            <span className="text-gray-500 dark:text-gray-400 mr-2">Sort by:</span>
+            {sortOptions.map((option) => {
+              const active = (filters.sort || 'recent') === option.value
+              return (
+                <Link
+                  key={option.value}
+                  href={getBlogHref({ ...filters, sort: option.value })}
+                  className={`px-3 py-1 rounded-md transition-colors ${
+                    active ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300 font-medium' : 'text-gray-600 dark:text-gray-400 hover:text-primary-600 dark:hover:text-primary-400'
+                  }`}
+                  aria-current={active ? 'true' : undefined}
+                >
+                  {option.label}
+                </Link>
+              )
+            })}
+          </nav>
         </div>
       </div>
 
       {/* Blog Grid */}
-      <BlogGrid 
-        posts={posts} 
-        columns={3}
-        className="mb-12"
-      />
-
-      {posts.length === 0 && (
+      {posts.length > 0 ? (
+        <BlogGrid
+          posts={posts}
+          columns={3}
+          showLoadMore
+          nextCursor={nextCursor}
+          loadMoreQuery={toQueryString(filters)}
+          pagination={
+            <div className="mt-12">
+              <Pagination
+                currentPage={currentPage}
+                totalPages={totalPages}
+                getPageHref={(pageNumber) => getBlogHref(filters, pageNumber)}
+              />
+            </div>
+          }
+          className="mb-12"
+        />
+      ) : (
         <div className="text-center py-16">
           <div className="mx-auto h-24 w-24 text-gray-400 mb-4">
             <svg fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
             </svg>
           </div>
-          <h3 className="text-xl font-medium text-gray-900 mb-2">No blog posts yet</h3>
-          <p className="text-gray-500">Check back soon for our latest insights and stories!</p>
+          {hasFilters ? (
+            <>
+              <h3 className="text-xl font-medium text-gray-900 dark:text-gray-100 mb-2">
+                No posts{activeCategory ? ` in ${activeCategory.name}` : ''} match these filters
+              </h3>
+              <p className="text-gray-500 dark:text-gray-400 mb-8">Try removing a filter to see more posts.</p>
+              <Link
+                href="/blog"
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 transition-colors"
+              >
+                View all posts →
+              </Link>
+            </>
+          ) : (
+            <>
+              <h3 className="text-xl font-medium text-gray-900 dark:text-gray-100 mb-2">No blog posts yet</h3>
+              <p className="text-gray-500 dark:text-gray-400">Check back soon for our latest insights and stories!</p>
+            </>
+          )}
         </div>
       )}
     </div>
   )
-}
\ No newline at end of file
+}
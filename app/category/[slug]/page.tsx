@@ -1,6 +1,10 @@
 import { getPostsByCategoryFromDB, getAllCategoriesFromDB, getCategoryBySlugFromDB } from '@/lib/blog-db'
 import { generateCategoryMetadata } from '@/lib/metadata'
+import { getFeedAlternates } from '@/lib/feed'
+import { getBreadcrumbJsonLd } from '@/lib/structured-data'
+import { getContrastColor } from '@/lib/utils'
 import { BlogGrid } from '@/components/blog'
+import JsonLd from '@/components/ui/JsonLd'
 import { notFound } from 'next/navigation'
 import Link from 'next/link'
 import { Metadata } from 'next'
@@ -30,7 +34,12 @@ export async function generateMetadata({ params }: CategoryPageProps): Promise<M
     }
   }
 
-  return generateCategoryMetadata(category.name, category.description)
+  return {
+    ...generateCategoryMetadata(category.name, category.description, category.slug),
+    alternates: {
+      types: getFeedAlternates({ category: category.slug }),
+    },
+  }
 }
 
 export default async function CategoryPage({ params }: CategoryPageProps) {
@@ -46,18 +55,26 @@ export default async function CategoryPage({ params }: CategoryPageProps) {
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <JsonLd
+        data={getBreadcrumbJsonLd([
+          { name: 'Home', path: '/' },
+          { name: 'Categories', path: '/categories' },
+          { name: category.name }
+        ])}
+      />
+
       {/* Breadcrumb */}
       <nav className="mb-8" aria-label="Breadcrumb">
-        <div className="flex items-center space-x-2 text-sm text-gray-500">
-          <Link href="/" className="hover:text-primary-600 transition-colors">
+        <div className="flex items-center space-x-2 text-sm text-gray-500 dark:text-gray-400">
+          <Link href="/" className="hover:text-primary-600 dark:hover:text-primary-400 transition-colors">
             Home
           </Link>
           <span>/</span>
-          <Link href="/categories" className="hover:text-primary-600 transition-colors">
+          <Link href="/categories" className="hover:text-primary-600 dark:hover:text-primary-400 transition-colors">
             Categories
           </Link>
           <span>/</span>
-          <span className="text-gray-900 font-medium">{category.name}</span>
+          <span className="text-gray-900 dark:text-gray-100 font-medium">{category.name}</span>
         </div>
       </nav>
 
@@ -65,28 +82,28 @@ export default async function CategoryPage({ params }: CategoryPageProps) {
       <div className="text-center mb-12">
         <div className="flex items-center justify-center mb-6">
           <div 
-            className="w-16 h-16 rounded-xl flex items-center justify-center text-white text-2xl font-bold shadow-lg"
-            style={{ backgroundColor: category.color }}
+            className="w-16 h-16 rounded-xl flex items-center justify-center text-2xl font-bold shadow-lg"
+            style={{ backgroundColor: category.color, color: getContrastColor(category.color) }}
           >
             {category.icon || category.name.charAt(0)}
           </div>
         </div>
         
-        <h1 className="text-4xl md:text-5xl font-bold text-gray-900 mb-4">
+        <h1 className="text-4xl md:text-5xl font-bold text-gray-900 dark:text-gray-100 mb-4">
           {category.name}
         </h1>
         
-        <p className="text-xl text-gray-600 max-w-2xl mx-auto mb-6">
+        <p className="text-xl text-gray-600 dark:text-gray-400 max-w-2xl mx-auto mb-6">
           {category.description}
         </p>
         
-        <div className="flex items-center justify-center gap-6 text-sm text-gray-500">
+        <div className="flex items-center justify-center gap-6 text-sm text-gray-500 dark:text-gray-400">
           <div className="flex items-center gap-2">
-            <span className="font-medium text-primary-600">{posts.length}</span>
+            <span className="font-medium text-primary-600 dark:text-primary-400">{posts.length}</span>
             <span>{posts.length === 1 ? 'Post' : 'Posts'}</span>
           </div>
           <div className="flex items-center gap-2">
-            <span className="font-medium text-primary-600">3-5 min</span>
+            <span className="font-medium text-primary-600 dark:text-primary-400">3-5 min</span>
             <span>Average Read</span>
           </div>
         </div>
@@ -102,13 +119,13 @@ export default async function CategoryPage({ params }: CategoryPageProps) {
       ) : (
         <div className="text-center py-16">
           <div 
-            className="mx-auto w-24 h-24 rounded-xl flex items-center justify-center text-white text-3xl font-bold mb-6 shadow-lg"
-            style={{ backgroundColor: category.color }}
+            className="mx-auto w-24 h-24 rounded-xl flex items-center justify-center text-3xl font-bold mb-6 shadow-lg"
+            style={{ backgroundColor: category.color, color: getContrastColor(category.color) }}
           >
             {category.icon || category.name.charAt(0)}
           </div>
-          <h3 className="text-xl font-medium text-gray-900 mb-2">No posts in {category.name} yet</h3>
-          <p className="text-gray-500 mb-8">Check back soon for expert insights and practical tips!</p>
+          <h3 className="text-xl font-medium text-gray-900 dark:text-gray-100 mb-2">No posts in {category.name} yet</h3>
+          <p className="text-gray-500 dark:text-gray-400 mb-8">Check back soon for expert insights and practical tips!</p>
           <Link
             href="/blog"
             className="inline-flex items-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 transition-colors"
@@ -122,7 +139,7 @@ export default async function CategoryPage({ params }: CategoryPageProps) {
       <div className="text-center">
         <Link
           href="/categories"
-          className="inline-flex items-center px-4 py-2 text-sm font-medium text-primary-600 hover:text-primary-700 transition-colors"
+          className="inline-flex items-center px-4 py-2 text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 transition-colors"
         >
           ← Back to all categories
         </Link>
@@ -0,0 +1,4 @@
+import { createFeedHandler } from '@/lib/feed'
+
+// GET /feed.xml - RSS 2.0 feed of the latest posts (?category=, ?tag=, ?content=full|excerpt)
+export const GET = createFeedHandler('rss')
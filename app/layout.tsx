@@ -4,6 +4,11 @@ import './globals.css'
 import Header from '@/components/layout/Header'
 import Footer from '@/components/layout/Footer'
 import { siteConfig, seoConfig } from '@/data'
+import { getFeedAlternates } from '@/lib/feed'
+import { getOrganizationJsonLd } from '@/lib/structured-data'
+import JsonLd from '@/components/ui/JsonLd'
+import { ThemeProvider } from '@/hooks/useTheme'
+import { themeInitScript } from '@/lib/theme'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -11,6 +16,9 @@ export const metadata: Metadata = {
   title: seoConfig.defaultTitle,
   description: seoConfig.defaultDescription,
   metadataBase: new URL(siteConfig.baseUrl),
+  alternates: {
+    types: getFeedAlternates(),
+  },
   openGraph: seoConfig.openGraph,
   twitter: seoConfig.twitter,
 }
@@ -20,16 +28,27 @@ export default function RootLayout({
 }: {
   children: React.ReactNode
 }) {
+  const content = (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+      <main className="flex-grow">
+        {children}
+      </main>
+      <Footer />
+    </div>
+  )
+
+  // The theme class is set on <html> before hydration, hence suppressHydrationWarning
   return (
-    <html lang={siteConfig.language}>
-      <body className={inter.className}>
-        <div className="min-h-screen flex flex-col">
-          <Header />
-          <main className="flex-grow">
-            {children}
-          </main>
-          <Footer />
-        </div>
+    <html lang={siteConfig.language} suppressHydrationWarning={siteConfig.features.darkMode}>
+      {siteConfig.features.darkMode && (
+        <head>
+          <script dangerouslySetInnerHTML={{ __html: themeInitScript }} />
+        </head>
+      )}
+      <body className={`${inter.className} dark:bg-gray-950`}>
+        <JsonLd data={getOrganizationJsonLd()} />
+        {siteConfig.features.darkMode ? <ThemeProvider>{content}</ThemeProvider> : content}
       </body>
     </html>
   )
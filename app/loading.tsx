@@ -4,13 +4,13 @@ export default function Loading() {
       <div className="animate-pulse">
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
           {[...Array(6)].map((_, i) => (
-            <div key={i} className="bg-white rounded-lg shadow-md overflow-hidden">
-              <div className="h-48 bg-gray-200"></div>
+            <div key={i} className="bg-white dark:bg-gray-900 rounded-lg shadow-md overflow-hidden">
+              <div className="h-48 bg-gray-200 dark:bg-gray-800"></div>
               <div className="p-6">
-                <div className="h-4 bg-gray-200 rounded mb-4"></div>
-                <div className="h-6 bg-gray-200 rounded mb-2"></div>
-                <div className="h-4 bg-gray-200 rounded mb-4"></div>
-                <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+                <div className="h-4 bg-gray-200 dark:bg-gray-800 rounded mb-4"></div>
+                <div className="h-6 bg-gray-200 dark:bg-gray-800 rounded mb-2"></div>
+                <div className="h-4 bg-gray-200 dark:bg-gray-800 rounded mb-4"></div>
+                <div className="h-4 bg-gray-200 dark:bg-gray-800 rounded w-1/2"></div>
               </div>
             </div>
           ))}
@@ -0,0 +1,82 @@
+import { getAllCategoriesFromDB } from '@/lib/blog-db'
+import { generatePageMetadata } from '@/lib/metadata'
+import { getSubscriberPreferences } from '@/lib/newsletter'
+import { NewsletterSignup, NewsletterPreferences } from '@/components/blog'
+import { newsletterData } from '@/data'
+import { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  ...generatePageMetadata(
+    'Newsletter',
+    newsletterData.description
+  ),
+  // Preference links carry personal tokens; keep them out of Referer headers
+  referrer: 'no-referrer'
+}
+
+interface NewsletterPageProps {
+  searchParams: Promise<{ status?: string; token?: string }>
+}
+
+const statusMessages: Record<string, { type: 'success' | 'error'; text: string }> = {
+  confirmed: { type: 'success', text: "You're subscribed! Welcome aboard." },
+  invalid: { type: 'error', text: 'That confirmation link is invalid or has expired. Please sign up again.' },
+  error: { type: 'error', text: newsletterData.errorMessage }
+}
+
+export default async function NewsletterPage({ searchParams }: NewsletterPageProps) {
+  const { status, token } = await searchParams
+  const [categories, preferences] = await Promise.all([
+    getAllCategoriesFromDB(),
+    token ? getSubscriberPreferences(token).catch(() => null) : null
+  ])
+  const categoryOptions = categories.map(({ slug, name }) => ({ slug, name }))
+  const statusMessage = status ? statusMessages[status] : undefined
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="text-center mb-10">
+        <h1 className="text-4xl md:text-5xl font-bold text-gray-900 dark:text-gray-100 mb-4">
+          {newsletterData.title}
+        </h1>
+        <p className="text-xl text-gray-600 dark:text-gray-400">
+          {newsletterData.description}
+        </p>
+      </div>
+
+      {statusMessage && (
+        <div
+          role="status"
+          className={`mb-8 rounded-lg p-4 text-sm ${statusMessage.type === 'success'
+            ? 'bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-200'
+            : 'bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200'}`}
+        >
+          {statusMessage.text}
+        </div>
+      )}
+
+      {token && !preferences && (
+        <div role="status" className="mb-8 rounded-lg p-4 text-sm bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200">
+          This subscription link is invalid or has expired.
+        </div>
+      )}
+
+      {token && preferences ? (
+        <NewsletterPreferences
+          token={token}
+          email={preferences.email}
+          status={preferences.status}
+          categories={preferences.categories}
+          allCategories={categoryOptions}
+        />
+      ) : (
+        <div className="bg-white dark:bg-gray-900 rounded-lg shadow-md p-6 sm:p-8">
+          <NewsletterSignup categories={categoryOptions} />
+          <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            We'll email you a link to confirm your address. Every newsletter includes a link to change your topics or unsubscribe.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,9 +3,9 @@ import Link from 'next/link'
 export default function NotFound() {
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
-      <h1 className="text-6xl font-bold text-gray-900 mb-4">404</h1>
-      <h2 className="text-2xl font-semibold text-gray-700 mb-6">Page Not Found</h2>
-      <p className="text-gray-600 mb-8">
+      <h1 className="text-6xl font-bold text-gray-900 dark:text-gray-100 mb-4">404</h1>
+      <h2 className="text-2xl font-semibold text-gray-700 dark:text-gray-300 mb-6">Page Not Found</h2>
+      <p className="text-gray-600 dark:text-gray-400 mb-8">
         The page you're looking for doesn't exist or has been moved.
       </p>
       <Link
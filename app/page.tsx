@@ -18,14 +18,14 @@ export default async function Home() {
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Hero Section */}
-      <section className="text-center py-12 bg-gradient-to-r from-primary-50 to-blue-50 rounded-lg mb-12">
-        <h1 className="text-4xl md:text-6xl font-bold text-gray-900 mb-4">
+      <section className="text-center py-12 bg-gradient-to-r from-primary-50 dark:from-gray-900 to-blue-50 dark:to-gray-800 rounded-lg mb-12">
+        <h1 className="text-4xl md:text-6xl font-bold text-gray-900 dark:text-gray-100 mb-4">
           {heroData.title}
         </h1>
-        <p className="text-xl text-gray-600 max-w-2xl mx-auto mb-8">
+        <p className="text-xl text-gray-600 dark:text-gray-400 max-w-2xl mx-auto mb-8">
           {heroData.subtitle}
         </p>
-        <p className="text-lg text-gray-500 max-w-3xl mx-auto mb-8">
+        <p className="text-lg text-gray-500 dark:text-gray-400 max-w-3xl mx-auto mb-8">
           {heroData.description}
         </p>
         
@@ -49,8 +49,8 @@ export default async function Home() {
             heroData.ctaButton.variant === 'primary'
               ? 'text-white bg-primary-600 hover:bg-primary-700'
               : heroData.ctaButton.variant === 'secondary'
-              ? 'text-primary-600 bg-white hover:bg-gray-50 border-primary-600'
-              : 'text-primary-600 bg-transparent hover:bg-primary-50 border-primary-600'
+              ? 'text-primary-600 dark:text-primary-400 bg-white dark:bg-gray-900 hover:bg-gray-50 dark:hover:bg-gray-800 border-primary-600'
+              : 'text-primary-600 dark:text-primary-400 bg-transparent hover:bg-primary-50 dark:hover:bg-primary-900/30 border-primary-600'
           }`}
         >
           {heroData.ctaButton.text}
@@ -61,34 +61,34 @@ export default async function Home() {
       <section className="mb-12">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
           <div className="text-center">
-            <div className="text-3xl font-bold text-primary-600 mb-2">
+            <div className="text-3xl font-bold text-primary-600 dark:text-primary-400 mb-2">
               {featuredStats.totalPosts}
             </div>
-            <div className="text-gray-600">
+            <div className="text-gray-600 dark:text-gray-400">
               Total Posts
             </div>
           </div>
           <div className="text-center">
-            <div className="text-3xl font-bold text-primary-600 mb-2">
+            <div className="text-3xl font-bold text-primary-600 dark:text-primary-400 mb-2">
               {featuredStats.categories}
             </div>
-            <div className="text-gray-600">
+            <div className="text-gray-600 dark:text-gray-400">
               Categories
             </div>
           </div>
           <div className="text-center">
-            <div className="text-3xl font-bold text-primary-600 mb-2">
+            <div className="text-3xl font-bold text-primary-600 dark:text-primary-400 mb-2">
               {featuredStats.readingTime}
             </div>
-            <div className="text-gray-600">
+            <div className="text-gray-600 dark:text-gray-400">
               Reading Time
             </div>
           </div>
           <div className="text-center">
-            <div className="text-3xl font-bold text-primary-600 mb-2">
+            <div className="text-3xl font-bold text-primary-600 dark:text-primary-400 mb-2">
               {featuredStats.updateFrequency}
             </div>
-            <div className="text-gray-600">
+            <div className="text-gray-600 dark:text-gray-400">
               Updates
             </div>
           </div>
@@ -99,10 +99,10 @@ export default async function Home() {
       {displayedFeaturedPosts.length > 0 && (
         <section className="mb-12">
           <div className="flex items-center justify-between mb-8">
-            <h2 className="text-3xl font-bold text-gray-900">Featured Posts</h2>
+            <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Featured Posts</h2>
             <Link
               href="/blog"
-              className="text-primary-600 hover:text-primary-700 font-medium transition-colors"
+              className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 font-medium transition-colors"
             >
               View All →
             </Link>
@@ -118,10 +118,10 @@ export default async function Home() {
       {/* Categories */}
       <section className="mb-12">
         <div className="flex items-center justify-between mb-8">
-          <h2 className="text-3xl font-bold text-gray-900">Explore Categories</h2>
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Explore Categories</h2>
           <Link
             href="/categories"
-            className="text-primary-600 hover:text-primary-700 font-medium transition-colors"
+            className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 font-medium transition-colors"
           >
             View All →
           </Link>
@@ -132,10 +132,10 @@ export default async function Home() {
       {/* Latest Posts */}
       <section className="mb-12">
         <div className="flex items-center justify-between mb-8">
-          <h2 className="text-3xl font-bold text-gray-900">Latest Posts</h2>
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Latest Posts</h2>
           <Link
             href="/blog"
-            className="text-primary-600 hover:text-primary-700 font-medium transition-colors"
+            className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 font-medium transition-colors"
           >
             View All →
           </Link>
@@ -0,0 +1,38 @@
+import { cache } from 'react'
+import { notFound } from 'next/navigation'
+import { Metadata } from 'next'
+import { getPreviewPost } from '@/lib/preview'
+import BlogPostArticle from '@/components/blog/BlogPostArticle'
+
+// Tokens can be revoked at any time, so previews are never cached
+export const dynamic = 'force-dynamic'
+
+interface PreviewPageProps {
+  params: Promise<{
+    token: string
+  }>
+}
+
+// Shared by generateMetadata and the page within one request
+const loadPreviewPost = cache(getPreviewPost)
+
+export async function generateMetadata({ params }: PreviewPageProps): Promise<Metadata> {
+  const { token } = await params
+  const post = await loadPreviewPost(token)
+
+  return {
+    title: post ? `Preview: ${post.title}` : 'Preview Not Found',
+    robots: { index: false, follow: false }
+  }
+}
+
+export default async function PreviewPage({ params }: PreviewPageProps) {
+  const { token } = await params
+  const post = await loadPreviewPost(token)
+
+  if (!post) {
+    notFound()
+  }
+
+  return <BlogPostArticle post={post} preview />
+}
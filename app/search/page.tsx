@@ -0,0 +1,248 @@
+import { searchPostsFromDB, getAllCategoriesFromDB } from '@/lib/blog-db'
+import { generatePageMetadata } from '@/lib/metadata'
+import { SearchResults, Pagination } from '@/components/blog'
+import { siteConfig } from '@/data'
+import { SearchFacet } from '@/types/blog'
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import { Metadata } from 'next'
+
+interface SearchPageProps {
+  searchParams: Promise<{
+    q?: string | string[]
+    category?: string | string[]
+    tag?: string | string[]
+    page?: string | string[]
+  }>
+}
+
+interface SearchState {
+  q: string
+  category?: string
+  tags: string[]
+  page?: number
+}
+
+function parsePage(page?: string): number {
+  const parsed = parseInt(page || '1', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 1
+}
+
+function toArray(value?: string | string[]): string[] {
+  if (!value) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+// Repeated params (?q=a&q=b) arrive as arrays; the first one wins
+function firstValue(value?: string | string[]): string | undefined {
+  return Array.isArray(value) ? value[0] : value
+}
+
+function getSearchHref({ q, category, tags, page }: SearchState): string {
+  const params = new URLSearchParams()
+  if (q) params.set('q', q)
+  if (category) params.set('category', category)
+  tags.forEach((tag) => params.append('tag', tag))
+  if (page && page > 1) params.set('page', String(page))
+
+  const queryString = params.toString()
+  return queryString ? `/search?${queryString}` : '/search'
+}
+
+// Search result pages are not useful in search engines
+export async function generateMetadata({ searchParams }: SearchPageProps): Promise<Metadata> {
+  const { q } = await searchParams
+  const query = firstValue(q)?.trim()
+
+  return {
+    ...generatePageMetadata(
+      query ? `Search results for "${query}"` : 'Search',
+      'Search all our guides, expert insights and practical tips.'
+    ),
+    robots: {
+      index: false,
+      follow: true,
+    },
+  }
+}
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  if (!siteConfig.features.search) {
+    notFound()
+  }
+
+  const params = await searchParams
+  const query = (firstValue(params.q) || '').trim()
+  const category = firstValue(params.category)
+  const page = firstValue(params.page)
+  const tags = toArray(params.tag)
+  const state: SearchState = { q: query, category, tags }
+  const hasSearch = Boolean(query || category || tags.length > 0)
+
+  const [response, categories] = await Promise.all([
+    searchPostsFromDB({ query, category, tags }),
+    getAllCategoriesFromDB()
+  ])
+
+  // Show category names rather than slugs in the facet list
+  const categoryNames = new Map(categories.map((item) => [item.slug, item.name]))
+  const categoryFacets: SearchFacet[] = response.facets.categories.map((facet) => ({
+    ...facet,
+    label: categoryNames.get(facet.value) || facet.label,
+  }))
+
+  const postsPerPage = siteConfig.content.postsPerPage
+  const totalPages = Math.max(1, Math.ceil(response.total / postsPerPage))
+  const currentPage = Math.min(parsePage(page), totalPages)
+  const pageResults = response.results.slice((currentPage - 1) * postsPerPage, currentPage * postsPerPage)
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="text-center mb-12">
+        <h1 className="text-4xl md:text-5xl font-bold text-gray-900 dark:text-gray-100 mb-4">
+          Search
+        </h1>
+        <p className="text-xl text-gray-600 dark:text-gray-400 max-w-2xl mx-auto mb-6">
+          Find guides and insights across every category
+        </p>
+
+        <form action="/search" method="get" role="search" className="max-w-2xl mx-auto flex gap-2">
+          <label htmlFor="search-query" className="sr-only">Search articles</label>
+          <input
+            id="search-query"
+            type="search"
+            name="q"
+            defaultValue={query}
+            placeholder="Search articles..."
+            className="flex-1 rounded-md border border-gray-300 dark:border-gray-700 px-4 py-3 text-gray-900 dark:text-gray-100 dark:bg-gray-800 shadow-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+          />
+          {category && <input type="hidden" name="category" value={category} />}
+          {tags.map((item) => (
+            <input key={item} type="hidden" name="tag" value={item} />
+          ))}
+          <button
+            type="submit"
+            className="px-6 py-3 rounded-md text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 transition-colors"
+          >
+            Search
+          </button>
+        </form>
+      </div>
+
+      {hasSearch ? (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          {/* Facets */}
+          <aside className="space-y-8">
+            {categoryFacets.length > 0 && (
+              <section>
+                <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-900 dark:text-gray-100 mb-3">Categories</h2>
+                <ul className="space-y-1">
+                  {categoryFacets.map((facet) => {
+                    const active = facet.value === category
+                    return (
+                      <li key={facet.value}>
+                        <Link
+                          href={getSearchHref({ ...state, category: active ? undefined : facet.value })}
+                          className={`flex items-center justify-between rounded-md px-3 py-2 text-sm transition-colors ${
+                            active ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300 font-medium' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800'
+                          }`}
+                          aria-current={active ? 'true' : undefined}
+                        >
+                          <span>{facet.label}</span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400">{facet.count}</span>
+                        </Link>
+                      </li>
+                    )
+                  })}
+                </ul>
+              </section>
+            )}
+
+            {response.facets.tags.length > 0 && (
+              <section>
+                <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-900 dark:text-gray-100 mb-3">Tags</h2>
+                <div className="flex flex-wrap gap-2">
+                  {response.facets.tags.slice(0, 20).map((facet) => {
+                    const active = tags.includes(facet.value)
+                    return (
+                      <Link
+                        key={facet.value}
+                        href={getSearchHref({
+                          ...state,
+                          tags: active ? tags.filter((item) => item !== facet.value) : [...tags, facet.value],
+                        })}
+                        className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm transition-colors ${
+                          active ? 'bg-primary-600 text-white' : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                        }`}
+                        aria-current={active ? 'true' : undefined}
+                      >
+                        #{facet.label}
+                        <span className={active ? 'text-primary-100' : 'text-gray-500 dark:text-gray-400'}>{facet.count}</span>
+                      </Link>
+                    )
+                  })}
+                </div>
+              </section>
+            )}
+
+            {(category || tags.length > 0) && (
+              <Link
+                href={getSearchHref({ q: query, tags: [] })}
+                className="inline-block text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 transition-colors"
+              >
+                Clear filters
+              </Link>
+            )}
+          </aside>
+
+          {/* Results */}
+          <div className="lg:col-span-3">
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+              {response.total} {response.total === 1 ? 'result' : 'results'}
+              {query && <> for <span className="font-medium text-gray-900 dark:text-gray-100">&ldquo;{query}&rdquo;</span></>}
+            </p>
+
+            {pageResults.length > 0 ? (
+              <>
+                <SearchResults results={pageResults} className="mb-12" />
+                <Pagination
+                  currentPage={currentPage}
+                  totalPages={totalPages}
+                  getPageHref={(pageNumber) => getSearchHref({ ...state, page: pageNumber })}
+                />
+              </>
+            ) : (
+              <div className="text-center py-16">
+                <h3 className="text-xl font-medium text-gray-900 dark:text-gray-100 mb-2">No matching articles</h3>
+                <p className="text-gray-500 dark:text-gray-400 mb-8">Try different keywords or remove some filters.</p>
+                <Link
+                  href="/categories"
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 transition-colors"
+                >
+                  Browse categories →
+                </Link>
+              </div>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="text-center py-16">
+          <h3 className="text-xl font-medium text-gray-900 dark:text-gray-100 mb-2">What are you looking for?</h3>
+          <p className="text-gray-500 dark:text-gray-400 mb-8">Search by keyword, or start from a popular topic:</p>
+          <div className="flex flex-wrap justify-center gap-2 max-w-2xl mx-auto">
+            {response.facets.tags.slice(0, 12).map((facet) => (
+              <Link
+                key={facet.value}
+                href={getSearchHref({ q: '', tags: [facet.value] })}
+                className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+              >
+                #{facet.label}
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { getSitemapIndexEntries, renderSitemapIndex } from '@/lib/sitemap'
+import { siteConfig, performanceConfig } from '@/data'
+
+// GET /sitemap.xml - Sitemap index pointing at the per-section sitemaps
+export async function GET() {
+  if (!siteConfig.features.sitemap) {
+    return new NextResponse('Not Found', { status: 404 })
+  }
+
+  try {
+    const sitemaps = await getSitemapIndexEntries()
+
+    return new NextResponse(renderSitemapIndex(sitemaps), {
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Cache-Control': `public, max-age=${performanceConfig.cache.api}`
+      }
+    })
+  } catch (error) {
+    console.error('Error generating sitemap index:', error)
+    return new NextResponse('Failed to generate sitemap', { status: 500 })
+  }
+}
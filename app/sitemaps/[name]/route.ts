@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSitemapEntries, renderUrlSet, SITEMAP_MAX_URLS, SitemapType } from '@/lib/sitemap'
+import { siteConfig, performanceConfig } from '@/data'
+
+// e.g. posts-1.xml, tags-2.xml
+const SITEMAP_NAME = /^(pages|posts|categories|tags|authors)-(\d+)\.xml$/
+
+// GET /sitemaps/[name] - One numbered chunk of a sitemap section
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params
+  const match = name.match(SITEMAP_NAME)
+
+  if (!siteConfig.features.sitemap || !match) {
+    return new NextResponse('Not Found', { status: 404 })
+  }
+
+  try {
+    const type = match[1] as SitemapType
+    const chunk = parseInt(match[2], 10)
+    const entries = await getSitemapEntries(type)
+    const chunkEntries = entries.slice((chunk - 1) * SITEMAP_MAX_URLS, chunk * SITEMAP_MAX_URLS)
+
+    // The first chunk always exists so an empty section still resolves
+    if (chunk < 1 || (chunk > 1 && chunkEntries.length === 0)) {
+      return new NextResponse('Not Found', { status: 404 })
+    }
+
+    return new NextResponse(renderUrlSet(chunkEntries), {
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Cache-Control': `public, max-age=${performanceConfig.cache.api}`
+      }
+    })
+  } catch (error) {
+    console.error(`Error generating sitemap ${name}:`, error)
+    return new NextResponse('Failed to generate sitemap', { status: 500 })
+  }
+}
@@ -0,0 +1,140 @@
+import { getPostsByTagFromDB, getTagBySlugFromDB, getTagsWithCountsFromDB } from '@/lib/blog-db'
+import { generateTagMetadata } from '@/lib/metadata'
+import { getFeedAlternates } from '@/lib/feed'
+import { BlogGrid, Pagination } from '@/components/blog'
+import { siteConfig } from '@/data'
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import { Metadata } from 'next'
+
+interface TagPageProps {
+  params: Promise<{
+    tag: string
+  }>
+  searchParams: Promise<{
+    page?: string
+  }>
+}
+
+function parsePage(page?: string): number {
+  const parsed = parseInt(page || '1', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 1
+}
+
+// Generate static params for all tags
+export async function generateStaticParams() {
+  const tags = await getTagsWithCountsFromDB()
+  return tags.map((tag) => ({
+    tag: tag.slug,
+  }))
+}
+
+// Generate metadata for SEO
+export async function generateMetadata({ params, searchParams }: TagPageProps): Promise<Metadata> {
+  const { tag: tagSlug } = await params
+  const { page } = await searchParams
+  const tag = await getTagBySlugFromDB(decodeURIComponent(tagSlug))
+
+  if (!tag) {
+    return {
+      title: 'Tag Not Found | Variety Vibes'
+    }
+  }
+
+  return {
+    ...generateTagMetadata(tag.name, tag.postCount, parsePage(page)),
+    alternates: {
+      canonical: `/tag/${tag.slug}`,
+      types: getFeedAlternates({ tag: tag.slug }),
+    },
+  }
+}
+
+export default async function TagPage({ params, searchParams }: TagPageProps) {
+  const { tag: tagSlug } = await params
+  const { page } = await searchParams
+  const slug = decodeURIComponent(tagSlug)
+
+  const [tag, posts] = await Promise.all([
+    getTagBySlugFromDB(slug),
+    getPostsByTagFromDB(slug)
+  ])
+
+  if (!tag) {
+    notFound()
+  }
+
+  const postsPerPage = siteConfig.content.postsPerPage
+  const totalPages = Math.max(1, Math.ceil(posts.length / postsPerPage))
+  const currentPage = parsePage(page)
+
+  if (currentPage > totalPages) {
+    notFound()
+  }
+
+  const pagePosts = posts.slice((currentPage - 1) * postsPerPage, currentPage * postsPerPage)
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Breadcrumb */}
+      <nav className="mb-8" aria-label="Breadcrumb">
+        <div className="flex items-center space-x-2 text-sm text-gray-500 dark:text-gray-400">
+          <Link href="/" className="hover:text-primary-600 dark:hover:text-primary-400 transition-colors">
+            Home
+          </Link>
+          <span>/</span>
+          <Link href="/tags" className="hover:text-primary-600 dark:hover:text-primary-400 transition-colors">
+            Tags
+          </Link>
+          <span>/</span>
+          <span className="text-gray-900 dark:text-gray-100 font-medium">#{tag.name}</span>
+        </div>
+      </nav>
+
+      {/* Tag Header */}
+      <div className="text-center mb-12">
+        <h1 className="text-4xl md:text-5xl font-bold text-gray-900 dark:text-gray-100 mb-4">
+          #{tag.name}
+        </h1>
+        <div className="flex items-center justify-center gap-6 text-sm text-gray-500 dark:text-gray-400">
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-primary-600 dark:text-primary-400">{tag.postCount}</span>
+            <span>{tag.postCount === 1 ? 'Post' : 'Posts'}</span>
+          </div>
+          {totalPages > 1 && (
+            <div className="flex items-center gap-2">
+              <span>Page</span>
+              <span className="font-medium text-primary-600 dark:text-primary-400">{currentPage}</span>
+              <span>of {totalPages}</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Tagged Posts */}
+      <BlogGrid
+        posts={pagePosts}
+        columns={3}
+        className="mb-12"
+      />
+
+      <div className="mb-12">
+        <Pagination
+          currentPage={currentPage}
+          totalPages={totalPages}
+          getPageHref={(pageNumber) => pageNumber === 1 ? `/tag/${tag.slug}` : `/tag/${tag.slug}?page=${pageNumber}`}
+        />
+      </div>
+
+      {/* Back Navigation */}
+      <div className="text-center">
+        <Link
+          href="/tags"
+          className="inline-flex items-center px-4 py-2 text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 transition-colors"
+        >
+          ← Back to all tags
+        </Link>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+import { getTagsWithCountsFromDB } from '@/lib/blog-db'
+import { generatePageMetadata } from '@/lib/metadata'
+import Link from 'next/link'
+import { Metadata } from 'next'
+
+export const metadata: Metadata = generatePageMetadata(
+  'All Tags',
+  'Browse every topic we write about, from coverage types to renovation tips.'
+)
+
+// Font sizes for the tag cloud, from least to most used
+const cloudSizes = ['text-sm', 'text-base', 'text-lg', 'text-xl', 'text-2xl']
+
+export default async function TagsPage() {
+  const tags = await getTagsWithCountsFromDB()
+
+  const counts = tags.map((tag) => tag.postCount)
+  const minCount = Math.min(...counts)
+  const maxCount = Math.max(...counts)
+
+  const getCloudSize = (postCount: number) => {
+    if (maxCount === minCount) return cloudSizes[1]
+    const ratio = (postCount - minCount) / (maxCount - minCount)
+    return cloudSizes[Math.round(ratio * (cloudSizes.length - 1))]
+  }
+
+  const alphabeticalTags = [...tags].sort((a, b) => a.name.localeCompare(b.name))
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="text-center mb-12">
+        <h1 className="text-4xl md:text-5xl font-bold text-gray-900 dark:text-gray-100 mb-4">
+          Browse by Tag
+        </h1>
+        <p className="text-xl text-gray-600 dark:text-gray-400 max-w-2xl mx-auto mb-6">
+          Find articles on the exact topics you care about
+        </p>
+
+        {/* Stats */}
+        <div className="flex items-center justify-center gap-8 text-sm text-gray-500 dark:text-gray-400">
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-primary-600 dark:text-primary-400">{tags.length}</span>
+            <span>Tags</span>
+          </div>
+        </div>
+      </div>
+
+      {tags.length > 0 ? (
+        <>
+          {/* Tag Cloud */}
+          <section className="bg-white dark:bg-gray-900 rounded-lg shadow-md p-8 mb-12">
+            <div className="flex flex-wrap items-baseline justify-center gap-x-6 gap-y-4">
+              {alphabeticalTags.map((tag) => (
+                <Link
+                  key={tag.slug}
+                  href={`/tag/${tag.slug}`}
+                  className={`${getCloudSize(tag.postCount)} font-medium text-gray-700 dark:text-gray-300 hover:text-primary-600 dark:hover:text-primary-400 transition-colors`}
+                  title={`${tag.postCount} ${tag.postCount === 1 ? 'post' : 'posts'}`}
+                >
+                  #{tag.name}
+                </Link>
+              ))}
+            </div>
+          </section>
+
+          {/* Tags with counts */}
+          <section>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-6">Popular Tags</h2>
+            <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+              {tags.map((tag) => (
+                <li key={tag.slug}>
+                  <Link
+                    href={`/tag/${tag.slug}`}
+                    className="flex items-center justify-between bg-white dark:bg-gray-900 rounded-lg shadow-sm px-4 py-3 hover:shadow-md transition-shadow"
+                  >
+                    <span className="font-medium text-gray-900 dark:text-gray-100">#{tag.name}</span>
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
+                      {tag.postCount}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        </>
+      ) : (
+        <div className="text-center py-16">
+          <h3 className="text-xl font-medium text-gray-900 dark:text-gray-100 mb-2">No tags yet</h3>
+          <p className="text-gray-500 dark:text-gray-400">Tags will appear here as content is added!</p>
+        </div>
+      )}
+    </div>
+  )
+}
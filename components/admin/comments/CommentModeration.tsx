@@ -0,0 +1,298 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { toast } from 'react-hot-toast'
+import {
+  CheckIcon,
+  XMarkIcon,
+  NoSymbolIcon,
+  TrashIcon,
+  ChatBubbleLeftRightIcon,
+  ArrowUturnLeftIcon
+} from '@heroicons/react/24/outline'
+import StatusBadge, { BadgeVariant } from '@/components/admin/common/StatusBadge'
+import { useAuth } from '@/hooks/useAuth'
+import { classNames, formatRelativeTime } from '@/lib/utils'
+import { CommentStatus } from '@/types/admin'
+
+interface ModerationComment {
+  id: string
+  postSlug: string
+  postTitle: string
+  parentId: string | null
+  authorName: string
+  authorEmail: string
+  content: string
+  status: CommentStatus
+  spamReasons: string[]
+  createdAt: string
+}
+
+interface CommentModerationProps {
+  initialStatus?: CommentStatus
+}
+
+const statusTabs: { status: CommentStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'spam', label: 'Spam' },
+  { status: 'rejected', label: 'Rejected' }
+]
+
+const statusBadges: Record<CommentStatus, BadgeVariant> = {
+  pending: 'warning',
+  approved: 'success',
+  spam: 'error',
+  rejected: 'neutral'
+}
+
+const spamReasonLabels: Record<string, string> = {
+  'honeypot': 'Hidden field filled',
+  'too-many-links': 'Too many links',
+  'link-in-name': 'Link in name'
+}
+
+export default function CommentModeration({ initialStatus = 'pending' }: CommentModerationProps) {
+  const { user, hasPermission } = useAuth()
+  const [status, setStatus] = useState<CommentStatus>(initialStatus)
+  const [comments, setComments] = useState<ModerationComment[]>([])
+  const [counts, setCounts] = useState<Partial<Record<CommentStatus, number>>>({})
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const canModerate = hasPermission('posts.moderate')
+
+  const fetchComments = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      const token = await user.getIdToken()
+      const response = await fetch(`/api/admin/comments?status=${status}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load comments')
+      }
+
+      setComments(result.data.comments)
+      setCounts(result.data.counts)
+    } catch (error) {
+      console.error('Error loading comments:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load comments')
+    } finally {
+      setLoading(false)
+    }
+  }, [user, status])
+
+  useEffect(() => {
+    if (canModerate) {
+      fetchComments()
+    }
+  }, [fetchComments, canModerate])
+
+  const updateStatus = async (comment: ModerationComment, nextStatus: CommentStatus) => {
+    if (!user) return
+
+    setBusyId(comment.id)
+    try {
+      const token = await user.getIdToken()
+      const response = await fetch(`/api/admin/comments/${comment.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ status: nextStatus })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update comment')
+      }
+
+      toast.success(result.message)
+      setComments((current) => current.filter((item) => item.id !== comment.id))
+      setCounts((current) => ({
+        ...current,
+        [comment.status]: Math.max((current[comment.status] || 1) - 1, 0),
+        [nextStatus]: (current[nextStatus] || 0) + 1
+      }))
+    } catch (error) {
+      console.error('Error updating comment:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update comment')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const deleteComment = async (comment: ModerationComment) => {
+    if (!user) return
+    if (!confirm('Delete this comment and all of its replies? This cannot be undone.')) return
+
+    setBusyId(comment.id)
+    try {
+      const token = await user.getIdToken()
+      const response = await fetch(`/api/admin/comments/${comment.id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` }
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete comment')
+      }
+
+      toast.success(result.message)
+      fetchComments()
+    } catch (error) {
+      console.error('Error deleting comment:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to delete comment')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (!canModerate) {
+    return (
+      <div className="bg-white shadow-sm rounded-lg p-6 text-sm text-gray-500">
+        You don't have permission to moderate comments.
+      </div>
+    )
+  }
+
+  const actionClasses = 'inline-flex items-center px-3 py-1.5 text-xs font-medium rounded-md border disabled:opacity-50 disabled:cursor-not-allowed'
+
+  return (
+    <div className="space-y-6">
+      {/* Status tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          {statusTabs.map((tab) => (
+            <button
+              key={tab.status}
+              type="button"
+              onClick={() => setStatus(tab.status)}
+              className={classNames(
+                status === tab.status
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700',
+                'whitespace-nowrap border-b-2 py-3 px-1 text-sm font-medium'
+              )}
+            >
+              {tab.label}
+              {counts[tab.status] !== undefined && (
+                <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
+                  {counts[tab.status]}
+                </span>
+              )}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : comments.length === 0 ? (
+        <div className="bg-white shadow-sm rounded-lg py-12 text-center">
+          <ChatBubbleLeftRightIcon className="mx-auto h-10 w-10 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500">No {status} comments</p>
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {comments.map((comment) => (
+            <li key={comment.id} className="bg-white shadow-sm rounded-lg p-5">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {comment.authorName}
+                    <span className="ml-2 font-normal text-gray-500">{comment.authorEmail}</span>
+                  </p>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {comment.parentId && (
+                      <span className="inline-flex items-center mr-1">
+                        <ArrowUturnLeftIcon className="h-3 w-3 mr-1" />
+                        Reply on
+                      </span>
+                    )}
+                    {!comment.parentId && 'On '}
+                    <Link href={`/blog/${comment.postSlug}`} target="_blank" className="text-blue-600 hover:text-blue-800">
+                      {comment.postTitle}
+                    </Link>
+                    {' · '}
+                    {formatRelativeTime(comment.createdAt)}
+                  </p>
+                </div>
+                <StatusBadge variant={statusBadges[comment.status]} size="sm" className="capitalize">
+                  {comment.status}
+                </StatusBadge>
+              </div>
+
+              <p className="mt-3 text-sm text-gray-700 whitespace-pre-line break-words">{comment.content}</p>
+
+              {comment.spamReasons?.length > 0 && (
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {comment.spamReasons.map((reason) => (
+                    <StatusBadge key={reason} variant="error" size="sm">
+                      {spamReasonLabels[reason] || reason}
+                    </StatusBadge>
+                  ))}
+                </div>
+              )}
+
+              <div className="mt-4 flex flex-wrap gap-2">
+                {comment.status !== 'approved' && (
+                  <button
+                    type="button"
+                    onClick={() => updateStatus(comment, 'approved')}
+                    disabled={busyId === comment.id}
+                    className={`${actionClasses} border-transparent text-white bg-green-600 hover:bg-green-700`}
+                  >
+                    <CheckIcon className="h-4 w-4 mr-1" />
+                    Approve
+                  </button>
+                )}
+                {comment.status !== 'rejected' && (
+                  <button
+                    type="button"
+                    onClick={() => updateStatus(comment, 'rejected')}
+                    disabled={busyId === comment.id}
+                    className={`${actionClasses} border-gray-300 text-gray-700 bg-white hover:bg-gray-50`}
+                  >
+                    <XMarkIcon className="h-4 w-4 mr-1" />
+                    Reject
+                  </button>
+                )}
+                {comment.status !== 'spam' && (
+                  <button
+                    type="button"
+                    onClick={() => updateStatus(comment, 'spam')}
+                    disabled={busyId === comment.id}
+                    className={`${actionClasses} border-gray-300 text-gray-700 bg-white hover:bg-gray-50`}
+                  >
+                    <NoSymbolIcon className="h-4 w-4 mr-1" />
+                    Spam
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => deleteComment(comment)}
+                  disabled={busyId === comment.id}
+                  className={`${actionClasses} border-transparent text-red-700 bg-red-50 hover:bg-red-100`}
+                >
+                  <TrashIcon className="h-4 w-4 mr-1" />
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,18 +1,22 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { useAuth } from '@/hooks/useAuth'
 import { formatRelativeTime } from '@/lib/utils'
+import { ActivityRow, ActivityType } from '@/types/admin'
 import {
   DocumentTextIcon,
   PencilIcon,
   TrashIcon,
   EyeIcon,
-  UserIcon
+  UserIcon,
+  ClockIcon,
+  ExclamationTriangleIcon
 } from '@heroicons/react/24/outline'
 
 interface ActivityItem {
   id: string
-  type: 'post_created' | 'post_updated' | 'post_published' | 'post_deleted' | 'user_login'
+  type: ActivityType
   title: string
   description: string
   user: string
@@ -21,68 +25,36 @@ interface ActivityItem {
 }
 
 export default function RecentActivity() {
+  const { user } = useAuth()
   const [activities, setActivities] = useState<ActivityItem[]>([])
   const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
+    if (!user) return
     fetchRecentActivity()
-  }, [])
+  }, [user])
 
   const fetchRecentActivity = async () => {
     try {
-      // TODO: Replace with actual API call
-      const response = await fetch('/api/admin/dashboard/activity')
-      if (response.ok) {
-        const data = await response.json()
-        setActivities(data)
-      } else {
-        // Mock data for now
-        setActivities([
-          {
-            id: '1',
-            type: 'post_published',
-            title: 'New post published',
-            description: '"10 Tips for Better Web Performance" was published',
-            user: 'John Doe',
-            timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000)
-          },
-          {
-            id: '2',
-            type: 'post_created',
-            title: 'Draft created',
-            description: '"Understanding React Hooks" was saved as draft',
-            user: 'Jane Smith',
-            timestamp: new Date(Date.now() - 4 * 60 * 60 * 1000)
-          },
-          {
-            id: '3',
-            type: 'user_login',
-            title: 'User logged in',
-            description: 'Admin user accessed the dashboard',
-            user: 'Admin',
-            timestamp: new Date(Date.now() - 6 * 60 * 60 * 1000)
-          },
-          {
-            id: '4',
-            type: 'post_updated',
-            title: 'Post updated',
-            description: '"Getting Started with TypeScript" was modified',
-            user: 'John Doe',
-            timestamp: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
-          },
-          {
-            id: '5',
-            type: 'post_deleted',
-            title: 'Post deleted',
-            description: '"Old Tutorial Post" was moved to trash',
-            user: 'Jane Smith',
-            timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000)
-          }
-        ])
+      const token = await user!.getIdToken()
+      const response = await fetch('/api/admin/dashboard/activity', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load recent activity')
       }
+
+      setActivities(result.data.map((activity: ActivityRow) => ({
+        ...activity,
+        timestamp: new Date(activity.timestamp)
+      })))
+      setError(null)
     } catch (error) {
       console.error('Error fetching recent activity:', error)
       setActivities([])
+      setError(error instanceof Error ? error.message : 'Failed to load recent activity')
     } finally {
       setLoading(false)
     }
@@ -98,6 +70,8 @@ export default function RecentActivity() {
         return EyeIcon
       case 'post_deleted':
         return TrashIcon
+      case 'post_expired':
+        return ClockIcon
       case 'user_login':
         return UserIcon
       default:
@@ -115,6 +89,8 @@ export default function RecentActivity() {
         return 'bg-green-100 text-green-600'
       case 'post_deleted':
         return 'bg-red-100 text-red-600'
+      case 'post_expired':
+        return 'bg-amber-100 text-amber-600'
       case 'user_login':
         return 'bg-gray-100 text-gray-600'
       default:
@@ -151,7 +127,13 @@ export default function RecentActivity() {
       </div>
       
       <div className="px-6 py-4">
-        {activities.length === 0 ? (
+        {error ? (
+          <div className="text-center py-8">
+            <ExclamationTriangleIcon className="mx-auto h-12 w-12 text-red-400" aria-hidden="true" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">Couldn&apos;t load recent activity</h3>
+            <p className="mt-1 text-sm text-gray-500">{error}</p>
+          </div>
+        ) : activities.length === 0 ? (
           <div className="text-center py-8">
             <DocumentTextIcon className="mx-auto h-12 w-12 text-gray-400" />
             <h3 className="mt-2 text-sm font-medium text-gray-900">No recent activity</h3>
@@ -0,0 +1,304 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { toast } from 'react-hot-toast'
+import { PaperAirplaneIcon, ArrowPathIcon, NewspaperIcon } from '@heroicons/react/24/outline'
+import DataTable, { Column } from '@/components/admin/common/DataTable'
+import StatusBadge, { BadgeVariant } from '@/components/admin/common/StatusBadge'
+import { useAuth } from '@/hooks/useAuth'
+import { classNames, formatDate } from '@/lib/utils'
+import { DigestSendRow, DigestSendStatus } from '@/types/admin'
+
+interface DigestPreview {
+  subject: string
+  html: string
+  text: string
+  postCount: number
+  recipientCount: number
+  window: { start: string; end: string }
+}
+
+const statusBadges: Record<DigestSendStatus, BadgeVariant> = {
+  sending: 'info',
+  sent: 'success',
+  partial: 'warning',
+  failed: 'error'
+}
+
+export default function DigestManager() {
+  const { user, hasRole } = useAuth()
+  const [days, setDays] = useState(7)
+  const [category, setCategory] = useState('')
+  const [categories, setCategories] = useState<{ slug: string; name: string }[]>([])
+  const [preview, setPreview] = useState<DigestPreview | null>(null)
+  const [previewMode, setPreviewMode] = useState<'html' | 'text'>('html')
+  const [history, setHistory] = useState<DigestSendRow[]>([])
+  const [loadingPreview, setLoadingPreview] = useState(true)
+  const [loadingHistory, setLoadingHistory] = useState(true)
+  const [sending, setSending] = useState(false)
+
+  const canSend = hasRole(['admin'])
+
+  const authorizedFetch = useCallback(async (url: string, init: RequestInit = {}) => {
+    if (!user) throw new Error('Not signed in')
+    const token = await user.getIdToken()
+    return fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        'Authorization': `Bearer ${token}`
+      }
+    })
+  }, [user])
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await authorizedFetch('/api/admin/digest/history')
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load send history')
+      }
+      setHistory(result.data)
+    } catch (error) {
+      console.error('Error loading digest history:', error)
+    } finally {
+      setLoadingHistory(false)
+    }
+  }, [authorizedFetch])
+
+  useEffect(() => {
+    if (!user) return
+
+    const fetchCategories = async () => {
+      try {
+        const response = await authorizedFetch('/api/admin/categories?limit=50&sort=name')
+        if (response.ok) {
+          const result = await response.json()
+          setCategories(result.categories || [])
+        }
+      } catch (error) {
+        console.error('Error loading categories:', error)
+      }
+    }
+
+    fetchCategories()
+    fetchHistory()
+  }, [user, authorizedFetch, fetchHistory])
+
+  useEffect(() => {
+    if (!user) return
+
+    const fetchPreview = async () => {
+      setLoadingPreview(true)
+      try {
+        const params = new URLSearchParams({ days: String(days) })
+        if (category) params.append('categories', category)
+
+        const response = await authorizedFetch(`/api/admin/digest?${params.toString()}`)
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to build preview')
+        }
+        setPreview(result.data)
+      } catch (error) {
+        console.error('Error loading digest preview:', error)
+        toast.error(error instanceof Error ? error.message : 'Failed to build preview')
+      } finally {
+        setLoadingPreview(false)
+      }
+    }
+
+    fetchPreview()
+  }, [user, days, category, authorizedFetch])
+
+  const handleSend = async (force = false) => {
+    if (!preview) return
+    if (!confirm(`Send this digest to ${preview.recipientCount} confirmed subscribers?`)) return
+
+    setSending(true)
+    try {
+      const response = await authorizedFetch('/api/admin/digest', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ days, force })
+      })
+      const result = await response.json()
+
+      if (response.status === 409 && !force) {
+        setSending(false)
+        if (confirm(`${result.error}. Send it again anyway?`)) {
+          return handleSend(true)
+        }
+        return
+      }
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to send digest')
+      }
+
+      toast.success(result.message)
+      fetchHistory()
+    } catch (error) {
+      console.error('Error sending digest:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to send digest')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const historyColumns: Column<DigestSendRow>[] = [
+    {
+      key: 'startedAt',
+      title: 'Sent',
+      render: (startedAt) => <span className="text-sm text-gray-900">{formatDate(startedAt)}</span>
+    },
+    {
+      key: 'periodStart',
+      title: 'Period',
+      render: (_, send) => (
+        <span className="text-sm text-gray-500">
+          {formatDate(send.periodStart)} – {formatDate(send.periodEnd)}
+        </span>
+      )
+    },
+    {
+      key: 'status',
+      title: 'Status',
+      render: (status: DigestSendStatus) => (
+        <StatusBadge variant={statusBadges[status]} size="sm" className="capitalize">
+          {status}
+        </StatusBadge>
+      )
+    },
+    {
+      key: 'postSlugs',
+      title: 'Posts',
+      render: (postSlugs: string[]) => <span className="text-sm text-gray-500">{postSlugs.length}</span>
+    },
+    {
+      key: 'delivered',
+      title: 'Delivered',
+      render: (_, send) => (
+        <span className="text-sm text-gray-500">
+          {send.delivered} / {send.recipients}
+          {send.skipped > 0 && ` · ${send.skipped} skipped`}
+          {send.failed > 0 && <span className="text-red-600"> · {send.failed} failed</span>}
+        </span>
+      )
+    },
+    {
+      key: 'triggeredBy',
+      title: 'Trigger',
+      render: (triggeredBy) => (
+        <span className="text-sm text-gray-500">{triggeredBy === 'cron' ? 'Scheduled' : 'Manual'}</span>
+      )
+    }
+  ]
+
+  return (
+    <div className="space-y-6">
+      {/* Preview controls */}
+      <div className="bg-white shadow-sm rounded-lg p-4 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="rounded-md border-gray-300 text-sm"
+          >
+            <option value={7}>Last 7 days</option>
+            <option value={14}>Last 14 days</option>
+            <option value={30}>Last 30 days</option>
+          </select>
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className="rounded-md border-gray-300 text-sm"
+          >
+            <option value="">Preview as: all topics</option>
+            {categories.map((item) => (
+              <option key={item.slug} value={item.slug}>Preview as: {item.name} only</option>
+            ))}
+          </select>
+        </div>
+        {canSend && (
+          <button
+            type="button"
+            onClick={() => handleSend()}
+            disabled={sending || loadingPreview || !preview}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {sending ? (
+              <ArrowPathIcon className="-ml-1 mr-2 h-5 w-5 animate-spin" aria-hidden="true" />
+            ) : (
+              <PaperAirplaneIcon className="-ml-1 mr-2 h-5 w-5" aria-hidden="true" />
+            )}
+            {sending ? 'Sending...' : 'Send digest'}
+          </button>
+        )}
+      </div>
+
+      {/* Preview */}
+      <div className="bg-white shadow-sm rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Preview</h3>
+            {preview && (
+              <p className="mt-1 text-sm text-gray-500">
+                <span className="font-medium text-gray-700">{preview.subject}</span>
+                {' · '}{preview.postCount} {preview.postCount === 1 ? 'post' : 'posts'}
+                {' · '}{preview.recipientCount} confirmed {preview.recipientCount === 1 ? 'subscriber' : 'subscribers'}
+              </p>
+            )}
+          </div>
+          <div className="inline-flex rounded-md shadow-sm">
+            {(['html', 'text'] as const).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setPreviewMode(mode)}
+                className={classNames(
+                  previewMode === mode ? 'bg-gray-100 text-gray-900' : 'bg-white text-gray-500 hover:bg-gray-50',
+                  mode === 'html' ? 'rounded-l-md' : '-ml-px rounded-r-md',
+                  'px-3 py-1.5 text-sm font-medium border border-gray-300'
+                )}
+              >
+                {mode === 'html' ? 'HTML' : 'Plain text'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {loadingPreview ? (
+          <div className="p-6 flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : !preview ? (
+          <div className="py-12 text-center">
+            <NewspaperIcon className="mx-auto h-10 w-10 text-gray-400" />
+            <p className="mt-2 text-sm text-gray-500">No posts were published in this period.</p>
+          </div>
+        ) : previewMode === 'html' ? (
+          <iframe
+            title="Digest preview"
+            srcDoc={preview.html}
+            sandbox=""
+            className="w-full h-[640px] rounded-b-lg"
+          />
+        ) : (
+          <pre className="p-6 text-sm text-gray-700 whitespace-pre-wrap font-mono">{preview.text}</pre>
+        )}
+      </div>
+
+      {/* Send history */}
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Send history</h3>
+        <DataTable
+          data={history}
+          columns={historyColumns}
+          loading={loadingHistory}
+          emptyMessage="No digests sent yet"
+          emptyIcon={PaperAirplaneIcon}
+        />
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
-import { Fragment } from 'react'
+import { Fragment, useState, useEffect } from 'react'
+import Link from 'next/link'
 import { Menu, Transition } from '@headlessui/react'
 import {
   Bars3Icon,
@@ -11,7 +12,19 @@ import {
   Cog6ToothIcon
 } from '@heroicons/react/24/outline'
 import { useAuth } from '@/hooks/useAuth'
-import { classNames } from '@/lib/utils'
+import { classNames, formatRelativeTime } from '@/lib/utils'
+
+interface AdminNotification {
+  id: string
+  title: string
+  message: string
+  link: string
+  read: boolean
+  createdAt: string
+}
+
+// How often the bell checks for new notifications
+const NOTIFICATION_POLL_INTERVAL = 60 * 1000
 
 interface AdminHeaderProps {
   setSidebarOpen: (open: boolean) => void
@@ -21,6 +34,54 @@ interface AdminHeaderProps {
 
 export default function AdminHeader({ setSidebarOpen, title, actions }: AdminHeaderProps) {
   const { user, signOut } = useAuth()
+  const [notifications, setNotifications] = useState<AdminNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+
+  useEffect(() => {
+    if (!user) return
+
+    const fetchNotifications = async () => {
+      try {
+        const token = await user.getIdToken()
+        const response = await fetch('/api/admin/notifications', {
+          headers: { 'Authorization': `Bearer ${token}` }
+        })
+        if (response.ok) {
+          const result = await response.json()
+          setNotifications(result.data.notifications)
+          setUnreadCount(result.data.unreadCount)
+        }
+      } catch (error) {
+        console.error('Error fetching notifications:', error)
+      }
+    }
+
+    fetchNotifications()
+    const interval = setInterval(fetchNotifications, NOTIFICATION_POLL_INTERVAL)
+    return () => clearInterval(interval)
+  }, [user])
+
+  const markAllRead = async () => {
+    if (!user || unreadCount === 0) return
+
+    try {
+      const token = await user.getIdToken()
+      const response = await fetch('/api/admin/notifications', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({})
+      })
+      if (response.ok) {
+        setNotifications((current) => current.map((notification) => ({ ...notification, read: true })))
+        setUnreadCount(0)
+      }
+    } catch (error) {
+      console.error('Error updating notifications:', error)
+    }
+  }
 
   const userNavigation = [
     { name: 'Your Profile', href: '#', icon: UserCircleIcon },
@@ -72,15 +133,65 @@ export default function AdminHeader({ setSidebarOpen, title, actions }: AdminHea
           {actions}
 
           {/* Notifications */}
-          <button
-            type="button"
-            className="-m-2.5 p-2.5 text-gray-400 hover:text-gray-500 relative"
-          >
-            <span className="sr-only">View notifications</span>
-            <BellIcon className="h-6 w-6" aria-hidden="true" />
-            {/* Notification badge - show when there are notifications */}
-            <span className="absolute -top-1 -right-1 h-2 w-2 bg-red-500 rounded-full"></span>
-          </button>
+          <Menu as="div" className="relative">
+            <Menu.Button className="-m-2.5 p-2.5 text-gray-400 hover:text-gray-500 relative">
+              <span className="sr-only">View notifications</span>
+              <BellIcon className="h-6 w-6" aria-hidden="true" />
+              {unreadCount > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 bg-red-500 rounded-full text-[10px] leading-4 font-medium text-white">
+                  {unreadCount > 9 ? '9+' : unreadCount}
+                </span>
+              )}
+            </Menu.Button>
+            <Transition
+              as={Fragment}
+              enter="transition ease-out duration-100"
+              enterFrom="transform opacity-0 scale-95"
+              enterTo="transform opacity-100 scale-100"
+              leave="transition ease-in duration-75"
+              leaveFrom="transform opacity-100 scale-100"
+              leaveTo="transform opacity-0 scale-95"
+            >
+              <Menu.Items className="absolute right-0 z-10 mt-2.5 w-80 origin-top-right rounded-md bg-white shadow-lg ring-1 ring-gray-900/5 focus:outline-none">
+                <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+                  <p className="text-sm font-medium text-gray-900">Notifications</p>
+                  {unreadCount > 0 && (
+                    <button
+                      type="button"
+                      onClick={markAllRead}
+                      className="text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      Mark all as read
+                    </button>
+                  )}
+                </div>
+                {notifications.length === 0 ? (
+                  <p className="px-4 py-6 text-center text-sm text-gray-500">You're all caught up</p>
+                ) : (
+                  <div className="max-h-96 overflow-y-auto">
+                    {notifications.map((notification) => (
+                      <Menu.Item key={notification.id}>
+                        {({ active }) => (
+                          <Link
+                            href={notification.link}
+                            className={classNames(
+                              active ? 'bg-gray-50' : '',
+                              notification.read ? '' : 'bg-blue-50/50',
+                              'block px-4 py-3 border-b border-gray-100 last:border-b-0'
+                            )}
+                          >
+                            <p className="text-sm font-medium text-gray-900 line-clamp-1">{notification.title}</p>
+                            <p className="text-sm text-gray-500 line-clamp-2">{notification.message}</p>
+                            <p className="mt-1 text-xs text-gray-400">{formatRelativeTime(notification.createdAt)}</p>
+                          </Link>
+                        )}
+                      </Menu.Item>
+                    ))}
+                  </div>
+                )}
+              </Menu.Items>
+            </Transition>
+          </Menu>
 
           {/* Separator */}
           <div className="hidden lg:block lg:h-6 lg:w-px lg:bg-gray-200" aria-hidden="true" />
@@ -14,7 +14,10 @@ import {
   ChartBarIcon,
   XMarkIcon,
   Bars3Icon,
-  WrenchScrewdriverIcon
+  WrenchScrewdriverIcon,
+  ChatBubbleLeftRightIcon,
+  EnvelopeIcon,
+  NewspaperIcon
 } from '@heroicons/react/24/outline'
 import { useAuth } from '@/hooks/useAuth'
 import { classNames } from '@/lib/utils'
@@ -51,6 +54,13 @@ export default function AdminSidebar({ sidebarOpen, setSidebarOpen }: AdminSideb
       current: pathname.startsWith('/admin/posts'),
       permission: 'posts.view'
     },
+    {
+      name: 'Comments',
+      href: '/admin/comments',
+      icon: ChatBubbleLeftRightIcon,
+      current: pathname.startsWith('/admin/comments'),
+      permission: 'posts.moderate'
+    },
     {
       name: 'Categories',
       href: '/admin/categories',
@@ -72,6 +82,20 @@ export default function AdminSidebar({ sidebarOpen, setSidebarOpen }: AdminSideb
       current: pathname.startsWith('/admin/users'),
       permission: 'users.view'
     },
+    {
+      name: 'Subscribers',
+      href: '/admin/subscribers',
+      icon: EnvelopeIcon,
+      current: pathname.startsWith('/admin/subscribers'),
+      permission: 'users.view'
+    },
+    {
+      name: 'Weekly Digest',
+      href: '/admin/digest',
+      icon: NewspaperIcon,
+      current: pathname.startsWith('/admin/digest'),
+      permission: 'users.view'
+    },
     {
       name: 'Analytics',
       href: '/admin/analytics',
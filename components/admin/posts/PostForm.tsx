@@ -8,6 +8,8 @@ import { z } from 'zod'
 import { CalendarIcon } from '@heroicons/react/24/outline'
 import { toast } from 'react-hot-toast'
 import { useAuth } from '@/hooks/useAuth'
+import { usePostAutosave, AutosaveStatus } from '@/hooks/usePostAutosave'
+import { normalizeTags, toDateTimeLocalValue } from '@/lib/utils'
 
 // Form validation schema
 const postSchema = z.object({
@@ -18,17 +20,26 @@ const postSchema = z.object({
   categoryId: z.string().min(1, 'Category is required'),
   tags: z.array(z.string()).optional(),
   featured: z.boolean().optional(),
+  hideTableOfContents: z.boolean().optional(),
   featuredImage: z.object({
-    url: z.string().optional(),
-    alt: z.string().optional()
+    url: z.string().url('Enter a full image URL').optional().or(z.literal('')),
+    alt: z.string().optional(),
+    width: z.number().optional(),
+    height: z.number().optional()
   }).optional(),
   seo: z.object({
     metaTitle: z.string().optional(),
     metaDescription: z.string().optional(),
-    keywords: z.array(z.string()).optional()
+    keywords: z.array(z.string()).optional(),
+    ogImage: z.string().url('Enter a full image URL').optional().or(z.literal('')),
+    canonicalUrl: z.string().url('Enter a full URL').optional().or(z.literal('')),
+    noindex: z.boolean().optional()
   }).optional(),
-  status: z.enum(['draft', 'published', 'scheduled']),
-  scheduledFor: z.string().optional()
+  status: z.enum(['draft', 'published', 'scheduled', 'archived']),
+  scheduledFor: z.string().optional(),
+  expiresAt: z.string().optional(),
+  expiryAction: z.enum(['archive', 'banner']).optional(),
+  markUpToDate: z.boolean().optional()
 })
 
 type PostFormData = z.infer<typeof postSchema>
@@ -36,11 +47,24 @@ type PostFormData = z.infer<typeof postSchema>
 interface PostFormProps {
   mode: 'create' | 'edit'
   initialData?: Partial<PostFormData>
+  // When the post expired, for posts the scheduler has already processed
+  expiredAt?: string | null
+  // When the post was last saved, to tell whether autosaved drafts are older
+  updatedAt?: string | null
   postId?: string
   onSuccess?: (post: any) => void
   onCancel?: () => void
 }
 
+const autosaveLabels: Record<AutosaveStatus, string> = {
+  idle: '',
+  pending: 'Unsaved changes',
+  saving: 'Saving draft...',
+  saved: 'Draft saved',
+  offline: 'Saved on this device, will sync when back online',
+  error: 'Autosave failed'
+}
+
 interface Category {
   id: string
   name: string
@@ -50,6 +74,8 @@ interface Category {
 export default function PostForm({ 
   mode, 
   initialData, 
+  expiredAt,
+  updatedAt,
   postId, 
   onSuccess, 
   onCancel 
@@ -62,6 +88,31 @@ export default function PostForm({
   const router = useRouter()
   const { user: currentUser } = useAuth()
 
+  const defaultValues: PostFormData = {
+    title: initialData?.title || '',
+    description: initialData?.description || '',
+    content: initialData?.content || '',
+    excerpt: initialData?.excerpt || '',
+    categoryId: initialData?.categoryId || '',
+    tags: initialData?.tags || [],
+    featured: initialData?.featured || false,
+    hideTableOfContents: initialData?.hideTableOfContents || false,
+    featuredImage: initialData?.featuredImage || { url: '', alt: '' },
+    seo: initialData?.seo || {
+      metaTitle: '',
+      metaDescription: '',
+      keywords: [],
+      ogImage: '',
+      canonicalUrl: '',
+      noindex: false
+    },
+    status: initialData?.status || 'draft',
+    scheduledFor: initialData?.scheduledFor || '',
+    expiresAt: initialData?.expiresAt || '',
+    expiryAction: initialData?.expiryAction || 'archive',
+    markUpToDate: false
+  }
+
   const {
     register,
     handleSubmit,
@@ -71,30 +122,41 @@ export default function PostForm({
     reset
   } = useForm<PostFormData>({
     resolver: zodResolver(postSchema),
-    defaultValues: {
-      title: initialData?.title || '',
-      description: initialData?.description || '',
-      content: initialData?.content || '',
-      excerpt: initialData?.excerpt || '',
-      categoryId: initialData?.categoryId || '',
-      tags: initialData?.tags || [],
-      featured: initialData?.featured || false,
-      featuredImage: initialData?.featuredImage || { url: '', alt: '' },
-      seo: initialData?.seo || {
-        metaTitle: '',
-        metaDescription: '',
-        keywords: []
-      },
-      status: initialData?.status || 'draft',
-      scheduledFor: initialData?.scheduledFor || ''
-    }
+    defaultValues
   })
 
+  const autosave = usePostAutosave(postId || null, defaultValues, updatedAt || null)
+  const { schedule: scheduleAutosave } = autosave
+
+  // Autosave edits, but not values the form fills in itself (SEO defaults,
+  // image dimensions); tags and keywords are only ever set programmatically
+  useEffect(() => {
+    const subscription = watch((values, { name, type }) => {
+      if (type === 'change' || name === 'tags' || name === 'seo.keywords') {
+        scheduleAutosave(values)
+      }
+    })
+    return () => subscription.unsubscribe()
+  }, [watch, scheduleAutosave])
+
+  const handleRestoreDraft = () => {
+    const values = autosave.restoreDraft()
+    if (values) {
+      reset({ ...defaultValues, ...values })
+    }
+  }
+
   const watchedTags = watch('tags') || []
   const watchedKeywords = watch('seo.keywords') || []
   const watchedStatus = watch('status')
+  const watchedExpiresAt = watch('expiresAt')
   const watchedTitle = watch('title')
   const watchedDescription = watch('description')
+  const watchedImageUrl = watch('featuredImage.url') || ''
+  const watchedImageWidth = watch('featuredImage.width')
+  const watchedImageHeight = watch('featuredImage.height')
+  const watchedMetaTitle = watch('seo.metaTitle') || ''
+  const watchedMetaDescription = watch('seo.metaDescription') || ''
 
   // Auto-populate SEO fields when title/description change
   useEffect(() => {
@@ -106,6 +168,22 @@ export default function PostForm({
     }
   }, [watchedTitle, watchedDescription, setValue, watch])
 
+  // Read the featured image's dimensions so pages can reserve its space
+  useEffect(() => {
+    if (!/^https?:\/\//.test(watchedImageUrl)) return
+
+    const image = new window.Image()
+    image.onload = () => {
+      setValue('featuredImage.width', image.naturalWidth)
+      setValue('featuredImage.height', image.naturalHeight)
+    }
+    image.src = watchedImageUrl
+
+    return () => {
+      image.onload = null
+    }
+  }, [watchedImageUrl, setValue])
+
   // Load categories
   useEffect(() => {
     const loadCategories = async () => {
@@ -132,8 +210,8 @@ export default function PostForm({
   }, [currentUser])
 
   const addTag = () => {
-    if (tagInput.trim() && !watchedTags.includes(tagInput.trim())) {
-      const newTags = [...watchedTags, tagInput.trim()]
+    const newTags = normalizeTags([...watchedTags, tagInput])
+    if (newTags.length > watchedTags.length) {
       setValue('tags', newTags)
       setTagInput('')
     }
@@ -164,6 +242,8 @@ export default function PostForm({
     }
 
     setIsLoading(true)
+    // A pending autosave must not recreate the draft this save clears
+    await autosave.pause()
     
     try {
       const token = await currentUser.getIdToken()
@@ -176,17 +256,27 @@ export default function PostForm({
         categoryId: data.categoryId,
         tags: data.tags || [],
         featured: data.featured || false,
+        hideTableOfContents: data.hideTableOfContents || false,
         featuredImage: data.featuredImage?.url ? {
           url: data.featuredImage.url,
-          alt: data.featuredImage.alt || data.title
+          alt: data.featuredImage.alt || data.title,
+          width: data.featuredImage.width || null,
+          height: data.featuredImage.height || null
         } : null,
         seo: {
           metaTitle: data.seo?.metaTitle || data.title,
           metaDescription: data.seo?.metaDescription || data.description,
-          keywords: data.seo?.keywords || []
+          keywords: data.seo?.keywords || [],
+          ogImage: data.seo?.ogImage || '',
+          canonicalUrl: data.seo?.canonicalUrl || '',
+          noindex: data.seo?.noindex || false
         },
         status: data.status,
-        scheduledFor: data.status === 'scheduled' && data.scheduledFor ? data.scheduledFor : null
+        // datetime-local values are in the author's time zone
+        scheduledFor: data.status === 'scheduled' && data.scheduledFor ? new Date(data.scheduledFor).toISOString() : null,
+        expiresAt: data.expiresAt ? new Date(data.expiresAt).toISOString() : null,
+        expiryAction: data.expiryAction || 'archive',
+        markUpToDate: data.markUpToDate || false
       }
 
       const url = mode === 'create' 
@@ -210,6 +300,7 @@ export default function PostForm({
         throw new Error(result.error || `Failed to ${mode} post`)
       }
 
+      await autosave.clearDrafts()
       toast.success(`Post ${mode === 'create' ? 'created' : 'updated'} successfully!`)
       
       if (onSuccess) {
@@ -221,6 +312,7 @@ export default function PostForm({
     } catch (error) {
       console.error(`Error ${mode}ing post:`, error)
       toast.error(error instanceof Error ? error.message : `Failed to ${mode} post`)
+      autosave.resume()
     } finally {
       setIsLoading(false)
     }
@@ -237,6 +329,36 @@ export default function PostForm({
   return (
     <div className="max-w-4xl mx-auto">
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-8">
+        {/* Unsaved changes from an earlier session */}
+        {autosave.recoveredDraft && (
+          <div className="rounded-xl bg-blue-50 ring-1 ring-blue-200 p-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-sm text-blue-900">
+              You have unsaved changes from {new Date(autosave.recoveredDraft.savedAt).toLocaleString()}. Restore them?
+              {autosave.recoveredDraftOutdated && (
+                <span className="block mt-1 text-amber-700">
+                  The post has been saved since then, so restoring will replace those newer changes.
+                </span>
+              )}
+            </p>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={() => autosave.discardDraft()}
+                className="px-3 py-1.5 text-sm font-medium text-blue-700 hover:text-blue-900"
+              >
+                Discard
+              </button>
+              <button
+                type="button"
+                onClick={handleRestoreDraft}
+                className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+              >
+                Restore
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Basic Information */}
         <div className="bg-white shadow-sm ring-1 ring-gray-900/5 rounded-xl p-6 space-y-6">
           <div className="border-b border-gray-200 pb-4">
@@ -415,6 +537,18 @@ export default function PostForm({
                     <div className="text-xs text-gray-500">Show prominently on homepage</div>
                   </div>
                 </label>
+                <label className="inline-flex items-center p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors duration-200 cursor-pointer">
+                  <input
+                    {...register('hideTableOfContents')}
+                    type="checkbox"
+                    className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50 h-4 w-4"
+                    disabled={isLoading}
+                  />
+                  <div className="ml-3">
+                    <div className="text-sm font-medium text-gray-900">Hide Table of Contents</div>
+                    <div className="text-xs text-gray-500">Don't generate a TOC from this post's headings</div>
+                  </div>
+                </label>
               </div>
             </div>
           </div>
@@ -485,6 +619,208 @@ export default function PostForm({
             </div>
             <p className="mt-2 text-sm text-gray-500">Tags help readers find your content and improve SEO. Use 3-5 relevant keywords.</p>
           </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-900 mb-2">
+              Featured Image
+            </label>
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div>
+                <input
+                  {...register('featuredImage.url')}
+                  type="url"
+                  className={`block w-full rounded-lg border-0 py-2.5 px-3 text-gray-900 ring-1 ring-inset transition-colors duration-200 placeholder:text-gray-400 focus:ring-2 focus:ring-inset disabled:bg-gray-50 disabled:text-gray-500 disabled:ring-gray-200 sm:text-sm sm:leading-6 ${
+                    errors.featuredImage?.url
+                      ? 'ring-red-300 focus:ring-red-500'
+                      : 'ring-gray-300 focus:ring-blue-500 hover:ring-gray-400'
+                  }`}
+                  placeholder="https://... (image URL from the media library)"
+                  disabled={isLoading}
+                />
+                {errors.featuredImage?.url && (
+                  <p className="mt-2 text-sm text-red-600">{errors.featuredImage.url.message}</p>
+                )}
+              </div>
+              <input
+                {...register('featuredImage.alt')}
+                type="text"
+                className="block w-full rounded-lg border-0 py-2.5 px-3 text-gray-900 ring-1 ring-inset ring-gray-300 transition-colors duration-200 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-500 hover:ring-gray-400 disabled:bg-gray-50 disabled:text-gray-500 disabled:ring-gray-200 sm:text-sm sm:leading-6"
+                placeholder="Alt text describing the image"
+                disabled={isLoading}
+              />
+            </div>
+            <p className="mt-2 text-sm text-gray-500">
+              {watchedImageUrl && watchedImageWidth && watchedImageHeight
+                ? `${watchedImageWidth}×${watchedImageHeight}px. Alt text defaults to the post title.`
+                : 'Posts without an image show a placeholder in their category color'}
+            </p>
+          </div>
+        </div>
+
+        {/* SEO & Social */}
+        <div className="bg-white shadow-sm ring-1 ring-gray-900/5 rounded-xl p-6 space-y-6">
+          <div className="border-b border-gray-200 pb-4">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <div className="w-8 h-8 bg-yellow-100 rounded-lg flex items-center justify-center mr-3">
+                <span className="text-yellow-600 font-semibold text-sm">3</span>
+              </div>
+              SEO & Social
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">How this post appears in search results and when shared</p>
+          </div>
+
+          <div>
+            <label htmlFor="seo.metaTitle" className="block text-sm font-semibold text-gray-900 mb-2">
+              Meta Title
+            </label>
+            <div className="relative">
+              <input
+                {...register('seo.metaTitle')}
+                id="seo.metaTitle"
+                type="text"
+                className="block w-full rounded-lg border-0 py-2.5 px-3 text-gray-900 ring-1 ring-inset ring-gray-300 transition-colors duration-200 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-500 hover:ring-gray-400 disabled:bg-gray-50 disabled:text-gray-500 disabled:ring-gray-200 sm:text-sm sm:leading-6"
+                placeholder="Defaults to the post title"
+                disabled={isLoading}
+              />
+              <div className="absolute inset-y-0 right-0 flex items-center pr-3">
+                <span className={`text-xs ${watchedMetaTitle.length > 60 ? 'text-yellow-600' : 'text-gray-400'}`}>{watchedMetaTitle.length}/60</span>
+              </div>
+            </div>
+            <p className="mt-2 text-sm text-gray-500">Shown as the search result headline. The site name is appended automatically.</p>
+          </div>
+
+          <div>
+            <label htmlFor="seo.metaDescription" className="block text-sm font-semibold text-gray-900 mb-2">
+              Meta Description
+            </label>
+            <div className="relative">
+              <textarea
+                {...register('seo.metaDescription')}
+                id="seo.metaDescription"
+                rows={2}
+                className="block w-full rounded-lg border-0 py-2.5 px-3 text-gray-900 ring-1 ring-inset ring-gray-300 transition-colors duration-200 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-500 hover:ring-gray-400 disabled:bg-gray-50 disabled:text-gray-500 disabled:ring-gray-200 sm:text-sm sm:leading-6 resize-none"
+                placeholder="Defaults to the post description"
+                disabled={isLoading}
+              />
+              <div className="absolute bottom-2 right-2">
+                <span className={`text-xs bg-white px-1 rounded ${watchedMetaDescription.length > 160 ? 'text-yellow-600' : 'text-gray-400'}`}>{watchedMetaDescription.length}/160</span>
+              </div>
+            </div>
+            <p className="mt-2 text-sm text-gray-500">Search engines usually cut descriptions off after 160 characters</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-900 mb-2">
+              Keywords
+            </label>
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                {watchedKeywords.map((keyword, index) => (
+                  <span
+                    key={index}
+                    className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 hover:bg-yellow-200 transition-colors duration-200"
+                  >
+                    {keyword}
+                    <button
+                      type="button"
+                      onClick={() => removeKeyword(index)}
+                      className="ml-2 h-4 w-4 rounded-full inline-flex items-center justify-center text-yellow-600 hover:bg-yellow-300 hover:text-yellow-800 transition-colors duration-200"
+                      disabled={isLoading}
+                      title={`Remove ${keyword} keyword`}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+                {watchedKeywords.length === 0 && (
+                  <p className="text-sm text-gray-400 italic">No keywords added, the post's tags are used instead</p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={keywordInput}
+                  onChange={(e) => setKeywordInput(e.target.value)}
+                  onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addKeyword())}
+                  className="flex-1 rounded-lg border-0 py-2 px-3 text-gray-900 ring-1 ring-inset ring-gray-300 transition-colors duration-200 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-500 hover:ring-gray-400 sm:text-sm sm:leading-6"
+                  placeholder="Add a search keyword..."
+                  disabled={isLoading}
+                />
+                <button
+                  type="button"
+                  onClick={addKeyword}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-yellow-700 bg-yellow-100 rounded-lg hover:bg-yellow-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-500 transition-colors duration-200 disabled:opacity-50"
+                  disabled={isLoading || !keywordInput.trim()}
+                >
+                  <svg className="w-4 h-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                  </svg>
+                  Add Keyword
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+            <div>
+              <label htmlFor="seo.ogImage" className="block text-sm font-semibold text-gray-900 mb-2">
+                Social Image URL
+              </label>
+              <input
+                {...register('seo.ogImage')}
+                id="seo.ogImage"
+                type="url"
+                className={`block w-full rounded-lg border-0 py-2.5 px-3 text-gray-900 ring-1 ring-inset transition-colors duration-200 placeholder:text-gray-400 focus:ring-2 focus:ring-inset disabled:bg-gray-50 disabled:text-gray-500 disabled:ring-gray-200 sm:text-sm sm:leading-6 ${
+                  errors.seo?.ogImage
+                    ? 'ring-red-300 focus:ring-red-500'
+                    : 'ring-gray-300 focus:ring-blue-500 hover:ring-gray-400'
+                }`}
+                placeholder="https://..."
+                disabled={isLoading}
+              />
+              {errors.seo?.ogImage ? (
+                <p className="mt-2 text-sm text-red-600">{errors.seo.ogImage.message}</p>
+              ) : (
+                <p className="mt-2 text-sm text-gray-500">Leave empty to use a generated 1200x630 card</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="seo.canonicalUrl" className="block text-sm font-semibold text-gray-900 mb-2">
+                Canonical URL
+              </label>
+              <input
+                {...register('seo.canonicalUrl')}
+                id="seo.canonicalUrl"
+                type="url"
+                className={`block w-full rounded-lg border-0 py-2.5 px-3 text-gray-900 ring-1 ring-inset transition-colors duration-200 placeholder:text-gray-400 focus:ring-2 focus:ring-inset disabled:bg-gray-50 disabled:text-gray-500 disabled:ring-gray-200 sm:text-sm sm:leading-6 ${
+                  errors.seo?.canonicalUrl
+                    ? 'ring-red-300 focus:ring-red-500'
+                    : 'ring-gray-300 focus:ring-blue-500 hover:ring-gray-400'
+                }`}
+                placeholder="https://..."
+                disabled={isLoading}
+              />
+              {errors.seo?.canonicalUrl ? (
+                <p className="mt-2 text-sm text-red-600">{errors.seo.canonicalUrl.message}</p>
+              ) : (
+                <p className="mt-2 text-sm text-gray-500">Only set this when the post was first published elsewhere</p>
+              )}
+            </div>
+          </div>
+
+          <label className="inline-flex items-center p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors duration-200 cursor-pointer">
+            <input
+              {...register('seo.noindex')}
+              type="checkbox"
+              className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50 h-4 w-4"
+              disabled={isLoading}
+            />
+            <div className="ml-3">
+              <div className="text-sm font-medium text-gray-900">Hide from search engines</div>
+              <div className="text-xs text-gray-500">Adds a noindex robots tag and leaves the post out of the sitemap</div>
+            </div>
+          </label>
         </div>
 
         {/* Publishing Options */}
@@ -492,7 +828,7 @@ export default function PostForm({
           <div className="border-b border-gray-200 pb-4">
             <h3 className="text-lg font-semibold text-gray-900 flex items-center">
               <div className="w-8 h-8 bg-purple-100 rounded-lg flex items-center justify-center mr-3">
-                <span className="text-purple-600 font-semibold text-sm">3</span>
+                <span className="text-purple-600 font-semibold text-sm">4</span>
               </div>
               Publishing Settings
             </h3>
@@ -512,6 +848,7 @@ export default function PostForm({
                 <option value="draft">📝 Draft - Save for later editing</option>
                 <option value="published">🌐 Published - Live on website</option>
                 <option value="scheduled">⏰ Scheduled - Publish at specific time</option>
+                <option value="archived">🗄️ Archived - Hidden from the website</option>
               </select>
               <p className="mt-2 text-sm text-gray-500">Choose how you want to publish this post</p>
             </div>
@@ -533,12 +870,73 @@ export default function PostForm({
             </div>
           </div>
 
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+            <div>
+              <label htmlFor="expiresAt" className="block text-sm font-semibold text-gray-900 mb-2">
+                Expiry Date & Time
+              </label>
+              <input
+                {...register('expiresAt')}
+                id="expiresAt"
+                type="datetime-local"
+                className="block w-full rounded-lg border-0 py-2.5 px-3 text-gray-900 ring-1 ring-inset ring-gray-300 transition-colors duration-200 focus:ring-2 focus:ring-inset focus:ring-blue-500 hover:ring-gray-400 sm:text-sm sm:leading-6"
+                disabled={isLoading}
+                min={toDateTimeLocalValue(new Date())}
+              />
+              <p className="mt-2 text-sm text-gray-500">
+                Optional. For time-sensitive content such as rates or promotions
+              </p>
+            </div>
+
+            <div className={`transition-opacity duration-200 ${watchedExpiresAt ? 'opacity-100' : 'opacity-50 pointer-events-none'}`}>
+              <label htmlFor="expiryAction" className="block text-sm font-semibold text-gray-900 mb-2">
+                When It Expires
+              </label>
+              <select
+                {...register('expiryAction')}
+                id="expiryAction"
+                className="block w-full rounded-lg border-0 py-2.5 px-3 text-gray-900 ring-1 ring-inset ring-gray-300 transition-colors duration-200 focus:ring-2 focus:ring-inset focus:ring-blue-500 hover:ring-gray-400 sm:text-sm sm:leading-6 disabled:bg-gray-50 disabled:text-gray-500 disabled:ring-gray-200"
+                disabled={isLoading || !watchedExpiresAt}
+              >
+                <option value="archive">Archive the post</option>
+                <option value="banner">Keep it live with an &quot;outdated&quot; banner</option>
+              </select>
+              <p className="mt-2 text-sm text-gray-500">
+                Expired posts are left out of feeds and the sitemap either way
+              </p>
+            </div>
+          </div>
+
+          {expiredAt && (
+            <div className="rounded-lg bg-amber-50 p-4">
+              <p className="text-sm text-amber-800">
+                This post expired on {new Date(expiredAt).toLocaleString()}.
+              </p>
+              <label className="mt-2 flex items-center gap-2 text-sm text-amber-900">
+                <input
+                  {...register('markUpToDate')}
+                  type="checkbox"
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  disabled={isLoading}
+                />
+                The content is up to date again (removes the outdated banner)
+              </label>
+            </div>
+          )}
+
         </div>
 
         {/* Form Actions */}
         <div className="bg-gray-50 -mx-6 px-6 py-4 mt-8 flex justify-between items-center rounded-b-xl">
-          <div className="text-sm text-gray-500">
-            {mode === 'create' ? 'Create a new post for your blog' : 'Update post settings and content'}
+          <div className="text-sm text-gray-500" role="status">
+            {autosave.status === 'idle' ? (
+              mode === 'create' ? 'Create a new post for your blog' : 'Update post settings and content'
+            ) : (
+              <span className={autosave.status === 'offline' || autosave.status === 'error' ? 'text-amber-600' : undefined}>
+                {autosaveLabels[autosave.status]}
+                {autosave.status === 'saved' && autosave.savedAt && ` at ${new Date(autosave.savedAt).toLocaleTimeString()}`}
+              </span>
+            )}
           </div>
           <div className="flex space-x-3">
             <button
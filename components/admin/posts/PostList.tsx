@@ -12,9 +12,32 @@ import {
 } from '@heroicons/react/24/outline'
 import DataTable, { Column } from '@/components/admin/common/DataTable'
 import StatusBadge from '@/components/admin/common/StatusBadge'
-import { FirestorePost } from '@/types/admin'
+import { PostRow } from '@/types/admin'
 import { formatDate, formatRelativeTime } from '@/lib/utils'
 
+// Expiry dates closer than this are highlighted
+const EXPIRY_WARNING_DAYS = 7
+
+// Upcoming or past expiry for the Date column
+function ExpiryNotice({ post }: { post: PostRow }) {
+  const { expiresAt, expiredAt } = post
+
+  if (expiresAt) {
+    const daysLeft = (new Date(expiresAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000)
+    return (
+      <div className={`text-xs ${daysLeft <= EXPIRY_WARNING_DAYS ? 'text-amber-600 font-medium' : 'text-gray-500'}`}>
+        Expires {formatDate(expiresAt)}
+      </div>
+    )
+  }
+
+  if (expiredAt && post.status === 'published') {
+    return <div className="text-xs text-amber-600">Outdated since {formatDate(expiredAt)}</div>
+  }
+
+  return null
+}
+
 interface PostListProps {
   filters?: {
     status?: string
@@ -24,7 +47,7 @@ interface PostListProps {
 }
 
 export default function PostList({ filters = {} }: PostListProps) {
-  const [posts, setPosts] = useState<FirestorePost[]>([])
+  const [posts, setPosts] = useState<PostRow[]>([])
   const [loading, setLoading] = useState(true)
   const router = useRouter()
   const { user } = useAuth()
@@ -94,7 +117,7 @@ export default function PostList({ filters = {} }: PostListProps) {
     }
   }
 
-  const columns: Column<FirestorePost>[] = [
+  const columns: Column<PostRow>[] = [
     {
       key: 'title',
       title: 'Post',
@@ -154,6 +177,7 @@ export default function PostList({ filters = {} }: PostListProps) {
           <div className="text-xs text-gray-500">
             {formatRelativeTime(post.updatedAt)}
           </div>
+          <ExpiryNotice post={post} />
         </div>
       ),
       sortable: true,
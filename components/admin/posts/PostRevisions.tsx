@@ -0,0 +1,284 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'react-hot-toast'
+import { ArrowUturnLeftIcon, ClockIcon } from '@heroicons/react/24/outline'
+import StatusBadge, { BadgeVariant } from '@/components/admin/common/StatusBadge'
+import { useAuth } from '@/hooks/useAuth'
+import { classNames } from '@/lib/utils'
+import { diffWords, hasChanges, DiffPart } from '@/lib/diff'
+import { FirestorePost, PostRevision, PostRevisionRow } from '@/types/admin'
+
+interface PostRevisionsProps {
+  postId: string
+}
+
+const statusBadges: Record<FirestorePost['status'], BadgeVariant> = {
+  draft: 'draft',
+  published: 'published',
+  scheduled: 'info',
+  archived: 'archived'
+}
+
+function formatRevisionDate(date: string): string {
+  return new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+}
+
+function DiffText({ parts }: { parts: DiffPart[] }) {
+  return (
+    <div className="whitespace-pre-wrap break-words font-mono text-sm leading-6 text-gray-800">
+      {parts.map((part, index) => {
+        if (part.type === 'added') {
+          return <ins key={index} className="bg-green-100 text-green-900 no-underline">{part.value}</ins>
+        }
+        if (part.type === 'removed') {
+          return <del key={index} className="bg-red-100 text-red-900">{part.value}</del>
+        }
+        return <span key={index}>{part.value}</span>
+      })}
+    </div>
+  )
+}
+
+export default function PostRevisions({ postId }: PostRevisionsProps) {
+  const { user } = useAuth()
+  const router = useRouter()
+  const [revisions, setRevisions] = useState<PostRevisionRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [fromId, setFromId] = useState<string | null>(null)
+  const [toId, setToId] = useState<string | null>(null)
+  // Loaded revisions by id; the list only carries metadata
+  const [details, setDetails] = useState<Record<string, PostRevision>>({})
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  const authorizedFetch = useCallback(async (url: string, init: RequestInit = {}) => {
+    if (!user) throw new Error('Not signed in')
+    const token = await user.getIdToken()
+    return fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        'Authorization': `Bearer ${token}`
+      }
+    })
+  }, [user])
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      const response = await authorizedFetch(`/api/admin/posts/${postId}/revisions`)
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load revisions')
+      }
+
+      const rows: PostRevisionRow[] = result.data
+      setRevisions(rows)
+      // Compare the latest save with the one before it
+      setToId(rows[0]?.id || null)
+      setFromId(rows[1]?.id || rows[0]?.id || null)
+    } catch (error) {
+      console.error('Error loading revisions:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load revisions')
+    } finally {
+      setLoading(false)
+    }
+  }, [authorizedFetch, postId])
+
+  useEffect(() => {
+    if (user) fetchRevisions()
+  }, [user, fetchRevisions])
+
+  useEffect(() => {
+    const missing = Array.from(new Set([fromId, toId])).filter((id): id is string => Boolean(id) && !details[id!])
+    if (missing.length === 0) return
+
+    Promise.all(missing.map(async (id) => {
+      const response = await authorizedFetch(`/api/admin/posts/${postId}/revisions/${id}`)
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load revision')
+      }
+      return result.data as PostRevision
+    }))
+      .then((loaded) => {
+        setDetails((current) => {
+          const next = { ...current }
+          loaded.forEach((revision) => { next[revision.id] = revision })
+          return next
+        })
+      })
+      .catch((error) => {
+        console.error('Error loading revision:', error)
+        toast.error(error.message)
+      })
+  }, [fromId, toId, details, authorizedFetch, postId])
+
+  const from = fromId ? details[fromId] : undefined
+  const to = toId ? details[toId] : undefined
+
+  const fieldDiffs = useMemo(() => {
+    if (!from || !to) return []
+
+    return [
+      { label: 'Title', parts: diffWords(from.title, to.title) },
+      { label: 'Description', parts: diffWords(from.description, to.description) },
+      { label: 'Meta Title', parts: diffWords(from.seo?.metaTitle || '', to.seo?.metaTitle || '') },
+      { label: 'Meta Description', parts: diffWords(from.seo?.metaDescription || '', to.seo?.metaDescription || '') },
+      { label: 'Keywords', parts: diffWords((from.seo?.keywords || []).join(', '), (to.seo?.keywords || []).join(', ')) },
+      { label: 'Status', parts: diffWords(from.status, to.status) },
+      { label: 'Content', parts: diffWords(from.content, to.content) }
+    ].filter((field) => hasChanges(field.parts))
+  }, [from, to])
+
+  const handleRestore = async (revision: PostRevisionRow) => {
+    if (!confirm(`Restore the version saved ${formatRevisionDate(revision.createdAt)}? The current text is kept as a revision.`)) {
+      return
+    }
+
+    setRestoringId(revision.id)
+    try {
+      const response = await authorizedFetch(`/api/admin/posts/${postId}/revisions/${revision.id}/restore`, {
+        method: 'POST'
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to restore revision')
+      }
+
+      toast.success(result.message)
+      router.push(`/admin/posts/${postId}/edit`)
+    } catch (error) {
+      console.error('Error restoring revision:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to restore revision')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading revisions...</span>
+      </div>
+    )
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-12 bg-white shadow-sm rounded-lg">
+        <ClockIcon className="mx-auto h-12 w-12 text-gray-400" aria-hidden="true" />
+        <h3 className="mt-2 text-sm font-medium text-gray-900">No revisions yet</h3>
+        <p className="mt-1 text-sm text-gray-500">A revision is recorded every time the post is saved.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+      {/* Revision list */}
+      <div className="bg-white shadow-sm rounded-lg lg:col-span-1">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Revisions</h3>
+          <p className="mt-1 text-sm text-gray-500">Pick two versions to compare.</p>
+        </div>
+        <div className="grid grid-cols-[3rem_3rem_1fr] items-center px-6 pt-3 text-xs font-medium uppercase tracking-wide text-gray-500">
+          <span>From</span>
+          <span>To</span>
+          <span>Saved</span>
+        </div>
+        <ul className="divide-y divide-gray-200">
+          {revisions.map((revision, index) => (
+            <li
+              key={revision.id}
+              className={classNames(
+                'grid grid-cols-[3rem_3rem_1fr] items-start px-6 py-3',
+                (revision.id === fromId || revision.id === toId) && 'bg-blue-50'
+              )}
+            >
+              <input
+                type="radio"
+                name="from"
+                checked={revision.id === fromId}
+                onChange={() => setFromId(revision.id)}
+                className="mt-1 h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                aria-label={`Compare from ${formatRevisionDate(revision.createdAt)}`}
+              />
+              <input
+                type="radio"
+                name="to"
+                checked={revision.id === toId}
+                onChange={() => setToId(revision.id)}
+                className="mt-1 h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                aria-label={`Compare to ${formatRevisionDate(revision.createdAt)}`}
+              />
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-900">{formatRevisionDate(revision.createdAt)}</span>
+                  {index === 0 && <span className="text-xs text-gray-500">Current</span>}
+                </div>
+                <div className="text-xs text-gray-500 truncate">
+                  {revision.lastModifiedByName}
+                  {revision.restoredFrom && ' · restored'}
+                </div>
+                <div className="mt-1 flex items-center gap-2">
+                  <StatusBadge variant={statusBadges[revision.status]} size="sm">
+                    {revision.status.charAt(0).toUpperCase() + revision.status.slice(1)}
+                  </StatusBadge>
+                  {index > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => handleRestore(revision)}
+                      disabled={restoringId !== null}
+                      className="inline-flex items-center text-xs font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      <ArrowUturnLeftIcon className="mr-1 h-3.5 w-3.5" aria-hidden="true" />
+                      {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Diff */}
+      <div className="bg-white shadow-sm rounded-lg lg:col-span-2">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Changes</h3>
+          {from && to && (
+            <p className="mt-1 text-sm text-gray-500">
+              {formatRevisionDate(from.createdAt)} → {formatRevisionDate(to.createdAt)}
+            </p>
+          )}
+        </div>
+        <div className="p-6 space-y-6">
+          {!from || !to ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : fieldDiffs.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {fromId === toId ? 'Select two different revisions to see what changed.' : 'No changes between these revisions.'}
+            </p>
+          ) : (
+            fieldDiffs.map((field) => (
+              <div key={field.label}>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">{field.label}</h4>
+                <div className="rounded-md border border-gray-200 bg-gray-50 p-4">
+                  <DiffText parts={field.parts} />
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
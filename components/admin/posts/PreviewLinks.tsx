@@ -0,0 +1,195 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { toast } from 'react-hot-toast'
+import { LinkIcon, ClipboardDocumentIcon, NoSymbolIcon } from '@heroicons/react/24/outline'
+import StatusBadge from '@/components/admin/common/StatusBadge'
+import { useAuth } from '@/hooks/useAuth'
+import { formatDate } from '@/lib/utils'
+import { PreviewLinkRow } from '@/types/admin'
+
+interface PreviewLinksProps {
+  postId: string
+}
+
+// Matches PREVIEW_LINK_DURATIONS in lib/preview
+const durationOptions = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' }
+]
+
+export default function PreviewLinks({ postId }: PreviewLinksProps) {
+  const { user } = useAuth()
+  const [links, setLinks] = useState<PreviewLinkRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [days, setDays] = useState(7)
+  const [creating, setCreating] = useState(false)
+
+  const authorizedFetch = useCallback(async (url: string, init: RequestInit = {}) => {
+    if (!user) throw new Error('Not signed in')
+    const token = await user.getIdToken()
+    return fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        'Authorization': `Bearer ${token}`
+      }
+    })
+  }, [user])
+
+  const fetchLinks = useCallback(async () => {
+    try {
+      const response = await authorizedFetch(`/api/admin/posts/${postId}/preview-links`)
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load preview links')
+      }
+      setLinks(result.data)
+    } catch (error) {
+      console.error('Error loading preview links:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [authorizedFetch, postId])
+
+  useEffect(() => {
+    if (user) fetchLinks()
+  }, [user, fetchLinks])
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url)
+      toast.success('Preview link copied')
+    } catch {
+      toast.error('Could not copy the link')
+    }
+  }
+
+  const handleCreate = async () => {
+    setCreating(true)
+    try {
+      const response = await authorizedFetch(`/api/admin/posts/${postId}/preview-links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ days })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create preview link')
+      }
+
+      setLinks((current) => [result.data, ...current])
+      await copyLink(result.data.url)
+    } catch (error) {
+      console.error('Error creating preview link:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create preview link')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (link: PreviewLinkRow) => {
+    if (!confirm('Revoke this preview link? Anyone using it will no longer see the post.')) {
+      return
+    }
+
+    try {
+      const response = await authorizedFetch(`/api/admin/posts/${postId}/preview-links/${link.id}`, {
+        method: 'DELETE'
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to revoke preview link')
+      }
+
+      toast.success(result.message)
+      fetchLinks()
+    } catch (error) {
+      console.error('Error revoking preview link:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke preview link')
+    }
+  }
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Preview Links</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Share the post with reviewers before it is published. Links show the latest saved version.
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="rounded-md border-gray-300 text-sm focus:border-blue-500 focus:ring-blue-500"
+            aria-label="Link expires after"
+          >
+            {durationOptions.map((option) => (
+              <option key={option.days} value={option.days}>Expires in {option.label}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={creating}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            <LinkIcon className="-ml-1 mr-2 h-5 w-5" aria-hidden="true" />
+            {creating ? 'Creating...' : 'Create Link'}
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="px-6 py-4 text-sm text-gray-500">Loading preview links...</p>
+      ) : links.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-500">No preview links yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {links.map((link) => (
+            <li key={link.id} className="px-6 py-3 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <StatusBadge variant={link.active ? 'success' : 'neutral'} size="sm">
+                    {link.revokedAt ? 'Revoked' : link.active ? 'Active' : 'Expired'}
+                  </StatusBadge>
+                  <span className="text-sm text-gray-900">
+                    Created by {link.createdByName} on {formatDate(link.createdAt)}
+                  </span>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  {link.revokedAt
+                    ? `Revoked ${formatDate(link.revokedAt)}`
+                    : `${link.active ? 'Expires' : 'Expired'} ${formatDate(link.expiresAt)}`}
+                </p>
+              </div>
+              {link.active && (
+                <div className="flex items-center space-x-3 flex-shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => copyLink(link.url)}
+                    className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+                  >
+                    <ClipboardDocumentIcon className="mr-1 h-4 w-4" aria-hidden="true" />
+                    Copy
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(link)}
+                    className="inline-flex items-center text-sm font-medium text-red-600 hover:text-red-800"
+                  >
+                    <NoSymbolIcon className="mr-1 h-4 w-4" aria-hidden="true" />
+                    Revoke
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { toast } from 'react-hot-toast'
+import { ArrowDownTrayIcon, EnvelopeIcon } from '@heroicons/react/24/outline'
+import DataTable, { Column } from '@/components/admin/common/DataTable'
+import StatusBadge, { BadgeVariant } from '@/components/admin/common/StatusBadge'
+import { useAuth } from '@/hooks/useAuth'
+import { formatDate } from '@/lib/utils'
+import { SubscriberRow, SubscriberStatus } from '@/types/admin'
+
+const statusBadges: Record<SubscriberStatus, BadgeVariant> = {
+  pending: 'warning',
+  confirmed: 'success',
+  unsubscribed: 'neutral'
+}
+
+export default function SubscriberList() {
+  const { user } = useAuth()
+  const [subscribers, setSubscribers] = useState<SubscriberRow[]>([])
+  const [status, setStatus] = useState<SubscriberStatus | ''>('')
+  const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+
+  useEffect(() => {
+    if (!user) return
+
+    const fetchSubscribers = async () => {
+      setLoading(true)
+      try {
+        const token = await user.getIdToken()
+        const response = await fetch(`/api/admin/subscribers${status ? `?status=${status}` : ''}`, {
+          headers: { 'Authorization': `Bearer ${token}` }
+        })
+        const result = await response.json()
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load subscribers')
+        }
+
+        setSubscribers(result.data)
+      } catch (error) {
+        console.error('Error loading subscribers:', error)
+        toast.error(error instanceof Error ? error.message : 'Failed to load subscribers')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchSubscribers()
+  }, [user, status])
+
+  const handleExport = async () => {
+    if (!user) return
+
+    setExporting(true)
+    try {
+      const token = await user.getIdToken()
+      const params = new URLSearchParams({ format: 'csv' })
+      if (status) params.append('status', status)
+
+      const response = await fetch(`/api/admin/subscribers?${params.toString()}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      })
+      if (!response.ok) {
+        const result = await response.json()
+        throw new Error(result.error || 'Failed to export subscribers')
+      }
+
+      // Download through a temporary link, keeping the server's filename
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const filename = disposition.match(/filename="(.+)"/)?.[1] || 'subscribers.csv'
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Error exporting subscribers:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to export subscribers')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const columns: Column<SubscriberRow>[] = [
+    {
+      key: 'email',
+      title: 'Email',
+      render: (email) => <span className="text-sm font-medium text-gray-900">{email}</span>,
+      sortable: true
+    },
+    {
+      key: 'status',
+      title: 'Status',
+      render: (value: SubscriberStatus) => (
+        <StatusBadge variant={statusBadges[value]} size="sm" className="capitalize">
+          {value}
+        </StatusBadge>
+      ),
+      sortable: true
+    },
+    {
+      key: 'categories',
+      title: 'Topics',
+      render: (categories: string[]) => (
+        <span className="text-sm text-gray-500">
+          {categories.length > 0 ? categories.join(', ') : 'All'}
+        </span>
+      )
+    },
+    {
+      key: 'source',
+      title: 'Source',
+      render: (source) => <span className="text-sm text-gray-500">{source}</span>
+    },
+    {
+      key: 'createdAt',
+      title: 'Signed up',
+      render: (createdAt) => (
+        <span className="text-sm text-gray-500">{createdAt ? formatDate(createdAt) : '—'}</span>
+      ),
+      sortable: true
+    }
+  ]
+
+  const confirmedCount = subscribers.filter((subscriber) => subscriber.status === 'confirmed').length
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow-sm rounded-lg p-4 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as SubscriberStatus | '')}
+            className="rounded-md border-gray-300 text-sm"
+          >
+            <option value="">All Status</option>
+            <option value="confirmed">Confirmed</option>
+            <option value="pending">Pending</option>
+            <option value="unsubscribed">Unsubscribed</option>
+          </select>
+          {!loading && (
+            <p className="text-sm text-gray-500">
+              {subscribers.length} shown{!status && ` · ${confirmedCount} confirmed`}
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={exporting || loading || subscribers.length === 0}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <ArrowDownTrayIcon className="-ml-1 mr-2 h-5 w-5" aria-hidden="true" />
+          {exporting ? 'Exporting...' : 'Export CSV'}
+        </button>
+      </div>
+
+      <DataTable
+        data={subscribers}
+        columns={columns}
+        loading={loading}
+        emptyMessage="No subscribers yet"
+        emptyIcon={EnvelopeIcon}
+      />
+    </div>
+  )
+}
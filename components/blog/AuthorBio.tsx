@@ -0,0 +1,110 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import { Author } from '@/types/blog'
+import { getSocialLinkUrl } from '@/lib/utils'
+
+interface AuthorBioProps {
+  author: Author
+  showLink?: boolean
+  className?: string
+}
+
+const socialLabels: Record<string, string> = {
+  twitter: 'Twitter',
+  linkedin: 'LinkedIn',
+  instagram: 'Instagram',
+  github: 'GitHub',
+  website: 'Website',
+  email: 'Email'
+}
+
+export function AuthorAvatar({ author, size = 64 }: { author: Author; size?: number }) {
+  if (author.avatar) {
+    return (
+      <Image
+        src={author.avatar}
+        alt={author.name}
+        width={size}
+        height={size}
+        className="rounded-full object-cover flex-shrink-0"
+        style={{ width: size, height: size }}
+      />
+    )
+  }
+
+  return (
+    <div
+      className="rounded-full bg-primary-100 dark:bg-primary-900/40 flex items-center justify-center flex-shrink-0"
+      style={{ width: size, height: size }}
+    >
+      <span className="text-primary-600 dark:text-primary-400 font-semibold" style={{ fontSize: size / 2.5 }}>
+        {author.name.charAt(0).toUpperCase()}
+      </span>
+    </div>
+  )
+}
+
+export default function AuthorBio({ author, showLink = true, className = '' }: AuthorBioProps) {
+  const socialLinks = Object.entries(author.social || {})
+    .map(([network, value]) => ({ network, href: getSocialLinkUrl(network, value) }))
+    .filter((link): link is { network: string; href: string } => link.href !== null)
+
+  return (
+    <section className={`bg-gray-50 dark:bg-gray-800/50 rounded-lg p-6 ${className}`} aria-label="About the author">
+      <div className="flex items-start gap-4">
+        <AuthorAvatar author={author} />
+
+        <div className="flex-1 min-w-0">
+          <p className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">
+            Written by
+          </p>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            {showLink ? (
+              <Link href={`/author/${author.id}`} className="hover:text-primary-600 dark:hover:text-primary-400 transition-colors">
+                {author.name}
+              </Link>
+            ) : (
+              author.name
+            )}
+          </h3>
+          {author.role && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">{author.role}</p>
+          )}
+
+          {author.bio && (
+            <p className="text-gray-600 dark:text-gray-400 text-sm leading-relaxed mb-4">{author.bio}</p>
+          )}
+
+          {author.expertise.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {author.expertise.map((item) => (
+                <span
+                  key={item}
+                  className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary-100 dark:bg-primary-900/40 text-primary-800 dark:text-primary-200"
+                >
+                  {item}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {socialLinks.length > 0 && (
+            <div className="flex flex-wrap gap-4 text-sm">
+              {socialLinks.map(({ network, href }) => (
+                <a
+                  key={network}
+                  href={href}
+                  className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 transition-colors"
+                  target={network === 'email' ? undefined : '_blank'}
+                  rel={network === 'email' ? undefined : 'noopener noreferrer'}
+                >
+                  {socialLabels[network] || network}
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </section>
+  )
+}
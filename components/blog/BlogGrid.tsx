@@ -1,10 +1,17 @@
+import { ReactNode } from 'react'
 import { BlogPost } from '@/types/blog'
 import BlogCard from './BlogCard'
+import LoadMorePosts from './LoadMorePosts'
 
 interface BlogGridProps {
   posts: BlogPost[]
   columns?: 1 | 2 | 3 | 4
   showLoadMore?: boolean
+  // Cursor and listing query the load-more button continues from
+  nextCursor?: string | null
+  loadMoreQuery?: string
+  // Rendered below the grid, and hidden once more posts have been loaded
+  pagination?: ReactNode
   variant?: 'default' | 'featured' | 'minimal'
   showCategory?: boolean
   showAuthor?: boolean
@@ -17,6 +24,9 @@ export default function BlogGrid({
   posts, 
   columns = 3,
   showLoadMore = false,
+  nextCursor = null,
+  loadMoreQuery = '',
+  pagination,
   variant = 'default',
   showCategory = true,
   showAuthor = true,
@@ -39,8 +49,8 @@ export default function BlogGrid({
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
           </svg>
         </div>
-        <h3 className="text-lg font-medium text-gray-900 mb-2">No posts found</h3>
-        <p className="text-gray-500">Check back later for new content.</p>
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">No posts found</h3>
+        <p className="text-gray-500 dark:text-gray-400">Check back later for new content.</p>
       </div>
     )
   }
@@ -61,12 +71,21 @@ export default function BlogGrid({
         ))}
       </div>
 
-      {showLoadMore && posts.length > 0 && (
-        <div className="text-center mt-12">
-          <button className="inline-flex items-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 transition-colors duration-200">
-            Load More Posts
-          </button>
-        </div>
+      {showLoadMore && nextCursor ? (
+        <LoadMorePosts
+          initialCursor={nextCursor}
+          query={loadMoreQuery}
+          gridClassName={gridClasses[columns]}
+          variant={variant}
+          showCategory={showCategory}
+          showAuthor={showAuthor}
+          showDate={showDate}
+          showReadingTime={showReadingTime}
+        >
+          {pagination}
+        </LoadMorePosts>
+      ) : (
+        pagination
       )}
     </div>
   )
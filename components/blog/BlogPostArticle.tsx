@@ -0,0 +1,255 @@
+import Link from 'next/link'
+import { format, formatDistanceToNow } from 'date-fns'
+import { getAuthorByIdFromDB, getPostNavigationFromDB, getCategoryBySlugFromDB } from '@/lib/blog-db'
+import { getPostNavigation } from '@/lib/blog'
+import { renderMarkdown, extractTableOfContents } from '@/lib/markdown'
+import { getRelatedPosts } from '@/lib/related-posts'
+import { getBlogPostingJsonLd, getBreadcrumbJsonLd } from '@/lib/structured-data'
+import { getTagSlug, isPostExpired } from '@/lib/utils'
+import { getAuthorByName, authorConfig, siteConfig } from '@/data'
+import { BlogPost } from '@/types/blog'
+import JsonLd from '@/components/ui/JsonLd'
+import TableOfContents from './TableOfContents'
+import AuthorBio, { AuthorAvatar } from './AuthorBio'
+import RelatedPosts from './RelatedPosts'
+import PostNavigation from './PostNavigation'
+import FeaturedImage from './FeaturedImage'
+import Comments from './Comments'
+import PostEngagement from './PostEngagement'
+
+// Short posts don't get a table of contents
+const TOC_MIN_HEADINGS = 3
+
+interface BlogPostArticleProps {
+  post: BlogPost
+  // Rendered from a preview link: adds a banner and leaves out views,
+  // likes, comments and structured data
+  preview?: boolean
+}
+
+/**
+ * The full post page layout, shared by /blog/[slug] and preview links
+ */
+export default async function BlogPostArticle({ post, preview = false }: BlogPostArticleProps) {
+  const { slug } = post
+
+  // Firestore posts carry an authorId, MDX posts only the author's name
+  const author = post.authorId
+    ? await getAuthorByIdFromDB(post.authorId)
+    : getAuthorByName(post.author) || null
+  const authorHref = author && authorConfig.enableAuthorPages ? `/author/${author.id}` : null
+  const category = await getCategoryBySlugFromDB(post.category)
+
+  const contentHtml = await renderMarkdown(post.content)
+  const toc = post.hideTableOfContents ? [] : extractTableOfContents(post.content)
+  const showToc = toc.length >= TOC_MIN_HEADINGS
+  const relatedPosts = await getRelatedPosts(post)
+
+  // Fall back to the MDX posts when the post isn't in Firestore
+  const [navigation, categoryNavigation] = await Promise.all([
+    getPostNavigationFromDB(slug),
+    getPostNavigationFromDB(slug, { withinCategory: true })
+  ])
+
+  return (
+    <article className={`${showToc ? 'max-w-6xl' : 'max-w-4xl'} mx-auto px-4 sm:px-6 lg:px-8 py-8`}>
+      {preview ? (
+        <div
+          role="note"
+          className="mb-8 rounded-lg border border-primary-200 dark:border-primary-900 bg-primary-50 dark:bg-primary-900/30 px-4 py-3 text-sm text-primary-800 dark:text-primary-200"
+        >
+          <span className="font-semibold">Preview</span>
+          {' '}&middot; This link shows the post as it stands now. It may not be published yet and can change before it is.
+        </div>
+      ) : (
+        <>
+          <JsonLd data={getBlogPostingJsonLd(post, author)} />
+          <JsonLd
+            data={getBreadcrumbJsonLd([
+              { name: 'Home', path: '/' },
+              { name: 'Blog', path: '/blog' },
+              { name: post.title }
+            ])}
+          />
+        </>
+      )}
+
+      <div className={showToc ? 'lg:grid lg:grid-cols-[minmax(0,1fr)_14rem] lg:gap-12' : ''}>
+        <div className="min-w-0">
+          {/* Breadcrumb */}
+          <nav className="mb-8" aria-label="Breadcrumb">
+            <div className="flex items-center space-x-2 text-sm text-gray-500 dark:text-gray-400">
+              <Link href="/" className="hover:text-primary-600 dark:hover:text-primary-400 transition-colors">
+                Home
+              </Link>
+              <span>/</span>
+              <Link href="/blog" className="hover:text-primary-600 dark:hover:text-primary-400 transition-colors">
+                Blog
+              </Link>
+              <span>/</span>
+              <span className="text-gray-900 dark:text-gray-100 font-medium">{post.title}</span>
+            </div>
+          </nav>
+
+          {/* Header */}
+          <header className="mb-8">
+            <div className="mb-4">
+              <Link 
+                href={`/category/${post.category}`}
+                className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-primary-100 dark:bg-primary-900/40 text-primary-800 dark:text-primary-200 hover:bg-primary-200 dark:hover:bg-primary-900/60 transition-colors"
+              >
+                {post.category.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+              </Link>
+            </div>
+        
+            <h1 className="text-4xl md:text-5xl font-bold text-gray-900 dark:text-gray-100 mb-4 leading-tight">
+              {post.title}
+            </h1>
+        
+            <p className="text-xl text-gray-600 dark:text-gray-400 mb-6 leading-relaxed">
+              {post.description}
+            </p>
+        
+            <div className="flex items-center gap-4 text-sm text-gray-500 dark:text-gray-400 mb-8 pb-8 border-b border-gray-200 dark:border-gray-800">
+              <div className="flex items-center gap-2">
+                {author ? (
+                  <AuthorAvatar author={author} size={32} />
+                ) : (
+                  <div className="w-8 h-8 rounded-full bg-primary-100 dark:bg-primary-900/40 flex items-center justify-center">
+                    <span className="text-primary-600 dark:text-primary-400 font-medium text-sm">
+                      {post.author ? post.author.charAt(0).toUpperCase() : 'A'}
+                    </span>
+                  </div>
+                )}
+                {authorHref ? (
+                  <Link href={authorHref} className="font-medium text-gray-900 dark:text-gray-100 hover:text-primary-600 dark:hover:text-primary-400 transition-colors">
+                    {author?.name}
+                  </Link>
+                ) : (
+                  <span className="font-medium text-gray-900 dark:text-gray-100">{author?.name || post.author || 'Anonymous'}</span>
+                )}
+              </div>
+              <span>•</span>
+              <span>{formatDistanceToNow(new Date(post.date), { addSuffix: true })}</span>
+              <span>•</span>
+              <span>{post.readingTime} min read</span>
+              {post.featured && (
+                <>
+                  <span>•</span>
+                  <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-200">
+                    Featured
+                  </span>
+                </>
+              )}
+            </div>
+          </header>
+
+          {/* Outdated notice for expired time-sensitive posts */}
+          {isPostExpired(post) && (
+            <div
+              role="note"
+              className="mb-8 rounded-lg border border-amber-200 dark:border-amber-900 bg-amber-50 dark:bg-amber-900/20 px-4 py-3 text-sm text-amber-800 dark:text-amber-300"
+            >
+              This post may be outdated. Its content was time-sensitive and expired on{' '}
+              {format(new Date((post.expiredAt || post.expiresAt)!), 'MMMM d, yyyy')}.
+            </div>
+          )}
+
+          {/* Featured Image */}
+          <FeaturedImage
+            post={post}
+            variant="hero"
+            color={category?.color}
+            priority
+            className="mb-8"
+          />
+
+          {/* Table of Contents (mobile) */}
+          {showToc && (
+            <TableOfContents items={toc} variant="inline" className="mb-8 lg:hidden" />
+          )}
+
+          {/* Content */}
+          <div
+            className="prose prose-lg max-w-none mb-12"
+            dangerouslySetInnerHTML={{ __html: contentHtml }}
+          />
+
+          {/* Tags */}
+          {post.tags && post.tags.length > 0 && (
+            <div className="mb-8 pt-8 border-t border-gray-200 dark:border-gray-800">
+              <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">Tagged with:</h3>
+              <div className="flex flex-wrap gap-2">
+                {post.tags.map((tag) => (
+                  <Link
+                    key={tag}
+                    href={`/tag/${getTagSlug(tag)}`}
+                    className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    #{tag}
+                  </Link>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Likes and sharing */}
+          {siteConfig.features.engagement && !preview && (
+            <PostEngagement
+              postSlug={slug}
+              title={post.title}
+              url={`${siteConfig.baseUrl}/blog/${post.slug}`}
+              className="mb-8"
+            />
+          )}
+
+          {/* Author */}
+          {author && authorConfig.showAuthorBio && (
+            <AuthorBio author={author} showLink={Boolean(authorHref)} className="mb-8" />
+          )}
+
+          {/* Previous / Next */}
+          <PostNavigation
+            navigation={navigation || getPostNavigation(slug)}
+            categoryNavigation={categoryNavigation || getPostNavigation(slug, true)}
+            categoryName={post.category.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+            className="mb-8 pt-8 border-t border-gray-200 dark:border-gray-800"
+          />
+
+          {/* Navigation */}
+          <div className="pt-8 border-t border-gray-200 dark:border-gray-800">
+            <div className="flex justify-between items-center">
+              <Link
+                href="/blog"
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 transition-colors"
+              >
+                ← Back to all posts
+              </Link>
+              <Link
+                href={`/category/${post.category}`}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 transition-colors"
+              >
+                More in {post.category.replace('-', ' ')} →
+              </Link>
+            </div>
+          </div>
+
+          {/* Related Posts */}
+          <RelatedPosts posts={relatedPosts} className="mt-12 pt-8 border-t border-gray-200 dark:border-gray-800" />
+
+          {/* Comments */}
+          {siteConfig.features.comments && !preview && (
+            <Comments postSlug={slug} className="mt-12 pt-8 border-t border-gray-200 dark:border-gray-800" />
+          )}
+        </div>
+
+        {/* Table of Contents (desktop sidebar) */}
+        {showToc && (
+          <aside className="hidden lg:block">
+            <TableOfContents items={toc} />
+          </aside>
+        )}
+      </div>
+    </article>
+  )
+}
@@ -0,0 +1,235 @@
+'use client'
+
+import { useState, useEffect, FormEvent } from 'react'
+import { Comment } from '@/types/blog'
+import { formatRelativeTime } from '@/lib/utils'
+
+interface CommentsProps {
+  postSlug: string
+  className?: string
+}
+
+interface CommentFormProps {
+  postSlug: string
+  parentId?: string
+  onCancel?: () => void
+}
+
+function countComments(comments: Comment[]): number {
+  return comments.reduce((total, comment) => total + 1 + countComments(comment.replies), 0)
+}
+
+function CommentForm({ postSlug, parentId, onCancel }: CommentFormProps) {
+  const [authorName, setAuthorName] = useState('')
+  const [authorEmail, setAuthorEmail] = useState('')
+  const [content, setContent] = useState('')
+  const [website, setWebsite] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/posts/${postSlug}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ authorName, authorEmail, content, website, parentId })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to submit comment')
+      }
+
+      setContent('')
+      setMessage({ type: 'success', text: result.message })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to submit comment' })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const inputClasses = 'w-full rounded-md border border-gray-300 dark:border-gray-700 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 dark:bg-gray-800 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500'
+  const idPrefix = parentId ? `reply-${parentId}` : 'comment'
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor={`${idPrefix}-name`} className="sr-only">Name</label>
+          <input
+            id={`${idPrefix}-name`}
+            type="text"
+            required
+            maxLength={80}
+            placeholder="Name"
+            value={authorName}
+            onChange={(e) => setAuthorName(e.target.value)}
+            className={inputClasses}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-email`} className="sr-only">Email</label>
+          <input
+            id={`${idPrefix}-email`}
+            type="email"
+            required
+            placeholder="Email (never published)"
+            value={authorEmail}
+            onChange={(e) => setAuthorEmail(e.target.value)}
+            className={inputClasses}
+          />
+        </div>
+      </div>
+
+      {/* Honeypot: hidden from readers, tempting to bots */}
+      <div className="hidden" aria-hidden="true">
+        <label htmlFor={`${idPrefix}-website`}>Website</label>
+        <input
+          id={`${idPrefix}-website`}
+          type="text"
+          tabIndex={-1}
+          autoComplete="off"
+          value={website}
+          onChange={(e) => setWebsite(e.target.value)}
+        />
+      </div>
+
+      <div>
+        <label htmlFor={`${idPrefix}-content`} className="sr-only">Comment</label>
+        <textarea
+          id={`${idPrefix}-content`}
+          required
+          rows={parentId ? 3 : 4}
+          maxLength={5000}
+          placeholder={parentId ? 'Write a reply...' : 'Join the discussion...'}
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          className={inputClasses}
+        />
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          {message.text}
+        </p>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-4 py-2 rounded-md text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? 'Submitting...' : parentId ? 'Post reply' : 'Post comment'}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  )
+}
+
+function CommentThread({ comment, postSlug }: { comment: Comment; postSlug: string }) {
+  const [replying, setReplying] = useState(false)
+
+  return (
+    <li>
+      <div className="flex gap-3">
+        <div className="flex-shrink-0 h-9 w-9 rounded-full bg-primary-100 dark:bg-primary-900/40 text-primary-800 dark:text-primary-200 flex items-center justify-center text-sm font-semibold">
+          {comment.authorName.charAt(0).toUpperCase()}
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm">
+            <span className="font-medium text-gray-900 dark:text-gray-100">{comment.authorName}</span>
+            <time dateTime={comment.date} className="ml-2 text-gray-500 dark:text-gray-400">
+              {formatRelativeTime(comment.date)}
+            </time>
+          </p>
+          <p className="mt-1 text-gray-700 dark:text-gray-300 whitespace-pre-line break-words">{comment.content}</p>
+          <button
+            type="button"
+            onClick={() => setReplying(!replying)}
+            className="mt-1 text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300"
+          >
+            Reply
+          </button>
+
+          {replying && (
+            <div className="mt-3">
+              <CommentForm postSlug={postSlug} parentId={comment.id} onCancel={() => setReplying(false)} />
+            </div>
+          )}
+
+          {comment.replies.length > 0 && (
+            <ul className="mt-4 space-y-4 pl-4 border-l border-gray-200 dark:border-gray-800">
+              {comment.replies.map((reply) => (
+                <CommentThread key={reply.id} comment={reply} postSlug={postSlug} />
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </li>
+  )
+}
+
+export default function Comments({ postSlug, className = '' }: CommentsProps) {
+  const [comments, setComments] = useState<Comment[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchComments = async () => {
+      try {
+        const response = await fetch(`/api/posts/${postSlug}/comments`)
+        if (response.ok) {
+          const result = await response.json()
+          setComments(result.data)
+        }
+      } catch (error) {
+        console.error('Error fetching comments:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchComments()
+  }, [postSlug])
+
+  const total = countComments(comments)
+
+  return (
+    <section id="comments" className={className}>
+      <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-6">
+        {total > 0 ? `${total} ${total === 1 ? 'Comment' : 'Comments'}` : 'Comments'}
+      </h2>
+
+      <div className="mb-8">
+        <CommentForm postSlug={postSlug} />
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No comments yet. Be the first to share your thoughts.</p>
+      ) : (
+        <ul className="space-y-6">
+          {comments.map((comment) => (
+            <CommentThread key={comment.id} comment={comment} postSlug={postSlug} />
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,77 @@
+'use client'
+
+import { useState } from 'react'
+import Image from 'next/image'
+import PlaceholderImage from '@/components/ui/PlaceholderImage'
+import { getCategoryBySlug, performanceConfig } from '@/data'
+import { BlogPost } from '@/types/blog'
+
+interface FeaturedImageProps {
+  post: Pick<BlogPost, 'title' | 'category' | 'image' | 'imageAlt' | 'imageWidth' | 'imageHeight'>
+  variant?: 'hero' | 'card'
+  // Category color from Firestore; defaults to the static category config
+  color?: string
+  priority?: boolean
+  className?: string
+}
+
+const DEFAULT_COLOR = '#3B82F6'
+
+// Tiny solid SVG in the category color, shown while the image loads
+function getBlurDataURL(color: string): string {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="8" height="5"><rect width="8" height="5" fill="${color}"/></svg>`
+  return `data:image/svg+xml;base64,${btoa(svg)}`
+}
+
+export default function FeaturedImage({
+  post,
+  variant = 'card',
+  color,
+  priority = false,
+  className = ''
+}: FeaturedImageProps) {
+  const candidate = color || getCategoryBySlug(post.category)?.color || DEFAULT_COLOR
+  const accent = /^#[0-9a-f]{3,8}$/i.test(candidate) ? candidate : DEFAULT_COLOR
+  const sizes = variant === 'hero' ? performanceConfig.images.sizes.full : performanceConfig.images.sizes.card
+  // Missing or broken images (e.g. an MDX post whose file was never added to
+  // public/images/posts) fall back to the category placeholder
+  const [failed, setFailed] = useState(false)
+
+  if (!post.image || failed) {
+    return (
+      <div className={variant === 'hero' ? `relative h-64 md:h-96 w-full rounded-lg overflow-hidden ${className}` : `relative w-full h-full ${className}`}>
+        <PlaceholderImage text={post.title} color={accent} className={variant === 'hero' ? 'text-lg' : 'text-sm'} />
+      </div>
+    )
+  }
+
+  const alt = post.imageAlt || post.title
+  const imageProps = {
+    src: post.image,
+    sizes,
+    quality: performanceConfig.images.quality,
+    placeholder: 'blur' as const,
+    blurDataURL: getBlurDataURL(accent),
+    priority,
+    onError: () => setFailed(true)
+  }
+
+  // With stored dimensions the hero keeps the image's own aspect ratio
+  if (variant === 'hero' && post.imageWidth && post.imageHeight) {
+    return (
+      <Image
+        {...imageProps}
+        alt={alt}
+        width={post.imageWidth}
+        height={post.imageHeight}
+        className={`w-full h-auto max-h-[32rem] object-cover rounded-lg ${className}`}
+      />
+    )
+  }
+
+  return (
+    <div className={variant === 'hero' ? `relative aspect-video w-full rounded-lg overflow-hidden ${className}` : `relative w-full h-full ${className}`}>
+      <Image {...imageProps} alt={alt} fill className="object-cover" />
+    </div>
+  )
+}
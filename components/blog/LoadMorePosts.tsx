@@ -0,0 +1,101 @@
+'use client'
+
+import { ReactNode, useState } from 'react'
+import { BlogPost, PostListPage } from '@/types/blog'
+import BlogCard from './BlogCard'
+
+interface LoadMorePostsProps {
+  // Cursor returned with the server-rendered page
+  initialCursor: string
+  // Listing filters as a query string, e.g. "category=loans&sort=popular"
+  query?: string
+  gridClassName: string
+  variant?: 'default' | 'featured' | 'minimal'
+  showCategory?: boolean
+  showAuthor?: boolean
+  showDate?: boolean
+  showReadingTime?: boolean
+  // Shown until more posts are loaded, typically the numbered pagination
+  children?: ReactNode
+}
+
+export default function LoadMorePosts({
+  initialCursor,
+  query = '',
+  gridClassName,
+  variant = 'default',
+  showCategory = true,
+  showAuthor = true,
+  showDate = true,
+  showReadingTime = true,
+  children
+}: LoadMorePostsProps) {
+  const [posts, setPosts] = useState<BlogPost[]>([])
+  const [cursor, setCursor] = useState<string | null>(initialCursor)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadMore = async () => {
+    if (!cursor || loading) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams(query)
+      params.set('cursor', cursor)
+
+      const response = await fetch(`/api/posts?${params.toString()}`)
+      if (!response.ok) {
+        throw new Error('Failed to load more posts')
+      }
+
+      const { data }: { data: PostListPage } = await response.json()
+      setPosts((current) => [...current, ...data.posts])
+      setCursor(data.nextCursor)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load more posts')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <>
+      {posts.length > 0 && (
+        <div className={`grid ${gridClassName} gap-8 mt-8`}>
+          {posts.map((post) => (
+            <BlogCard
+              key={post.slug}
+              post={post}
+              variant={variant}
+              showCategory={showCategory}
+              showAuthor={showAuthor}
+              showDate={showDate}
+              showReadingTime={showReadingTime}
+            />
+          ))}
+        </div>
+      )}
+
+      {cursor && (
+        <div className="text-center mt-12">
+          <button
+            type="button"
+            onClick={loadMore}
+            disabled={loading}
+            className="inline-flex items-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Loading...' : 'Load More Posts'}
+          </button>
+          {error && (
+            <p className="mt-3 text-sm text-red-600" role="alert">{error}</p>
+          )}
+        </div>
+      )}
+
+      {/* Page links no longer line up once extra posts are appended */}
+      {posts.length === 0 && children}
+    </>
+  )
+}
@@ -0,0 +1,133 @@
+'use client'
+
+import { useState } from 'react'
+import { Category } from '@/types/blog'
+import { SubscriberStatus } from '@/types/admin'
+
+interface NewsletterPreferencesProps {
+  token: string
+  email: string
+  status: SubscriberStatus
+  categories: string[]
+  allCategories: Pick<Category, 'slug' | 'name'>[]
+}
+
+export default function NewsletterPreferences({
+  token,
+  email,
+  status: initialStatus,
+  categories,
+  allCategories
+}: NewsletterPreferencesProps) {
+  const [status, setStatus] = useState(initialStatus)
+  const [selectedCategories, setSelectedCategories] = useState<string[]>(categories)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const toggleCategory = (slug: string) => {
+    setSelectedCategories((current) =>
+      current.includes(slug) ? current.filter((item) => item !== slug) : [...current, slug]
+    )
+  }
+
+  const request = async (url: string, method: string, body: object) => {
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, ...body })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Something went wrong. Please try again.')
+      }
+
+      setMessage({ type: 'success', text: result.message })
+      return result
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Something went wrong. Please try again.' })
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = async () => {
+    const result = await request('/api/newsletter/preferences', 'PUT', { categories: selectedCategories })
+    if (result) {
+      setStatus(result.data.status)
+    }
+  }
+
+  const handleUnsubscribe = async () => {
+    const result = await request('/api/newsletter/unsubscribe', 'POST', {})
+    if (result) {
+      setStatus('unsubscribed')
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg shadow-md p-6 sm:p-8">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">Your subscription</h2>
+      <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+        {email} ·{' '}
+        {status === 'confirmed' && 'Subscribed'}
+        {status === 'pending' && 'Waiting for confirmation'}
+        {status === 'unsubscribed' && 'Unsubscribed'}
+      </p>
+
+      <fieldset className="mt-6">
+        <legend className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">
+          Topics <span className="font-normal text-gray-500 dark:text-gray-400">(leave empty for everything)</span>
+        </legend>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {allCategories.map((category) => (
+            <label key={category.slug} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={selectedCategories.includes(category.slug)}
+                onChange={() => toggleCategory(category.slug)}
+                className="rounded border-gray-300 dark:border-gray-700 text-primary-600 focus:ring-primary-500"
+              />
+              {category.name}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      {message && (
+        <p
+          role="status"
+          className={`mt-4 text-sm ${message.type === 'success' ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}
+        >
+          {message.text}
+        </p>
+      )}
+
+      <div className="mt-6 flex flex-wrap items-center gap-4">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 rounded-md text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {status === 'unsubscribed' ? 'Resubscribe' : 'Save preferences'}
+        </button>
+        {status !== 'unsubscribed' && (
+          <button
+            type="button"
+            onClick={handleUnsubscribe}
+            disabled={saving}
+            className="text-sm font-medium text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 disabled:opacity-50"
+          >
+            Unsubscribe
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
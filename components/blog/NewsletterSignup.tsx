@@ -0,0 +1,135 @@
+'use client'
+
+import { useState, FormEvent } from 'react'
+import { newsletterData } from '@/data'
+import { Category } from '@/types/blog'
+
+interface NewsletterSignupProps {
+  // 'footer' is a single inline field for the dark footer
+  variant?: 'footer' | 'page'
+  // Shown as interest checkboxes on the page variant
+  categories?: Pick<Category, 'slug' | 'name'>[]
+  className?: string
+}
+
+export default function NewsletterSignup({
+  variant = 'page',
+  categories = [],
+  className = ''
+}: NewsletterSignupProps) {
+  const [email, setEmail] = useState('')
+  const [website, setWebsite] = useState('')
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([])
+  const [submitting, setSubmitting] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const toggleCategory = (slug: string) => {
+    setSelectedCategories((current) =>
+      current.includes(slug) ? current.filter((item) => item !== slug) : [...current, slug]
+    )
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/newsletter/subscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email,
+          website,
+          categories: selectedCategories,
+          source: variant === 'footer' ? 'footer' : 'newsletter-page'
+        })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || newsletterData.errorMessage)
+      }
+
+      setEmail('')
+      setMessage({ type: 'success', text: result.message })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : newsletterData.errorMessage })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const isFooter = variant === 'footer'
+
+  return (
+    <form onSubmit={handleSubmit} className={className}>
+      {/* Honeypot: hidden from readers, tempting to bots */}
+      <div className="hidden" aria-hidden="true">
+        <label htmlFor={`newsletter-website-${variant}`}>Website</label>
+        <input
+          id={`newsletter-website-${variant}`}
+          type="text"
+          tabIndex={-1}
+          autoComplete="off"
+          value={website}
+          onChange={(e) => setWebsite(e.target.value)}
+        />
+      </div>
+
+      {!isFooter && categories.length > 0 && (
+        <fieldset className="mb-6">
+          <legend className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">
+            What are you interested in? <span className="font-normal text-gray-500 dark:text-gray-400">(leave empty for everything)</span>
+          </legend>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {categories.map((category) => (
+              <label key={category.slug} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={selectedCategories.includes(category.slug)}
+                  onChange={() => toggleCategory(category.slug)}
+                  className="rounded border-gray-300 dark:border-gray-700 text-primary-600 focus:ring-primary-500"
+                />
+                {category.name}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      <div className="flex max-w-md">
+        <label htmlFor={`newsletter-email-${variant}`} className="sr-only">Email address</label>
+        <input
+          id={`newsletter-email-${variant}`}
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder={newsletterData.placeholder}
+          className={isFooter
+            ? 'flex-1 px-4 py-2 rounded-l-md bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500'
+            : 'flex-1 px-4 py-2 rounded-l-md border border-gray-300 dark:border-gray-700 text-gray-900 dark:text-gray-100 dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500'}
+        />
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-4 py-2 text-white bg-primary-600 hover:bg-primary-700 rounded-r-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? 'Subscribing...' : newsletterData.buttonText}
+        </button>
+      </div>
+
+      {message && (
+        <p
+          role="status"
+          className={`mt-3 text-sm ${message.type === 'success'
+            ? (isFooter ? 'text-green-300' : 'text-green-700 dark:text-green-400')
+            : (isFooter ? 'text-red-300' : 'text-red-600 dark:text-red-400')}`}
+        >
+          {message.text}
+        </p>
+      )}
+    </form>
+  )
+}
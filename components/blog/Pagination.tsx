@@ -0,0 +1,79 @@
+import Link from 'next/link'
+import { PaginationProps } from '@/types/blog'
+
+// Page numbers to show around the current page, with null marking a gap
+function getVisiblePages(currentPage: number, totalPages: number, maxVisiblePages: number): (number | null)[] {
+  if (totalPages <= maxVisiblePages) {
+    return Array.from({ length: totalPages }, (_, i) => i + 1)
+  }
+
+  const half = Math.floor(maxVisiblePages / 2)
+  let start = Math.max(1, currentPage - half)
+  const end = Math.min(totalPages, start + maxVisiblePages - 1)
+  start = Math.max(1, end - maxVisiblePages + 1)
+
+  const pages: (number | null)[] = []
+  if (start > 1) {
+    pages.push(1)
+    if (start > 2) pages.push(null)
+  }
+  for (let page = start; page <= end; page++) {
+    pages.push(page)
+  }
+  if (end < totalPages) {
+    if (end < totalPages - 1) pages.push(null)
+    pages.push(totalPages)
+  }
+
+  return pages
+}
+
+export default function Pagination({
+  currentPage,
+  totalPages,
+  getPageHref,
+  showPrevNext = true,
+  showFirstLast = false,
+  maxVisiblePages = 5
+}: PaginationProps) {
+  if (totalPages <= 1) {
+    return null
+  }
+
+  const linkClasses = 'inline-flex items-center justify-center min-w-10 h-10 px-3 rounded-md text-sm font-medium transition-colors'
+  const inactiveClasses = `${linkClasses} text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800`
+  const activeClasses = `${linkClasses} text-white bg-primary-600 border border-primary-600`
+  const disabledClasses = `${linkClasses} text-gray-300 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 cursor-not-allowed`
+
+  const edgeLink = (page: number, label: string, disabled: boolean) =>
+    disabled ? (
+      <span className={disabledClasses} aria-disabled="true">{label}</span>
+    ) : (
+      <Link href={getPageHref(page)} className={inactiveClasses}>{label}</Link>
+    )
+
+  return (
+    <nav className="flex items-center justify-center gap-2" aria-label="Pagination">
+      {showFirstLast && edgeLink(1, '« First', currentPage === 1)}
+      {showPrevNext && edgeLink(currentPage - 1, '← Previous', currentPage === 1)}
+
+      {getVisiblePages(currentPage, totalPages, maxVisiblePages).map((page, index) =>
+        page === null ? (
+          <span key={`gap-${index}`} className="px-2 text-gray-400">…</span>
+        ) : (
+          <Link
+            key={page}
+            href={getPageHref(page)}
+            className={page === currentPage ? activeClasses : inactiveClasses}
+            aria-current={page === currentPage ? 'page' : undefined}
+          >
+            {page}
+          </Link>
+        )
+      )}
+
+      {showPrevNext && edgeLink(currentPage + 1, 'Next →', currentPage === totalPages)}
+      {showFirstLast && edgeLink(totalPages, 'Last »', currentPage === totalPages)}
+    </nav>
+  )
+}
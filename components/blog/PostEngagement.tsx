@@ -0,0 +1,213 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { HeartIcon as HeartOutlineIcon, EyeIcon, LinkIcon, EnvelopeIcon, ShareIcon } from '@heroicons/react/24/outline'
+import { HeartIcon as HeartSolidIcon } from '@heroicons/react/24/solid'
+import { PostEngagementEvent, PostStats, ShareNetwork } from '@/types/blog'
+
+interface PostEngagementProps {
+  postSlug: string
+  title: string
+  url: string
+  className?: string
+}
+
+interface ShareLink {
+  network: ShareNetwork
+  label: string
+  href: string
+  icon: React.ReactNode
+}
+
+function NetworkIcon({ path }: { path: string }) {
+  return (
+    <svg className="h-5 w-5" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+      <path d={path} />
+    </svg>
+  )
+}
+
+export default function PostEngagement({ postSlug, title, url, className = '' }: PostEngagementProps) {
+  const [stats, setStats] = useState<PostStats | null>(null)
+  const [liking, setLiking] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [canShareNatively, setCanShareNatively] = useState(false)
+
+  const sendEvent = (event: PostEngagementEvent, network?: ShareNetwork) =>
+    fetch(`/api/posts/${postSlug}/stats`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ event, network }),
+      // Let share clicks finish recording while the page navigates away
+      keepalive: true
+    })
+
+  useEffect(() => {
+    setCanShareNatively(typeof navigator !== 'undefined' && typeof navigator.share === 'function')
+
+    // Load the stats first: that response sets the visitor cookie the view
+    // needs to be counted. A counted view is then added to the total shown.
+    fetch(`/api/posts/${postSlug}/stats`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => {
+        if (result) setStats(result.data)
+      })
+      .catch((error) => console.error('Error loading post stats:', error))
+      .then(() => sendEvent('view'))
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => {
+        if (result?.data.counted) {
+          setStats((current) => current && { ...current, views: current.views + 1 })
+        }
+      })
+      .catch(() => null)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [postSlug])
+
+  const handleLike = async () => {
+    if (!stats || liking) return
+
+    // Update optimistically and roll back if the request fails
+    const previous = stats
+    const liked = !stats.liked
+    setStats({ ...stats, liked, likes: Math.max(0, stats.likes + (liked ? 1 : -1)) })
+    setLiking(true)
+
+    try {
+      const response = await sendEvent(liked ? 'like' : 'unlike')
+      if (!response.ok) throw new Error('Failed to update like')
+    } catch (error) {
+      console.error('Error updating like:', error)
+      setStats(previous)
+    } finally {
+      setLiking(false)
+    }
+  }
+
+  const recordShare = (network: ShareNetwork) => {
+    sendEvent('share', network).catch(() => null)
+    setStats((current) => current && { ...current, shares: current.shares + 1 })
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+      recordShare('copy')
+    } catch (error) {
+      console.error('Error copying link:', error)
+    }
+  }
+
+  const handleNativeShare = async () => {
+    try {
+      await navigator.share({ title, url })
+      recordShare('native')
+    } catch {
+      // Dismissed by the reader
+    }
+  }
+
+  const encodedUrl = encodeURIComponent(url)
+  const encodedTitle = encodeURIComponent(title)
+  const shareLinks: ShareLink[] = [
+    {
+      network: 'twitter',
+      label: 'Share on X',
+      href: `https://twitter.com/intent/tweet?url=${encodedUrl}&text=${encodedTitle}`,
+      icon: <NetworkIcon path="M18.244 2.25h3.308l-7.227 8.26 8.502 11.24H16.17l-5.214-6.817L4.99 21.75H1.68l7.73-8.835L1.254 2.25H8.08l4.713 6.231zm-1.161 17.52h1.833L7.084 4.126H5.117z" />
+    },
+    {
+      network: 'facebook',
+      label: 'Share on Facebook',
+      href: `https://www.facebook.com/sharer/sharer.php?u=${encodedUrl}`,
+      icon: <NetworkIcon path="M24 12.073C24 5.405 18.627 0 12 0S0 5.405 0 12.073C0 18.1 4.388 23.094 10.125 24v-8.437H7.078v-3.49h3.047V9.41c0-3.025 1.792-4.697 4.533-4.697 1.312 0 2.686.236 2.686.236v2.97h-1.513c-1.491 0-1.956.93-1.956 1.886v2.267h3.328l-.532 3.49h-2.796V24C19.612 23.094 24 18.1 24 12.073z" />
+    },
+    {
+      network: 'linkedin',
+      label: 'Share on LinkedIn',
+      href: `https://www.linkedin.com/sharing/share-offsite/?url=${encodedUrl}`,
+      icon: <NetworkIcon path="M20.447 20.452h-3.554v-5.569c0-1.328-.027-3.037-1.852-3.037-1.853 0-2.136 1.445-2.136 2.939v5.667H9.351V9h3.414v1.561h.046c.477-.9 1.637-1.85 3.37-1.85 3.601 0 4.267 2.37 4.267 5.455v6.286zM5.337 7.433a2.062 2.062 0 1 1 0-4.125 2.062 2.062 0 0 1 0 4.125zM7.119 20.452H3.555V9h3.564v11.452zM22.225 0H1.771C.792 0 0 .774 0 1.729v20.542C0 23.227.792 24 1.771 24h20.451C23.2 24 24 23.227 24 22.271V1.729C24 .774 23.2 0 22.222 0h.003z" />
+    },
+    {
+      network: 'email',
+      label: 'Share by email',
+      href: `mailto:?subject=${encodedTitle}&body=${encodedUrl}`,
+      icon: <EnvelopeIcon className="h-5 w-5" aria-hidden="true" />
+    }
+  ]
+
+  const buttonClasses = 'inline-flex items-center justify-center h-9 w-9 rounded-full text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-800 hover:text-primary-600 dark:hover:text-primary-400 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors'
+
+  return (
+    <div className={`flex flex-wrap items-center justify-between gap-4 ${className}`}>
+      <div className="flex items-center gap-4">
+        <button
+          type="button"
+          onClick={handleLike}
+          disabled={!stats || liking}
+          aria-pressed={stats?.liked || false}
+          className={`inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium border transition-colors disabled:opacity-60 ${
+            stats?.liked
+              ? 'border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400'
+              : 'border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:border-red-200 dark:hover:border-red-900 hover:text-red-600 dark:hover:text-red-400'
+          }`}
+        >
+          {stats?.liked ? (
+            <HeartSolidIcon className="h-5 w-5" aria-hidden="true" />
+          ) : (
+            <HeartOutlineIcon className="h-5 w-5" aria-hidden="true" />
+          )}
+          <span>{stats?.liked ? 'Liked' : 'Like'}</span>
+          {stats && stats.likes > 0 && <span className="text-gray-500 dark:text-gray-400">{stats.likes.toLocaleString()}</span>}
+        </button>
+        {stats && (
+          <span className="inline-flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
+            <EyeIcon className="h-5 w-5" aria-hidden="true" />
+            {stats.views.toLocaleString()} {stats.views === 1 ? 'view' : 'views'}
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-gray-500 dark:text-gray-400 mr-1">Share</span>
+        {shareLinks.map((link) => (
+          <a
+            key={link.network}
+            href={link.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={() => recordShare(link.network)}
+            className={buttonClasses}
+            aria-label={link.label}
+            title={link.label}
+          >
+            {link.icon}
+          </a>
+        ))}
+        <button
+          type="button"
+          onClick={handleCopy}
+          className={buttonClasses}
+          aria-label={copied ? 'Link copied' : 'Copy link'}
+          title={copied ? 'Link copied' : 'Copy link'}
+        >
+          <LinkIcon className="h-5 w-5" aria-hidden="true" />
+        </button>
+        {canShareNatively && (
+          <button
+            type="button"
+            onClick={handleNativeShare}
+            className={buttonClasses}
+            aria-label="More sharing options"
+            title="More sharing options"
+          >
+            <ShareIcon className="h-5 w-5" aria-hidden="true" />
+          </button>
+        )}
+        <span role="status" className="sr-only">{copied ? 'Link copied' : ''}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import Link from 'next/link'
+import { PostNavigation as PostNavigationLinks } from '@/types/blog'
+
+interface PostNavigationProps {
+  navigation: PostNavigationLinks
+  categoryNavigation?: PostNavigationLinks
+  categoryName?: string
+  className?: string
+}
+
+function NavigationLink({ post, direction }: { post?: { slug: string; title: string }; direction: 'previous' | 'next' }) {
+  if (!post) {
+    return <div className="hidden sm:block" />
+  }
+
+  const isNext = direction === 'next'
+
+  return (
+    <Link
+      href={`/blog/${post.slug}`}
+      rel={isNext ? 'next' : 'prev'}
+      className={`group block rounded-lg border border-gray-200 dark:border-gray-800 p-4 hover:border-primary-300 hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-colors ${isNext ? 'sm:text-right' : ''}`}
+    >
+      <span className="block text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">
+        {isNext ? 'Next →' : '← Previous'}
+      </span>
+      <span className="block font-semibold text-gray-900 dark:text-gray-100 group-hover:text-primary-600 dark:group-hover:text-primary-400 transition-colors line-clamp-2">
+        {post.title}
+      </span>
+    </Link>
+  )
+}
+
+function sameLinks(a?: PostNavigationLinks, b?: PostNavigationLinks): boolean {
+  return a?.previous?.slug === b?.previous?.slug && a?.next?.slug === b?.next?.slug
+}
+
+export default function PostNavigation({
+  navigation,
+  categoryNavigation,
+  categoryName,
+  className = ''
+}: PostNavigationProps) {
+  // Only show the category row when it leads somewhere the global row doesn't
+  const showCategory = Boolean(
+    categoryNavigation
+    && (categoryNavigation.previous || categoryNavigation.next)
+    && !sameLinks(navigation, categoryNavigation)
+  )
+
+  if (!navigation.previous && !navigation.next && !showCategory) {
+    return null
+  }
+
+  return (
+    <nav className={`space-y-6 ${className}`} aria-label="Post navigation">
+      {(navigation.previous || navigation.next) && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <NavigationLink post={navigation.previous} direction="previous" />
+          <NavigationLink post={navigation.next} direction="next" />
+        </div>
+      )}
+
+      {showCategory && categoryNavigation && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">
+            More in {categoryName || 'this category'}
+          </h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <NavigationLink post={categoryNavigation.previous} direction="previous" />
+            <NavigationLink post={categoryNavigation.next} direction="next" />
+          </div>
+        </div>
+      )}
+    </nav>
+  )
+}
@@ -0,0 +1,52 @@
+import Link from 'next/link'
+import { RelatedPost } from '@/types/blog'
+import FeaturedImage from './FeaturedImage'
+
+interface RelatedPostsProps {
+  posts: RelatedPost[]
+  title?: string
+  className?: string
+}
+
+export default function RelatedPosts({ posts, title = 'Related Articles', className = '' }: RelatedPostsProps) {
+  if (posts.length === 0) {
+    return null
+  }
+
+  return (
+    <section className={className} aria-labelledby="related-posts-heading">
+      <h2 id="related-posts-heading" className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-6">
+        {title}
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {posts.map((post) => (
+          <article
+            key={post.slug}
+            className="bg-white dark:bg-gray-900 rounded-lg shadow-sm overflow-hidden hover:shadow-md transition-shadow duration-300"
+          >
+            <Link href={`/blog/${post.slug}`} className="block">
+              <div className="relative h-32 w-full">
+                <FeaturedImage post={post} />
+              </div>
+
+              <div className="p-4">
+                <div className="flex items-center gap-2 mb-2 text-xs text-gray-500 dark:text-gray-400">
+                  {post.category && (
+                    <span className="font-medium text-primary-700 dark:text-primary-300">
+                      {post.category.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                    </span>
+                  )}
+                  <span>{post.readingTime} min read</span>
+                </div>
+                <h3 className="font-semibold text-gray-900 dark:text-gray-100 hover:text-primary-600 dark:hover:text-primary-400 transition-colors line-clamp-2">
+                  {post.title}
+                </h3>
+              </div>
+            </Link>
+          </article>
+        ))}
+      </div>
+    </section>
+  )
+}
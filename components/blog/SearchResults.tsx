@@ -0,0 +1,49 @@
+import Link from 'next/link'
+import { SearchResult } from '@/types/blog'
+import { formatDate } from '@/lib/utils'
+
+interface SearchResultsProps {
+  results: SearchResult[]
+  className?: string
+}
+
+export default function SearchResults({ results, className = '' }: SearchResultsProps) {
+  return (
+    <ol className={`space-y-6 ${className}`}>
+      {results.map((result) => (
+        <li key={result.slug}>
+          <article className="bg-white dark:bg-gray-900 rounded-lg shadow-sm hover:shadow-md transition-shadow p-6 [&_mark]:bg-yellow-100 [&_mark]:text-gray-900 [&_mark]:rounded-sm [&_mark]:px-0.5">
+            <div className="flex flex-wrap items-center gap-2 mb-2 text-sm text-gray-500 dark:text-gray-400">
+              {result.category && (
+                <Link
+                  href={`/category/${result.category}`}
+                  className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary-100 dark:bg-primary-900/40 text-primary-800 dark:text-primary-200 hover:bg-primary-200 dark:hover:bg-primary-900/60 transition-colors"
+                >
+                  {result.category.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                </Link>
+              )}
+              <time dateTime={result.date}>{formatDate(result.date)}</time>
+              <span>•</span>
+              <span>{result.readingTime} min read</span>
+            </div>
+
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-2">
+              <Link
+                href={`/blog/${result.slug}`}
+                className="hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                dangerouslySetInnerHTML={{ __html: result.titleHtml }}
+              />
+            </h2>
+
+            <p
+              className="text-gray-600 dark:text-gray-400 text-sm leading-relaxed"
+              dangerouslySetInnerHTML={{ __html: result.snippetHtml }}
+            />
+
+            <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">By {result.author}</p>
+          </article>
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,102 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { TableOfContentsItem } from '@/types/blog'
+
+interface TableOfContentsProps {
+  items: TableOfContentsItem[]
+  variant?: 'sidebar' | 'inline'
+  className?: string
+}
+
+// Tracks which heading is currently at the top of the viewport
+function useActiveHeading(ids: string[]): string | null {
+  const [activeId, setActiveId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const headings = ids
+      .map((id) => document.getElementById(id))
+      .filter((element): element is HTMLElement => element !== null)
+
+    if (headings.length === 0) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        const visible = entries
+          .filter((entry) => entry.isIntersecting)
+          .sort((a, b) => a.boundingClientRect.top - b.boundingClientRect.top)
+
+        if (visible.length > 0) {
+          setActiveId(visible[0].target.id)
+        }
+      },
+      // Only the top band of the viewport counts as "reading"
+      { rootMargin: '0px 0px -70% 0px', threshold: 1 }
+    )
+
+    headings.forEach((heading) => observer.observe(heading))
+    return () => observer.disconnect()
+  }, [ids])
+
+  return activeId
+}
+
+export default function TableOfContents({
+  items,
+  variant = 'sidebar',
+  className = ''
+}: TableOfContentsProps) {
+  const ids = useMemo(() => items.map((item) => item.id), [items])
+  const activeId = useActiveHeading(ids)
+
+  if (items.length === 0) {
+    return null
+  }
+
+  const minDepth = Math.min(...items.map((item) => item.depth))
+
+  const list = (
+    <ul className="space-y-2 text-sm">
+      {items.map((item) => (
+        <li
+          key={item.id}
+          style={{ paddingLeft: `${(item.depth - minDepth) * 0.75}rem` }}
+        >
+          <a
+            href={`#${item.id}`}
+            className={`block border-l-2 pl-3 transition-colors duration-200 ${
+              activeId === item.id
+                ? 'border-primary-600 text-primary-600 dark:text-primary-400 font-medium'
+                : 'border-transparent text-gray-600 dark:text-gray-400 hover:text-primary-600 dark:hover:text-primary-400'
+            }`}
+            aria-current={activeId === item.id ? 'location' : undefined}
+          >
+            {item.text}
+          </a>
+        </li>
+      ))}
+    </ul>
+  )
+
+  if (variant === 'inline') {
+    return (
+      <nav aria-label="Table of contents" className={className}>
+        <details className="rounded-lg border border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50 p-4">
+          <summary className="cursor-pointer text-sm font-semibold text-gray-900 dark:text-gray-100">
+            On this page
+          </summary>
+          <div className="mt-4">{list}</div>
+        </details>
+      </nav>
+    )
+  }
+
+  return (
+    <nav aria-label="Table of contents" className={`sticky top-8 ${className}`}>
+      <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100 uppercase tracking-wide mb-4">
+        On this page
+      </h2>
+      <div className="max-h-[calc(100vh-8rem)] overflow-y-auto">{list}</div>
+    </nav>
+  )
+}
@@ -1,4 +1,15 @@
 // Blog component exports
 export { default as BlogCard } from './BlogCard'
 export { default as BlogGrid } from './BlogGrid'
-export { default as CategoryGrid } from './CategoryGrid'
\ No newline at end of file
+export { default as CategoryGrid } from './CategoryGrid'
+export { default as TableOfContents } from './TableOfContents'
+export { default as AuthorBio, AuthorAvatar } from './AuthorBio'
+export { default as Pagination } from './Pagination'
+export { default as SearchResults } from './SearchResults'
+export { default as RelatedPosts } from './RelatedPosts'
+export { default as PostNavigation } from './PostNavigation'
+export { default as FeaturedImage } from './FeaturedImage'
+export { default as Comments } from './Comments'
+export { default as NewsletterSignup } from './NewsletterSignup'
+export { default as NewsletterPreferences } from './NewsletterPreferences'
+export { default as PostEngagement } from './PostEngagement'
\ No newline at end of file
@@ -1,9 +1,10 @@
 import Link from 'next/link'
-import { footerSections, socialLinks, footerConfig, newsletterData } from '@/data'
+import { footerSections, socialLinks, footerConfig, newsletterData, siteConfig } from '@/data'
+import NewsletterSignup from '@/components/blog/NewsletterSignup'
 
 export default function Footer() {
   return (
-    <footer className="bg-gray-900 text-white">
+    <footer className="bg-gray-900 dark:bg-gray-950 dark:border-t dark:border-gray-800 text-white">
       <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-12">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
           {/* Brand */}
@@ -14,20 +15,11 @@ export default function Footer() {
             </p>
             
             {/* Newsletter */}
-            {footerConfig.showNewsletter && (
+            {footerConfig.showNewsletter && siteConfig.features.newsletter && (
               <div className="mt-6">
                 <h4 className="text-lg font-semibold mb-3">{newsletterData.title}</h4>
                 <p className="text-gray-300 text-sm mb-4">{newsletterData.description}</p>
-                <div className="flex max-w-md">
-                  <input
-                    type="email"
-                    placeholder={newsletterData.placeholder}
-                    className="flex-1 px-4 py-2 rounded-l-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
-                  />
-                  <button className="px-4 py-2 bg-primary-600 hover:bg-primary-700 rounded-r-md transition-colors">
-                    {newsletterData.buttonText}
-                  </button>
-                </div>
+                <NewsletterSignup variant="footer" />
               </div>
             )}
           </div>
@@ -0,0 +1,45 @@
+'use client'
+
+import { SunIcon, MoonIcon, ComputerDesktopIcon } from '@heroicons/react/24/outline'
+import { useTheme } from '@/hooks/useTheme'
+import { Theme, THEMES } from '@/lib/theme'
+
+const themeLabels: Record<Theme, string> = {
+  system: 'System theme',
+  light: 'Light theme',
+  dark: 'Dark theme'
+}
+
+const themeIcons: Record<Theme, typeof SunIcon> = {
+  system: ComputerDesktopIcon,
+  light: SunIcon,
+  dark: MoonIcon
+}
+
+interface ThemeToggleProps {
+  className?: string
+}
+
+export default function ThemeToggle({ className = '' }: ThemeToggleProps) {
+  const themeContext = useTheme()
+
+  if (!themeContext) {
+    return null
+  }
+
+  const { theme, setTheme } = themeContext
+  const nextTheme = THEMES[(THEMES.indexOf(theme) + 1) % THEMES.length]
+  const Icon = themeIcons[theme]
+
+  return (
+    <button
+      type="button"
+      onClick={() => setTheme(nextTheme)}
+      className={`text-gray-700 dark:text-gray-300 hover:text-primary-600 dark:hover:text-primary-400 transition-colors ${className}`}
+      aria-label={`${themeLabels[theme]} (switch to ${themeLabels[nextTheme].toLowerCase()})`}
+      title={themeLabels[theme]}
+    >
+      <Icon className="h-5 w-5" />
+    </button>
+  )
+}
@@ -0,0 +1,27 @@
+import { JsonLdNode, validateJsonLd } from '@/lib/structured-data'
+
+interface JsonLdProps {
+  data: JsonLdNode
+}
+
+export default function JsonLd({ data }: JsonLdProps) {
+  const errors = validateJsonLd(data)
+
+  if (errors.length > 0) {
+    const message = `Invalid ${data['@type']} structured data:\n${errors.join('\n')}`
+
+    // Fail `next build` while pages are prerendered; at request time the page still renders
+    if (process.env.NEXT_PHASE === 'phase-production-build') {
+      throw new Error(message)
+    }
+    console.warn(message)
+  }
+
+  return (
+    <script
+      type="application/ld+json"
+      // Escape "<" so post content can't close the script tag
+      dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, '\\u003c') }}
+    />
+  )
+}
@@ -1,7 +1,12 @@
+import { getContrastColor } from '@/lib/utils'
+
 interface PlaceholderImageProps {
-  width: number
-  height: number
+  // Omit both to fill the parent
+  width?: number | string
+  height?: number | string
   text?: string
+  // Tints the gradient, e.g. with the post's category color
+  color?: string
   className?: string
 }
 
@@ -9,14 +14,31 @@ export default function PlaceholderImage({
   width, 
   height, 
   text = "Image",
+  color,
   className = ""
 }: PlaceholderImageProps) {
+  if (color) {
+    return (
+      <div 
+        className={`flex items-center justify-center font-medium text-center px-4 ${className}`}
+        style={{
+          width: width ?? '100%',
+          height: height ?? '100%',
+          color: getContrastColor(color),
+          backgroundImage: `linear-gradient(135deg, ${color}, ${color}99)`
+        }}
+      >
+        {text}
+      </div>
+    )
+  }
+
   return (
     <div 
-      className={`bg-gradient-to-br from-gray-200 to-gray-300 flex items-center justify-center text-gray-500 font-medium ${className}`}
-      style={{ width, height }}
+      className={`bg-gradient-to-br from-gray-200 to-gray-300 dark:from-gray-700 dark:to-gray-800 flex items-center justify-center text-gray-500 dark:text-gray-400 font-medium ${className}`}
+      style={{ width: width ?? '100%', height: height ?? '100%' }}
     >
       {text}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -94,6 +94,12 @@ export const getAuthorById = (id: string): Author | undefined => {
   return authors[id]
 }
 
+export const getAuthorByName = (name: string): Author | undefined => {
+  return Object.values(authors).find(author => 
+    author.name.toLowerCase() === name.toLowerCase()
+  )
+}
+
 export const getAllAuthors = (): Author[] => {
   return Object.values(authors)
 }
@@ -32,8 +32,9 @@ export const siteConfig: SiteConfig = {
   features: {
     newsletter: true,
     search: true,
-    comments: false,
-    darkMode: false,
+    comments: true,
+    engagement: true,
+    darkMode: true,
     rss: true,
     sitemap: true,
     robotsTxt: true
@@ -49,6 +50,12 @@ export const siteConfig: SiteConfig = {
     enableTags: true,
     enableCategories: true,
     enableAuthors: true
+  },
+
+  // RSS, Atom and JSON feeds
+  feed: {
+    itemCount: 20,
+    fullContent: true
   }
 }
 
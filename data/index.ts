@@ -29,6 +29,7 @@ export {
   authors, 
   authorConfig,
   getAuthorById,
+  getAuthorByName,
   getAllAuthors,
   getAuthorsByExpertise,
   getTopAuthors
@@ -73,6 +73,21 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   }
 
+  // Admins get a cookie that lets them browse the public site during maintenance
+  const startAdminSession = async (userData: AuthUser) => {
+    if (userData.role !== 'admin') return
+
+    try {
+      const token = await userData.getIdToken()
+      await fetch('/api/admin/session', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+      })
+    } catch (error) {
+      console.error('Error starting admin session:', error)
+    }
+  }
+
   const signIn = async (email: string, password: string) => {
     try {
       setError(null)
@@ -102,6 +117,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const signOut = async () => {
     try {
       setError(null)
+      await fetch('/api/admin/session', { method: 'DELETE' }).catch(() => undefined)
       await firebaseSignOut(auth)
       setUser(null)
     } catch (error: any) {
@@ -140,6 +156,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
         
         if (firebaseUser) {
           const userData = await getUserData(firebaseUser)
+          if (userData?.active) {
+            await startAdminSession(userData)
+          }
           setUser(userData)
         } else {
           setUser(null)
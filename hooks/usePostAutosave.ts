@@ -0,0 +1,260 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { deleteLocalDraft, getLocalDraft, getLocalDraftKey, saveLocalDraft } from '@/lib/local-drafts'
+import { PostDraft } from '@/types/admin'
+
+export type AutosaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'offline' | 'error'
+
+// Pause in typing before a draft is saved
+const AUTOSAVE_DELAY = 2000
+
+/**
+ * Autosaves post editor state to the user's server draft slot, keeping an
+ * IndexedDB copy until the server has it. Drafts left from an earlier
+ * session are offered back through recoveredDraft; recoveredDraftOutdated is
+ * set when the post was saved after the draft was started, given the post's
+ * current updatedAt.
+ */
+export function usePostAutosave(postId: string | null, initialValues: object, baseUpdatedAt: string | null = null) {
+  const { user } = useAuth()
+  const [status, setStatus] = useState<AutosaveStatus>('idle')
+  const [savedAt, setSavedAt] = useState<string | null>(null)
+  const [recoveredDraft, setRecoveredDraft] = useState<PostDraft | null>(null)
+  // Nothing is saved until earlier drafts have been checked
+  const [ready, setReady] = useState(false)
+
+  const lastSavedRef = useRef(JSON.stringify(initialValues))
+  const pendingRef = useRef<string | null>(null)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // The running flush, so pausing can wait for its request
+  const flushRef = useRef<Promise<void> | null>(null)
+  // A local copy is waiting for the server
+  const unsyncedRef = useRef(false)
+  // Set while the post itself is being saved, so a late autosave can't
+  // recreate the draft the save clears
+  const stoppedRef = useRef(false)
+
+  const draftUrl = `/api/admin/drafts${postId ? `?postId=${encodeURIComponent(postId)}` : ''}`
+
+  const draftRequest = useCallback(async (init: RequestInit = {}) => {
+    if (!user) throw new Error('Not signed in')
+    const token = await user.getIdToken()
+    const response = await fetch(draftUrl, {
+      ...init,
+      headers: {
+        ...init.headers,
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      }
+    })
+    const result = await response.json()
+    if (!response.ok) {
+      throw new Error(result.error || 'Draft request failed')
+    }
+    return result
+  }, [user, draftUrl])
+
+  // Look for unsaved changes from an earlier session
+  useEffect(() => {
+    if (!user) return
+    let cancelled = false
+
+    const loadDrafts = async () => {
+      const [serverDraft, localDraft] = await Promise.all([
+        draftRequest().then((result) => result.data as PostDraft | null).catch(() => null),
+        getLocalDraft(getLocalDraftKey(user.uid, postId)).catch(() => null)
+      ])
+
+      const latest = [serverDraft, localDraft]
+        .filter((draft): draft is PostDraft => Boolean(draft))
+        .sort((a, b) => new Date(b.savedAt).getTime() - new Date(a.savedAt).getTime())[0]
+
+      if (cancelled) return
+      if (latest && JSON.stringify(latest.data) !== lastSavedRef.current) {
+        setRecoveredDraft(latest)
+      }
+      setReady(true)
+    }
+
+    loadDrafts()
+    return () => {
+      cancelled = true
+    }
+  }, [user, postId, draftRequest])
+
+  const save = useCallback(async (json: string) => {
+    if (!user || stoppedRef.current) return
+
+    const key = getLocalDraftKey(user.uid, postId)
+    const draft: PostDraft = { postId, data: JSON.parse(json), savedAt: new Date().toISOString(), baseUpdatedAt }
+    lastSavedRef.current = json
+    setStatus('saving')
+
+    // Keep a local copy first so nothing is lost if the request fails
+    let savedLocally = false
+    try {
+      await saveLocalDraft(key, draft)
+      savedLocally = true
+    } catch (error) {
+      console.error('Error saving local draft:', error)
+    }
+
+    try {
+      if (!navigator.onLine) throw new Error('Offline')
+      await draftRequest({ method: 'PUT', body: JSON.stringify({ data: draft.data, baseUpdatedAt }) })
+      await deleteLocalDraft(key)
+      unsyncedRef.current = false
+      setStatus('saved')
+    } catch {
+      unsyncedRef.current = savedLocally
+      setStatus(savedLocally ? 'offline' : 'error')
+    }
+    setSavedAt(draft.savedAt)
+  }, [user, postId, baseUpdatedAt, draftRequest])
+
+  const flush = useCallback((): Promise<void> => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+    // A running flush picks up whatever is pending when its save finishes
+    if (!flushRef.current) {
+      flushRef.current = (async () => {
+        while (pendingRef.current && !stoppedRef.current) {
+          const json = pendingRef.current
+          pendingRef.current = null
+          await save(json)
+        }
+      })().finally(() => {
+        flushRef.current = null
+      })
+    }
+    return flushRef.current
+  }, [save])
+
+  /**
+   * Queues the current form values for saving after a pause in typing
+   */
+  const schedule = useCallback((values: object) => {
+    if (!ready || recoveredDraft || stoppedRef.current) return
+
+    const json = JSON.stringify(values)
+    if (json === lastSavedRef.current && !pendingRef.current) return
+
+    pendingRef.current = json
+    setStatus('pending')
+    if (timerRef.current) clearTimeout(timerRef.current)
+    timerRef.current = setTimeout(flush, AUTOSAVE_DELAY)
+  }, [ready, recoveredDraft, flush])
+
+  // Sync local copies when the connection returns, and save before the tab
+  // is hidden or closed
+  useEffect(() => {
+    const handleOnline = () => {
+      if (unsyncedRef.current && !pendingRef.current) {
+        pendingRef.current = lastSavedRef.current
+      }
+      flush()
+    }
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden' && pendingRef.current) flush()
+    }
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      if (!pendingRef.current && !flushRef.current) return
+      flush()
+      event.preventDefault()
+      event.returnValue = ''
+    }
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('beforeunload', handleBeforeUnload)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      if (timerRef.current) clearTimeout(timerRef.current)
+    }
+  }, [flush])
+
+  /**
+   * Accepts the recovered draft and returns its values for the form
+   */
+  const restoreDraft = useCallback((): Record<string, any> | null => {
+    if (!recoveredDraft) return null
+
+    setRecoveredDraft(null)
+    // Bring the server slot up to date if the draft was only saved locally
+    pendingRef.current = JSON.stringify(recoveredDraft.data)
+    flush()
+    return recoveredDraft.data
+  }, [recoveredDraft, flush])
+
+  const discardDraft = useCallback(async () => {
+    setRecoveredDraft(null)
+    if (!user) return
+
+    await Promise.all([
+      draftRequest({ method: 'DELETE' }).catch((error) => console.error('Error discarding draft:', error)),
+      deleteLocalDraft(getLocalDraftKey(user.uid, postId)).catch(() => null)
+    ])
+  }, [user, postId, draftRequest])
+
+  /**
+   * Stops autosaving before the post itself is saved, waiting for a draft
+   * request already in flight so it can't land after the save clears the slot
+   */
+  const pause = useCallback(async () => {
+    stoppedRef.current = true
+    if (timerRef.current) {
+      clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+    await flushRef.current
+  }, [])
+
+  /**
+   * Restarts autosaving when saving the post failed
+   */
+  const resume = useCallback(() => {
+    stoppedRef.current = false
+    if (pendingRef.current) {
+      timerRef.current = setTimeout(flush, AUTOSAVE_DELAY)
+    }
+  }, [flush])
+
+  /**
+   * Drops local drafts once the post has been saved; the server clears its
+   * draft slot as part of that save. Autosave stays paused.
+   */
+  const clearDrafts = useCallback(async () => {
+    stoppedRef.current = true
+    pendingRef.current = null
+    unsyncedRef.current = false
+    if (timerRef.current) clearTimeout(timerRef.current)
+    setStatus('idle')
+
+    if (user) {
+      await deleteLocalDraft(getLocalDraftKey(user.uid, postId)).catch(() => null)
+    }
+  }, [user, postId])
+
+  const recoveredDraftOutdated = Boolean(recoveredDraft) && (recoveredDraft?.baseUpdatedAt || null) !== baseUpdatedAt
+
+  return {
+    status,
+    savedAt,
+    recoveredDraft,
+    recoveredDraftOutdated,
+    schedule,
+    restoreDraft,
+    discardDraft,
+    pause,
+    resume,
+    clearDrafts
+  }
+}
+
+export default usePostAutosave
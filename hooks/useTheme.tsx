@@ -0,0 +1,83 @@
+'use client'
+
+import { useState, useEffect, useContext, createContext, ReactNode } from 'react'
+import { usePathname } from 'next/navigation'
+import { Theme, ResolvedTheme, THEME_STORAGE_KEY, isTheme, isLightOnlyPath, applyTheme } from '@/lib/theme'
+
+interface ThemeContextType {
+  theme: Theme
+  resolvedTheme: ResolvedTheme
+  setTheme: (theme: Theme) => void
+}
+
+const ThemeContext = createContext<ThemeContextType | null>(null)
+
+const DARK_QUERY = '(prefers-color-scheme: dark)'
+
+interface ThemeProviderProps {
+  children: ReactNode
+}
+
+export function ThemeProvider({ children }: ThemeProviderProps) {
+  const pathname = usePathname()
+  const [theme, setThemeState] = useState<Theme>('system')
+  const [systemTheme, setSystemTheme] = useState<ResolvedTheme>('light')
+  // False until the stored preference and OS theme have been read. Until then
+  // the class set by themeInitScript is left alone, so the first effect pass
+  // (still on the 'system'/'light' defaults) can't flash the light theme.
+  const [loaded, setLoaded] = useState(false)
+
+  // Read the stored preference and follow OS changes
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(THEME_STORAGE_KEY)
+      if (isTheme(stored)) {
+        setThemeState(stored)
+      }
+    } catch {
+      // Storage unavailable (private mode, disabled cookies)
+    }
+
+    const media = window.matchMedia(DARK_QUERY)
+    const handleChange = () => setSystemTheme(media.matches ? 'dark' : 'light')
+    handleChange()
+    media.addEventListener('change', handleChange)
+    setLoaded(true)
+
+    return () => media.removeEventListener('change', handleChange)
+  }, [])
+
+  const resolvedTheme: ResolvedTheme = theme === 'system' ? systemTheme : theme
+
+  useEffect(() => {
+    if (!loaded) return
+    applyTheme(isLightOnlyPath(pathname) ? 'light' : resolvedTheme)
+  }, [loaded, resolvedTheme, pathname])
+
+  const setTheme = (next: Theme) => {
+    setThemeState(next)
+    try {
+      if (next === 'system') {
+        localStorage.removeItem(THEME_STORAGE_KEY)
+      } else {
+        localStorage.setItem(THEME_STORAGE_KEY, next)
+      }
+    } catch {
+      // Preference still applies for this visit
+    }
+  }
+
+  return (
+    <ThemeContext.Provider value={{ theme, resolvedTheme, setTheme }}>
+      {children}
+    </ThemeContext.Provider>
+  )
+}
+
+/**
+ * Theme preference, or null when dark mode is disabled and no provider is
+ * mounted
+ */
+export function useTheme(): ThemeContextType | null {
+  return useContext(ThemeContext)
+}
@@ -0,0 +1,9 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // Self-hosted deployments can run scheduled jobs inside the server process
+  // instead of calling /api/cron from an external scheduler
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.CRON_RUNNER === 'in-process') {
+    const { startCronRunner, CRON_JOBS } = await import('@/lib/cron')
+    startCronRunner(CRON_JOBS, process.env.CRON_RUNNER_URL || `http://127.0.0.1:${process.env.PORT || 3000}`)
+  }
+}
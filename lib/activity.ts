@@ -0,0 +1,55 @@
+// Activity log: an append-only record of editorial events (publishes,
+// deletions, ...) shown on the admin dashboard. Server-only.
+import { FieldValue, Transaction } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebase/admin'
+import { toISOString } from '@/lib/utils'
+import { ActivityRow, ActivityType } from '@/types/admin'
+
+export const ACTIVITY_COLLECTION = 'activity'
+
+export interface ActivityInput {
+  type: ActivityType
+  title: string
+  description: string
+  userId: string | null
+  userName: string
+  postId?: string
+}
+
+/**
+ * Records an event. Pass a transaction to write the entry atomically with
+ * the change it describes.
+ */
+export async function logActivity(input: ActivityInput, transaction?: Transaction): Promise<void> {
+  const ref = getAdminDb().collection(ACTIVITY_COLLECTION).doc()
+  const data = { ...input, createdAt: FieldValue.serverTimestamp() }
+
+  if (transaction) {
+    transaction.create(ref, data)
+  } else {
+    await ref.create(data)
+  }
+}
+
+/**
+ * Most recent events, newest first
+ */
+export async function listRecentActivity(limit = 10): Promise<ActivityRow[]> {
+  const snapshot = await getAdminDb()
+    .collection(ACTIVITY_COLLECTION)
+    .orderBy('createdAt', 'desc')
+    .limit(limit)
+    .get()
+
+  return snapshot.docs.map((doc) => {
+    const data = doc.data()
+    return {
+      id: doc.id,
+      type: data.type,
+      title: data.title,
+      description: data.description,
+      user: data.userName,
+      timestamp: toISOString(data.createdAt)
+    }
+  })
+}
@@ -179,6 +179,10 @@ export const withAuthorAuth = withAuth({
   allowedRoles: ['admin', 'editor', 'author'] 
 })
 
+export const withModeratorAuth = withAuth({
+  requiredPermissions: ['posts.moderate']
+})
+
 export const withOwnerOrAdminAuth = withAuth({
   allowedRoles: ['admin', 'editor', 'author'],
   allowOwner: true,
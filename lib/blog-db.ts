@@ -1,8 +1,10 @@
-import { getFirestore, collection, query, where, orderBy, limit as firestoreLimit, getDocs, doc, getDoc } from 'firebase/firestore'
+import { getFirestore, collection, query, where, orderBy, startAfter, limit as firestoreLimit, getDocs, getCountFromServer, doc, getDoc, QueryConstraint, QueryDocumentSnapshot } from 'firebase/firestore'
 import { initializeApp, getApps } from 'firebase/app'
-import { BlogPost, Category } from '@/types/blog'
-import { FirestorePost, FirestoreCategory } from '@/types/admin'
+import { BlogPost, Category, Author, Tag, PostNavigation, PostListFilters, PostListPage, PostSortOption, SearchDocument, SearchFilters, SearchResponse } from '@/types/blog'
+import { FirestorePost, FirestoreCategory, FirestoreUser } from '@/types/admin'
 import { getCachedOrFetch, CACHE_KEYS, CACHE_TTL } from '@/lib/cache'
+import { normalizeTag, normalizeTags, getTagSlug, toOptionalISOString } from '@/lib/utils'
+import { buildSearchDocument, createSearchIndex, searchIndex, SearchIndex } from '@/lib/search'
 
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -17,9 +19,9 @@ const app = getApps().length === 0 ? initializeApp(firebaseConfig) : getApps()[0
 const db = getFirestore(app)
 
 // Convert Firestore post to BlogPost format
-function convertFirestorePostToBlogPost(firestorePost: FirestorePost & { id: string }): BlogPost {
+export function convertFirestorePostToBlogPost(firestorePost: FirestorePost & { id: string }): BlogPost {
   // Convert Firestore timestamp to ISO string
-  const dateField = firestorePost.publishedAt || firestorePost.createdAt
+  const dateField = firestorePost.publishDate || firestorePost.createdAt
   let dateString: string
   
   if (dateField && typeof dateField === 'object' && 'toDate' in dateField) {
@@ -33,6 +35,11 @@ function convertFirestorePostToBlogPost(firestorePost: FirestorePost & { id: str
     dateString = new Date().toISOString()
   }
   
+  const updatedField = firestorePost.updatedAt
+  const updatedAt = updatedField && 'toDate' in updatedField
+    ? updatedField.toDate().toISOString()
+    : updatedField ? new Date(updatedField).toISOString() : undefined
+
   return {
     slug: firestorePost.slug,
     title: firestorePost.title,
@@ -40,17 +47,52 @@ function convertFirestorePostToBlogPost(firestorePost: FirestorePost & { id: str
     content: firestorePost.content,
     excerpt: firestorePost.excerpt,
     date: dateString,
+    updatedAt,
     category: firestorePost.categoryId, // Will need to resolve to category slug
-    tags: firestorePost.tags || [],
-    author: firestorePost.authorId || 'Anonymous', // Fallback for undefined authorId
+    tags: normalizeTags(firestorePost.tags || []),
+    author: 'Anonymous', // Resolved to the author's display name by resolveAuthorName
+    authorId: firestorePost.authorId,
     featured: firestorePost.featured || false,
+    hideTableOfContents: firestorePost.hideTableOfContents || false,
     image: firestorePost.featuredImage?.url || '',
+    imageAlt: firestorePost.featuredImage?.alt || undefined,
+    imageWidth: firestorePost.featuredImage?.width || undefined,
+    imageHeight: firestorePost.featuredImage?.height || undefined,
+    seo: firestorePost.seo ? {
+      metaTitle: firestorePost.seo.metaTitle || undefined,
+      metaDescription: firestorePost.seo.metaDescription || undefined,
+      keywords: firestorePost.seo.keywords || [],
+      ogImage: firestorePost.seo.ogImage || undefined,
+      canonicalUrl: firestorePost.seo.canonicalUrl || undefined,
+      noindex: firestorePost.seo.noindex || false
+    } : undefined,
     readingTime: firestorePost.readingTime || 5,
+    expiresAt: toOptionalISOString(firestorePost.expiresAt) || undefined,
+    expiredAt: toOptionalISOString(firestorePost.expiredAt) || undefined,
     views: firestorePost.views || 0,
     likes: firestorePost.likes || 0
   }
 }
 
+// Convert Firestore user to the public Author profile format
+function convertFirestoreUserToAuthor(uid: string, firestoreUser: FirestoreUser): Author {
+  const joinDate = firestoreUser.joinDate || firestoreUser.createdAt
+  const role = firestoreUser.role || 'author'
+
+  return {
+    id: uid,
+    name: firestoreUser.displayName || 'Anonymous',
+    bio: firestoreUser.bio || '',
+    avatar: firestoreUser.avatar || '',
+    role: role.charAt(0).toUpperCase() + role.slice(1),
+    expertise: firestoreUser.expertise || [],
+    social: firestoreUser.social || {},
+    joinDate: joinDate && 'toDate' in joinDate ? joinDate.toDate().toISOString() : new Date(joinDate || Date.now()).toISOString(),
+    articleCount: firestoreUser.postsCount || 0,
+    verified: firestoreUser.active !== false
+  }
+}
+
 // Convert Firestore category to Category format
 function convertFirestoreCategoryToCategory(firestoreCategory: FirestoreCategory & { id: string }, postCount: number = 0): Category {
   return {
@@ -63,6 +105,33 @@ function convertFirestoreCategoryToCategory(firestoreCategory: FirestoreCategory
   }
 }
 
+// Resolve a post's authorId to the author's display name
+async function resolveAuthorName(authorId?: string): Promise<string> {
+  if (!authorId) {
+    return 'Anonymous'
+  }
+
+  const author = await getAuthorByIdFromDB(authorId)
+  return author?.name || 'Anonymous'
+}
+
+// Convert a published post document, resolving its author name and category slug
+async function resolvePostDoc(docSnap: QueryDocumentSnapshot): Promise<BlogPost> {
+  const postData = { id: docSnap.id, ...docSnap.data() } as FirestorePost & { id: string }
+  const blogPost = convertFirestorePostToBlogPost(postData)
+  blogPost.author = await resolveAuthorName(postData.authorId)
+
+  if (postData.categoryId) {
+    const categoryDoc = await getDoc(doc(db, 'categories', postData.categoryId))
+    if (categoryDoc.exists()) {
+      const categoryData = categoryDoc.data() as FirestoreCategory
+      blogPost.category = categoryData.slug
+    }
+  }
+
+  return blogPost
+}
+
 export async function getAllPostsFromDB(): Promise<BlogPost[]> {
   return getCachedOrFetch(
     CACHE_KEYS.ALL_POSTS,
@@ -81,6 +150,7 @@ export async function getAllPostsFromDB(): Promise<BlogPost[]> {
         for (const docSnap of querySnapshot.docs) {
           const postData = { id: docSnap.id, ...docSnap.data() } as FirestorePost & { id: string }
           const blogPost = convertFirestorePostToBlogPost(postData)
+          blogPost.author = await resolveAuthorName(postData.authorId)
           
           // Resolve category slug
           if (postData.categoryId) {
@@ -129,6 +199,7 @@ export async function getPostBySlugFromDB(slug: string): Promise<BlogPost | null
         const docSnap = querySnapshot.docs[0]
         const postData = { id: docSnap.id, ...docSnap.data() } as FirestorePost & { id: string }
         const blogPost = convertFirestorePostToBlogPost(postData)
+        blogPost.author = await resolveAuthorName(postData.authorId)
         
         // Resolve category slug
         if (postData.categoryId) {
@@ -149,6 +220,197 @@ export async function getPostBySlugFromDB(slug: string): Promise<BlogPost | null
   )
 }
 
+// Firestore field and direction behind each listing sort option
+const POST_SORT_ORDER: Record<PostSortOption, [string, 'asc' | 'desc']> = {
+  recent: ['publishDate', 'desc'],
+  oldest: ['publishDate', 'asc'],
+  popular: ['views', 'desc'],
+  title: ['title', 'asc']
+}
+
+// Query constraints for the listing filters, or null when a filter matches nothing
+async function getPostListConstraints(filters: PostListFilters): Promise<QueryConstraint[] | null> {
+  const constraints: QueryConstraint[] = [where('status', '==', 'published')]
+
+  if (filters.featured) {
+    constraints.push(where('featured', '==', true))
+  }
+
+  if (filters.category) {
+    const categorySnapshot = await getDocs(query(
+      collection(db, 'categories'),
+      where('slug', '==', filters.category),
+      where('active', '==', true),
+      firestoreLimit(1)
+    ))
+    if (categorySnapshot.empty) {
+      return null
+    }
+    constraints.push(where('categoryId', '==', categorySnapshot.docs[0].id))
+  }
+
+  if (filters.tag) {
+    // Tags are stored by their normalized name, the URL carries the slug. Posts
+    // saved before tags were normalized need `npm run migrate:tags` to match.
+    const tag = await getTagBySlugFromDB(filters.tag)
+    if (!tag) {
+      return null
+    }
+    constraints.push(where('tags', 'array-contains', tag.name))
+  }
+
+  return constraints
+}
+
+// Number of published posts matching the listing filters
+function getPostListCountFromDB(filters: PostListFilters): Promise<number> {
+  return getCachedOrFetch(
+    CACHE_KEYS.POSTS_COUNT(JSON.stringify(filters)),
+    async () => {
+      const constraints = await getPostListConstraints(filters)
+      if (!constraints) {
+        return 0
+      }
+      const countSnapshot = await getCountFromServer(query(collection(db, 'posts'), ...constraints))
+      return countSnapshot.data().count
+    },
+    CACHE_TTL.SHORT
+  )
+}
+
+async function fetchPostsPage(
+  filters: PostListFilters,
+  { page, cursor, pageSize }: { page: number; cursor?: string; pageSize: number },
+  total: number
+): Promise<PostListPage> {
+  const constraints = await getPostListConstraints(filters)
+  if (!constraints) {
+    return { posts: [], nextCursor: null, total: 0 }
+  }
+
+  const postsCollection = collection(db, 'posts')
+  const [sortField, sortDirection] = POST_SORT_ORDER[filters.sort || 'recent']
+  const ordering = orderBy(sortField, sortDirection)
+
+  let docs: QueryDocumentSnapshot[]
+  if (cursor) {
+    const cursorDoc = await getDoc(doc(db, 'posts', cursor))
+    if (!cursorDoc.exists()) {
+      return { posts: [], nextCursor: null, total }
+    }
+    const snapshot = await getDocs(query(
+      postsCollection, ...constraints, ordering, startAfter(cursorDoc), firestoreLimit(pageSize + 1)
+    ))
+    docs = snapshot.docs
+  } else {
+    // The client SDK has no offset, so read through the end of the requested page
+    const snapshot = await getDocs(query(
+      postsCollection, ...constraints, ordering, firestoreLimit(page * pageSize + 1)
+    ))
+    docs = snapshot.docs.slice((page - 1) * pageSize)
+  }
+
+  // One extra document is fetched to know whether another page follows
+  const pageDocs = docs.slice(0, pageSize)
+  const posts = await Promise.all(pageDocs.map(resolvePostDoc))
+
+  return {
+    posts,
+    nextCursor: docs.length > pageSize ? pageDocs[pageDocs.length - 1].id : null,
+    total
+  }
+}
+
+/**
+ * One page of the post listing, queried with Firestore cursors. Pass `cursor`
+ * (a post id from a previous page's nextCursor) to continue after it, as the
+ * load-more button does, or `page` for numbered pages. The matching posts are
+ * counted first, so a page past the last one returns no posts without reading
+ * any documents. Only numbered pages are cached; cursors come straight from
+ * the query string.
+ */
+export async function getPostsPageFromDB(
+  filters: PostListFilters,
+  { page = 1, cursor, pageSize }: { page?: number; cursor?: string; pageSize: number }
+): Promise<PostListPage> {
+  try {
+    const total = await getPostListCountFromDB(filters)
+    if (total === 0 || (!cursor && page > Math.ceil(total / pageSize))) {
+      return { posts: [], nextCursor: null, total }
+    }
+
+    if (cursor) {
+      return await fetchPostsPage(filters, { page, cursor, pageSize }, total)
+    }
+
+    return await getCachedOrFetch(
+      CACHE_KEYS.POSTS_PAGE(JSON.stringify({ ...filters, page, pageSize })),
+      () => fetchPostsPage(filters, { page, pageSize }, total),
+      CACHE_TTL.SHORT
+    )
+  } catch (error) {
+    console.error('Error fetching posts page from database:', error)
+    return { posts: [], nextCursor: null, total: 0 }
+  }
+}
+
+/**
+ * Chronological neighbours of a published post, optionally limited to its
+ * category. Each side is a single ordered Firestore query starting after the
+ * post, so only the two neighbouring documents are read. Returns null when
+ * the post isn't in Firestore.
+ */
+export async function getPostNavigationFromDB(
+  slug: string,
+  { withinCategory = false }: { withinCategory?: boolean } = {}
+): Promise<PostNavigation | null> {
+  return getCachedOrFetch(
+    CACHE_KEYS.POST_NAVIGATION(slug, withinCategory ? 'category' : 'all'),
+    async () => {
+      try {
+        const postsCollection = collection(db, 'posts')
+        const postSnapshot = await getDocs(query(
+          postsCollection,
+          where('slug', '==', slug),
+          where('status', '==', 'published'),
+          firestoreLimit(1)
+        ))
+
+        if (postSnapshot.empty) {
+          return null
+        }
+
+        const postDoc = postSnapshot.docs[0]
+        const post = postDoc.data() as FirestorePost
+        const filters: QueryConstraint[] = [where('status', '==', 'published')]
+        if (withinCategory && post.categoryId) {
+          filters.push(where('categoryId', '==', post.categoryId))
+        }
+
+        const [previousSnapshot, nextSnapshot] = await Promise.all([
+          getDocs(query(postsCollection, ...filters, orderBy('publishDate', 'desc'), startAfter(postDoc), firestoreLimit(1))),
+          getDocs(query(postsCollection, ...filters, orderBy('publishDate', 'asc'), startAfter(postDoc), firestoreLimit(1)))
+        ])
+
+        const toLink = (docs: typeof previousSnapshot.docs) => {
+          if (docs.length === 0) return undefined
+          const data = docs[0].data() as FirestorePost
+          return { slug: data.slug, title: data.title }
+        }
+
+        return {
+          previous: toLink(previousSnapshot.docs),
+          next: toLink(nextSnapshot.docs)
+        }
+      } catch (error) {
+        console.error(`Error fetching navigation for post ${slug}:`, error)
+        return null
+      }
+    },
+    CACHE_TTL.MEDIUM
+  )
+}
+
 export async function getPostsByCategoryFromDB(categorySlug: string): Promise<BlogPost[]> {
   try {
     // First, find the category by slug
@@ -182,6 +444,7 @@ export async function getPostsByCategoryFromDB(categorySlug: string): Promise<Bl
     for (const docSnap of postsSnapshot.docs) {
       const postData = { id: docSnap.id, ...docSnap.data() } as FirestorePost & { id: string }
       const blogPost = convertFirestorePostToBlogPost(postData)
+      blogPost.author = await resolveAuthorName(postData.authorId)
       blogPost.category = categorySlug // We already know the category slug
       posts.push(blogPost)
     }
@@ -215,6 +478,7 @@ export async function getFeaturedPostsFromDB(): Promise<BlogPost[]> {
         for (const docSnap of querySnapshot.docs) {
           const postData = { id: docSnap.id, ...docSnap.data() } as FirestorePost & { id: string }
           const blogPost = convertFirestorePostToBlogPost(postData)
+          blogPost.author = await resolveAuthorName(postData.authorId)
           
           // Resolve category slug
           if (postData.categoryId) {
@@ -260,6 +524,7 @@ export async function getLatestPostsFromDB(limitCount: number = 6): Promise<Blog
         for (const docSnap of querySnapshot.docs) {
           const postData = { id: docSnap.id, ...docSnap.data() } as FirestorePost & { id: string }
           const blogPost = convertFirestorePostToBlogPost(postData)
+          blogPost.author = await resolveAuthorName(postData.authorId)
           
           // Resolve category slug
           if (postData.categoryId) {
@@ -386,7 +651,7 @@ export async function getAllTagsFromDB(): Promise<string[]> {
     querySnapshot.forEach(doc => {
       const post = doc.data() as FirestorePost
       if (post.tags) {
-        post.tags.forEach(tag => tagSet.add(tag))
+        normalizeTags(post.tags).forEach(tag => tagSet.add(tag))
       }
     })
     
@@ -397,49 +662,146 @@ export async function getAllTagsFromDB(): Promise<string[]> {
   }
 }
 
-export async function searchPostsFromDB(searchQuery: string): Promise<BlogPost[]> {
-  try {
-    const postsCollection = collection(db, 'posts')
-    const q = query(
-      postsCollection,
-      where('status', '==', 'published')
-      // orderBy('publishedAt', 'desc') - Temporarily removed, sorting in JS below
-    )
-    
-    const querySnapshot = await getDocs(q)
-    const posts: BlogPost[] = []
-    const searchTerm = searchQuery.toLowerCase()
-    
-    for (const docSnap of querySnapshot.docs) {
-      const postData = { id: docSnap.id, ...docSnap.data() } as FirestorePost & { id: string }
-      
-      // Filter posts based on search term
-      const matchesTitle = postData.title.toLowerCase().includes(searchTerm)
-      const matchesDescription = postData.description.toLowerCase().includes(searchTerm)
-      const matchesTags = postData.tags?.some(tag => tag.toLowerCase().includes(searchTerm)) || false
-      
-      if (matchesTitle || matchesDescription || matchesTags) {
-        const blogPost = convertFirestorePostToBlogPost(postData)
-        
-        // Resolve category slug
-        if (postData.categoryId) {
-          const categoryDoc = await getDoc(doc(db, 'categories', postData.categoryId))
-          if (categoryDoc.exists()) {
-            const categoryData = categoryDoc.data() as FirestoreCategory
-            blogPost.category = categoryData.slug
+export async function getTagsWithCountsFromDB(): Promise<Tag[]> {
+  return getCachedOrFetch(
+    CACHE_KEYS.ALL_TAGS,
+    async () => {
+      const posts = await getAllPostsFromDB()
+      const tagMap = new Map<string, Tag>()
+
+      for (const post of posts) {
+        for (const tag of post.tags) {
+          const slug = getTagSlug(tag)
+          const existing = tagMap.get(slug)
+
+          if (existing) {
+            existing.postCount++
+          } else {
+            tagMap.set(slug, { name: normalizeTag(tag), slug, postCount: 1 })
           }
         }
-        
-        posts.push(blogPost)
       }
-    }
-    
-    // Sort by publishedAt descending since we removed orderBy from query
-    posts.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-    
-    return posts
-  } catch (error) {
-    console.error('Error searching posts from database:', error)
-    return []
-  }
+
+      // Most used first, alphabetical within the same count
+      return Array.from(tagMap.values()).sort(
+        (a, b) => b.postCount - a.postCount || a.name.localeCompare(b.name)
+      )
+    },
+    CACHE_TTL.MEDIUM
+  )
+}
+
+export async function getTagBySlugFromDB(tagSlug: string): Promise<Tag | null> {
+  const tags = await getTagsWithCountsFromDB()
+  return tags.find(tag => tag.slug === tagSlug) || null
+}
+
+export async function getPostsByTagFromDB(tagSlug: string): Promise<BlogPost[]> {
+  // Tags are matched by slug so "Car Insurance", "car insurance" and "car-insurance" share a page
+  const posts = await getAllPostsFromDB()
+  return posts.filter(post => post.tags.some(tag => getTagSlug(tag) === tagSlug))
+}
+
+// The index is maintained by lib/search-index.ts when posts are saved in the admin
+async function getSearchIndexFromDB(): Promise<SearchIndex> {
+  return getCachedOrFetch(
+    CACHE_KEYS.SEARCH_INDEX,
+    async () => {
+      try {
+        const [querySnapshot, countSnapshot] = await Promise.all([
+          getDocs(collection(db, 'searchIndex')),
+          getCountFromServer(query(collection(db, 'posts'), where('status', '==', 'published')))
+        ])
+        const documents = querySnapshot.docs.map(docSnap => docSnap.data() as SearchDocument)
+
+        // Saving a post only indexes that post, so an index that hasn't been
+        // rebuilt since can be missing older ones
+        if (documents.length > 0 && documents.length >= countSnapshot.data().count) {
+          return createSearchIndex(documents)
+        }
+      } catch (error) {
+        console.error('Error fetching search index from database:', error)
+      }
+
+      // Not built yet, incomplete or unreachable: index the published posts directly
+      const posts = await getAllPostsFromDB()
+      return createSearchIndex(posts.map(post => buildSearchDocument(post)))
+    },
+    CACHE_TTL.MEDIUM
+  )
+}
+
+export async function searchPostsFromDB(filters: SearchFilters): Promise<SearchResponse> {
+  const index = await getSearchIndexFromDB()
+  return searchIndex(index, filters)
+}
+
+export async function getAuthorByIdFromDB(authorId: string): Promise<Author | null> {
+  return getCachedOrFetch(
+    CACHE_KEYS.AUTHOR_BY_ID(authorId),
+    async () => {
+      try {
+        // User profiles aren't publicly readable, so they are looked up with the Admin SDK
+        const { getAdminDb } = await import('@/lib/firebase/admin')
+        const userDoc = await getAdminDb().collection('users').doc(authorId).get()
+
+        if (!userDoc.exists) {
+          return null
+        }
+
+        const userData = userDoc.data() as FirestoreUser
+        return convertFirestoreUserToAuthor(userDoc.id, userData)
+      } catch (error) {
+        console.error(`Error fetching author ${authorId} from database:`, error)
+        return null
+      }
+    },
+    CACHE_TTL.LONG
+  )
+}
+
+export async function getPostsByAuthorFromDB(authorId: string): Promise<BlogPost[]> {
+  return getCachedOrFetch(
+    CACHE_KEYS.POSTS_BY_AUTHOR(authorId),
+    async () => {
+      try {
+        const postsCollection = collection(db, 'posts')
+        const q = query(
+          postsCollection,
+          where('authorId', '==', authorId),
+          where('status', '==', 'published')
+        )
+
+        const querySnapshot = await getDocs(q)
+        const posts: BlogPost[] = []
+        const authorName = await resolveAuthorName(authorId)
+
+        for (const docSnap of querySnapshot.docs) {
+          const postData = { id: docSnap.id, ...docSnap.data() } as FirestorePost & { id: string }
+          const blogPost = convertFirestorePostToBlogPost(postData)
+          blogPost.author = authorName
+
+          // Resolve category slug
+          if (postData.categoryId) {
+            const categoryDoc = await getDoc(doc(db, 'categories', postData.categoryId))
+            if (categoryDoc.exists()) {
+              const categoryData = categoryDoc.data() as FirestoreCategory
+              blogPost.category = categoryData.slug
+            }
+          }
+
+          posts.push(blogPost)
+        }
+
+        // Sort by publishedAt descending
+        posts.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+
+        return posts
+      } catch (error) {
+        console.error(`Error fetching posts for author ${authorId}:`, error)
+        return []
+      }
+    },
+    CACHE_TTL.MEDIUM
+  )
 }
\ No newline at end of file
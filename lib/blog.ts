@@ -1,7 +1,7 @@
 import fs from 'fs'
 import path from 'path'
 import matter from 'gray-matter'
-import { BlogPost, Category } from '@/types/blog'
+import { BlogPost, Category, PostNavigation } from '@/types/blog'
 import { categoryConfigs } from '@/data'
 
 const postsDirectory = path.join(process.cwd(), 'content/posts')
@@ -79,6 +79,28 @@ export function getPostsByCategory(category: string): BlogPost[] {
   return allPosts.filter(post => post.category === category)
 }
 
+export function getPostNavigation(slug: string, withinCategory: boolean = false): PostNavigation {
+  const allPosts = getAllPosts()
+  const current = allPosts.find(post => post.slug === slug)
+  const posts = withinCategory && current
+    ? allPosts.filter(post => post.category === current.category)
+    : allPosts
+  const index = posts.findIndex(post => post.slug === slug)
+
+  if (index === -1) {
+    return {}
+  }
+
+  // Posts are sorted newest first
+  const previous = posts[index + 1]
+  const next = posts[index - 1]
+
+  return {
+    previous: previous ? { slug: previous.slug, title: previous.title } : undefined,
+    next: next ? { slug: next.slug, title: next.title } : undefined
+  }
+}
+
 export function getFeaturedPosts(): BlogPost[] {
   const allPosts = getAllPosts()
   return allPosts.filter(post => post.featured)
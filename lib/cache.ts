@@ -36,6 +36,15 @@ class SimpleCache {
     this.cache.delete(key)
   }
 
+  // Drop every entry whose key starts with prefix, e.g. 'blog:'
+  deleteByPrefix(prefix: string): void {
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(prefix)) {
+        this.cache.delete(key)
+      }
+    }
+  }
+
   clear(): void {
     this.cache.clear()
   }
@@ -84,9 +93,16 @@ export const CACHE_KEYS = {
   FEATURED_POSTS: 'blog:posts:featured',
   LATEST_POSTS: (limit: number) => `blog:posts:latest:${limit}`,
   POSTS_BY_CATEGORY: (slug: string) => `blog:posts:category:${slug}`,
+  POSTS_PAGE: (key: string) => `blog:posts:page:${key}`,
+  POSTS_COUNT: (key: string) => `blog:posts:count:${key}`,
   CATEGORY_BY_SLUG: (slug: string) => `blog:category:${slug}`,
   POST_BY_SLUG: (slug: string) => `blog:post:${slug}`,
+  POST_NAVIGATION: (slug: string, scope: string) => `blog:post:${slug}:navigation:${scope}`,
+  AUTHOR_BY_ID: (id: string) => `blog:author:${id}`,
+  POSTS_BY_AUTHOR: (id: string) => `blog:posts:author:${id}`,
   ALL_TAGS: 'blog:tags:all',
+  SEARCH_INDEX: 'blog:search:index',
+  RELATED_POSTS: (slug: string, count: number) => `blog:posts:related:${slug}:${count}`,
   SITE_STATS: 'site:stats'
 }
 
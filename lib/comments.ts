@@ -0,0 +1,320 @@
+// Reader comments: validation, spam heuristics, threading and author
+// notifications. Server-only; comments are read and written through the
+// Admin SDK so Firestore rules can keep the collection closed.
+import { createHash } from 'crypto'
+import { FieldValue, Query, Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebase/admin'
+import { StatusError } from '@/lib/errors'
+import { toISOString } from '@/lib/utils'
+import { hasPermission } from '@/lib/auth/permissions'
+import { Comment, CommentInput } from '@/types/blog'
+import { CommentFilters, CommentStatus, FirestoreComment } from '@/types/admin'
+
+export const COMMENTS_COLLECTION = 'comments'
+export const NOTIFICATIONS_COLLECTION = 'notifications'
+// Per-IP submission counters; expiresAt can drive a Firestore TTL policy
+export const COMMENT_RATE_LIMITS_COLLECTION = 'comment_rate_limits'
+
+export const COMMENT_STATUSES: CommentStatus[] = ['pending', 'approved', 'spam', 'rejected']
+
+export const MAX_COMMENT_LENGTH = 5000
+export const MAX_AUTHOR_NAME_LENGTH = 80
+// Comments with more links than this go straight to spam
+export const MAX_COMMENT_LINKS = 2
+// Replies to comments at the deepest level join that level instead
+export const MAX_COMMENT_DEPTH = 3
+
+// At most RATE_LIMIT_MAX comments per IP within RATE_LIMIT_WINDOW
+const RATE_LIMIT_WINDOW = 10 * 60 * 1000 // 10 minutes
+const RATE_LIMIT_MAX = 3
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+/gi
+
+export class CommentError extends StatusError {
+  name = 'CommentError'
+}
+
+export interface CommentContext {
+  post: { slug: string; title: string; authorId?: string }
+  // null when the request didn't come through the proxy
+  ip: string | null
+  userAgent: string
+}
+
+export function hashIp(ip: string): string {
+  return createHash('sha256').update(ip).digest('hex')
+}
+
+export function countLinks(text: string): number {
+  return text.match(LINK_PATTERN)?.length || 0
+}
+
+/**
+ * Trims and validates a submission. Throws a CommentError describing the
+ * first invalid field.
+ */
+export function validateCommentInput(body: any): CommentInput {
+  const authorName = typeof body?.authorName === 'string' ? body.authorName.trim() : ''
+  const authorEmail = typeof body?.authorEmail === 'string' ? body.authorEmail.trim().toLowerCase() : ''
+  const content = typeof body?.content === 'string' ? body.content.trim() : ''
+  const parentId = typeof body?.parentId === 'string' && body.parentId ? body.parentId : null
+
+  if (!authorName || authorName.length > MAX_AUTHOR_NAME_LENGTH) {
+    throw new CommentError(`Name is required and must be at most ${MAX_AUTHOR_NAME_LENGTH} characters`)
+  }
+
+  if (!EMAIL_PATTERN.test(authorEmail)) {
+    throw new CommentError('A valid email address is required')
+  }
+
+  if (content.length < 2 || content.length > MAX_COMMENT_LENGTH) {
+    throw new CommentError(`Comment must be between 2 and ${MAX_COMMENT_LENGTH} characters`)
+  }
+
+  return {
+    authorName,
+    authorEmail,
+    content,
+    parentId,
+    website: typeof body?.website === 'string' ? body.website : ''
+  }
+}
+
+/**
+ * Reasons a submission looks like spam; empty when it looks legitimate
+ */
+export function detectSpam(input: CommentInput): string[] {
+  const reasons: string[] = []
+
+  if (input.website && input.website.trim()) {
+    reasons.push('honeypot')
+  }
+
+  if (countLinks(input.content) > MAX_COMMENT_LINKS) {
+    reasons.push('too-many-links')
+  }
+
+  if (countLinks(input.authorName) > 0) {
+    reasons.push('link-in-name')
+  }
+
+  return reasons
+}
+
+/**
+ * Counts a submission against the IP's current window; true when the window
+ * is already full. The counter is read and written in one transaction so
+ * parallel requests can't all slip under the limit.
+ */
+async function isRateLimited(ipHash: string): Promise<boolean> {
+  const db = getAdminDb()
+  const window = Math.floor(Date.now() / RATE_LIMIT_WINDOW)
+  const ref = db.collection(COMMENT_RATE_LIMITS_COLLECTION).doc(`${ipHash}_${window}`)
+
+  return db.runTransaction(async (transaction) => {
+    const count: number = (await transaction.get(ref)).data()?.count || 0
+    if (count >= RATE_LIMIT_MAX) {
+      return true
+    }
+
+    transaction.set(ref, {
+      count: count + 1,
+      expiresAt: Timestamp.fromMillis((window + 1) * RATE_LIMIT_WINDOW)
+    })
+    return false
+  })
+}
+
+/**
+ * Tells the post's author about a comment awaiting moderation. Authors who
+ * can moderate are linked to the queue, the rest to their post's comments.
+ */
+async function notifyPostAuthor(
+  comment: Pick<FirestoreComment, 'postAuthorId' | 'postSlug' | 'postTitle' | 'authorName' | 'content'>
+): Promise<void> {
+  if (!comment.postAuthorId) return
+
+  const author = (await getAdminDb().collection('users').doc(comment.postAuthorId).get()).data()
+  if (!author?.active) return
+
+  const canModerate = hasPermission(author.permissions || [], 'posts.moderate')
+  const excerpt = comment.content.length > 120
+    ? `${comment.content.slice(0, 117)}...`
+    : comment.content
+
+  await getAdminDb().collection(NOTIFICATIONS_COLLECTION).add({
+    userId: comment.postAuthorId,
+    type: 'comment',
+    title: `New comment on "${comment.postTitle}"`,
+    message: `${comment.authorName}: ${excerpt}`,
+    link: canModerate ? '/admin/comments?status=pending' : `/blog/${comment.postSlug}#comments`,
+    read: false,
+    createdAt: FieldValue.serverTimestamp()
+  })
+}
+
+/**
+ * Stores a submission for moderation. Spam is kept (for review) but never
+ * reported back to the client as such, so bots get no signal.
+ */
+export async function submitComment(input: CommentInput, context: CommentContext): Promise<CommentStatus> {
+  const db = getAdminDb()
+  // Without an IP every visitor would share one limit, so fall back to the
+  // user agent to keep unrelated readers apart
+  const ipHash = hashIp(context.ip || `unknown:${context.userAgent}`)
+
+  let parentId: string | null = null
+  let depth = 0
+
+  if (input.parentId) {
+    const parentDoc = await db.collection(COMMENTS_COLLECTION).doc(input.parentId).get()
+    const parent = parentDoc.data() as FirestoreComment | undefined
+
+    if (!parent || parent.postSlug !== context.post.slug || parent.status !== 'approved') {
+      throw new CommentError('The comment you are replying to is not available')
+    }
+
+    if (parent.depth >= MAX_COMMENT_DEPTH - 1) {
+      parentId = parent.parentId
+      depth = parent.depth
+    } else {
+      parentId = parentDoc.id
+      depth = parent.depth + 1
+    }
+  }
+
+  // Checked after the reply target so a bad request doesn't use up the limit
+  if (await isRateLimited(ipHash)) {
+    throw new CommentError("You're commenting too quickly. Please try again in a few minutes.", 429)
+  }
+
+  const spamReasons = detectSpam(input)
+  const status: CommentStatus = spamReasons.length > 0 ? 'spam' : 'pending'
+
+  const comment = {
+    postSlug: context.post.slug,
+    postTitle: context.post.title,
+    ...(context.post.authorId && { postAuthorId: context.post.authorId }),
+    parentId,
+    depth,
+    authorName: input.authorName,
+    authorEmail: input.authorEmail,
+    content: input.content,
+    status,
+    spamReasons,
+    ipHash,
+    userAgent: context.userAgent.slice(0, 300),
+    createdAt: FieldValue.serverTimestamp()
+  }
+
+  await db.collection(COMMENTS_COLLECTION).add(comment)
+
+  if (status === 'pending') {
+    await notifyPostAuthor(comment).catch((error) => {
+      console.error('Error notifying post author:', error)
+    })
+  }
+
+  return status
+}
+
+/**
+ * Nests a flat, oldest-first list of comments under their parents. Replies
+ * whose parent is not in the list (e.g. not approved) are dropped.
+ */
+export function buildCommentTree(comments: Comment[]): Comment[] {
+  const byId = new Map(comments.map((comment) => [comment.id, { ...comment, replies: [] as Comment[] }]))
+  const roots: Comment[] = []
+
+  byId.forEach((comment) => {
+    if (!comment.parentId) {
+      roots.push(comment)
+      return
+    }
+    byId.get(comment.parentId)?.replies.push(comment)
+  })
+
+  return roots
+}
+
+/**
+ * Approved comments for a post, threaded
+ */
+export async function getApprovedComments(postSlug: string): Promise<Comment[]> {
+  const snapshot = await getAdminDb()
+    .collection(COMMENTS_COLLECTION)
+    .where('postSlug', '==', postSlug)
+    .where('status', '==', 'approved')
+    .orderBy('createdAt', 'asc')
+    .get()
+
+  return buildCommentTree(snapshot.docs.map((doc) => {
+    const data = doc.data()
+    return {
+      id: doc.id,
+      parentId: data.parentId || null,
+      authorName: data.authorName,
+      content: data.content,
+      date: toISOString(data.createdAt),
+      replies: []
+    }
+  }))
+}
+
+export function serializeComment(id: string, data: any) {
+  return {
+    ...data,
+    id,
+    createdAt: toISOString(data.createdAt),
+    moderatedAt: data.moderatedAt ? toISOString(data.moderatedAt) : null
+  }
+}
+
+/**
+ * Newest-first comments for the moderation queue
+ */
+export async function listComments(filters: CommentFilters = {}, limit = 100) {
+  let query: Query = getAdminDb().collection(COMMENTS_COLLECTION)
+
+  if (filters.status) {
+    query = query.where('status', '==', filters.status)
+  }
+  if (filters.postSlug) {
+    query = query.where('postSlug', '==', filters.postSlug)
+  }
+
+  const snapshot = await query.orderBy('createdAt', 'desc').limit(limit).get()
+  return snapshot.docs.map((doc) => serializeComment(doc.id, doc.data()))
+}
+
+export async function countCommentsByStatus(): Promise<Record<CommentStatus, number>> {
+  const collection = getAdminDb().collection(COMMENTS_COLLECTION)
+  const counts = await Promise.all(
+    COMMENT_STATUSES.map((status) => collection.where('status', '==', status).count().get())
+  )
+
+  return COMMENT_STATUSES.reduce((result, status, index) => {
+    result[status] = counts[index].data().count
+    return result
+  }, {} as Record<CommentStatus, number>)
+}
+
+/**
+ * Deletes a comment together with its replies
+ */
+export async function deleteCommentThread(id: string): Promise<number> {
+  const db = getAdminDb()
+  const ids = [id]
+
+  for (let i = 0; i < ids.length; i++) {
+    const replies = await db.collection(COMMENTS_COLLECTION).where('parentId', '==', ids[i]).get()
+    replies.docs.forEach((doc) => ids.push(doc.id))
+  }
+
+  const batch = db.batch()
+  ids.forEach((commentId) => batch.delete(db.collection(COMMENTS_COLLECTION).doc(commentId)))
+  await batch.commit()
+
+  return ids.length
+}
@@ -0,0 +1,77 @@
+// Shared guard for scheduled-job routes under /api/cron
+import { NextRequest } from 'next/server'
+import { timingSafeEqual } from 'crypto'
+
+/**
+ * True when the request carries `Authorization: Bearer <CRON_SECRET>`, the
+ * header hosted schedulers (e.g. Vercel Cron) send. Always false when
+ * CRON_SECRET is not configured.
+ */
+export function isAuthorizedCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  const header = request.headers.get('authorization') || ''
+
+  if (!secret || !header.startsWith('Bearer ')) {
+    return false
+  }
+
+  const expected = Buffer.from(secret)
+  const received = Buffer.from(header.substring(7))
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+export interface CronJob {
+  // Route under /api/cron
+  path: string
+  intervalSeconds: number
+}
+
+// Jobs the in-process runner calls; hosted schedulers should mirror these
+export const CRON_JOBS: CronJob[] = [
+  { path: '/api/cron/publish', intervalSeconds: 60 },
+  { path: '/api/cron/stats', intervalSeconds: 60 * 60 },
+  // Sends a chunk of any unfinished digest; a new digest only starts weekly
+  { path: '/api/cron/digest', intervalSeconds: 15 * 60 }
+]
+
+/**
+ * In-process scheduler for self-hosted deployments without an external
+ * cron. Calls each job's route on its interval, so jobs run with the same
+ * auth and request context (cache revalidation) as hosted cron. A job is
+ * skipped while its previous run is still in flight.
+ */
+export function startCronRunner(jobs: CronJob[], baseUrl: string): void {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    console.warn('Cron runner not started: CRON_SECRET is not set')
+    return
+  }
+
+  jobs.forEach((job) => {
+    let running = false
+
+    const run = async () => {
+      if (running) return
+      running = true
+      try {
+        const response = await fetch(`${baseUrl}${job.path}`, {
+          headers: { 'Authorization': `Bearer ${secret}` },
+          signal: AbortSignal.timeout(job.intervalSeconds * 1000)
+        })
+        if (!response.ok) {
+          console.error(`Cron job ${job.path} failed with status ${response.status}`)
+        }
+      } catch (error) {
+        console.error(`Cron job ${job.path} failed:`, error)
+      } finally {
+        running = false
+      }
+    }
+
+    // Don't keep the process alive just for the timers
+    setInterval(run, job.intervalSeconds * 1000).unref()
+  })
+
+  console.log(`Cron runner started: ${jobs.map((job) => job.path).join(', ')}`)
+}
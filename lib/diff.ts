@@ -0,0 +1,139 @@
+// Word-level text diff (Myers' algorithm) for comparing post revisions.
+// Runs in the browser as well as on the server.
+
+export type DiffPartType = 'equal' | 'added' | 'removed'
+
+export interface DiffPart {
+  type: DiffPartType
+  value: string
+}
+
+// Beyond this many changed words the texts are shown as fully replaced, which
+// keeps memory bounded for unrelated texts
+const MAX_EDIT_DISTANCE = 2000
+
+// Words with their trailing whitespace, so changes read naturally
+function tokenize(text: string): string[] {
+  return text.match(/\s+|\S+\s*/g) || []
+}
+
+function appendPart(parts: DiffPart[], type: DiffPartType, value: string) {
+  if (!value) return
+
+  const last = parts[parts.length - 1]
+  if (last && last.type === type) {
+    last.value += value
+  } else {
+    parts.push({ type, value })
+  }
+}
+
+// Shortest edit script between two token lists, or null past MAX_EDIT_DISTANCE
+function diffTokens(a: string[], b: string[]): Array<[DiffPartType, string]> | null {
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  // v restricted to diagonals -d..d before each step d, for backtracking
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1))
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b)
+      }
+    }
+  }
+
+  return null
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[]): Array<[DiffPartType, string]> {
+  const edits: Array<[DiffPartType, string]> = []
+  let x = a.length
+  let y = b.length
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d]
+    const k = x - y
+    const prevK = k === -d || (k !== d && previous[k - 1 + d] < previous[k + 1 + d]) ? k + 1 : k - 1
+    const prevX = previous[prevK + d]
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      edits.push(['equal', a[--x]])
+      y--
+    }
+
+    if (x === prevX) {
+      edits.push(['added', b[--y]])
+    } else {
+      edits.push(['removed', a[--x]])
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    edits.push(['equal', a[--x]])
+    y--
+  }
+
+  return edits.reverse()
+}
+
+/**
+ * Word-level diff of two texts, as runs of equal, added and removed text
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before)
+  const b = tokenize(after)
+
+  // Most edits touch a small part of a post; diff only what lies between the
+  // unchanged start and end
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const parts: DiffPart[] = []
+  appendPart(parts, 'equal', a.slice(0, start).join(''))
+
+  const middleA = a.slice(start, endA)
+  const middleB = b.slice(start, endB)
+  const edits = diffTokens(middleA, middleB)
+
+  if (edits) {
+    edits.forEach(([type, token]) => appendPart(parts, type, token))
+  } else {
+    appendPart(parts, 'removed', middleA.join(''))
+    appendPart(parts, 'added', middleB.join(''))
+  }
+
+  appendPart(parts, 'equal', a.slice(endA).join(''))
+  return parts
+}
+
+/**
+ * Whether a diff contains any change
+ */
+export function hasChanges(parts: DiffPart[]): boolean {
+  return parts.some((part) => part.type !== 'equal')
+}
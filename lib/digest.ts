@@ -0,0 +1,391 @@
+// Weekly digest: picks the posts published in a window, renders one email
+// per subscriber (filtered by their category preferences) and sends them
+// through the mail transport in small batches, a chunk of subscribers per
+// call so long lists are sent across several requests. Server-only.
+import { DocumentReference, FieldPath, FieldValue, Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebase/admin'
+import { StatusError } from '@/lib/errors'
+import { getAllPostsFromDB } from '@/lib/blog-db'
+import { listSubscribers, getManageUrl, getUnsubscribeHeaders, SUBSCRIBERS_COLLECTION } from '@/lib/newsletter'
+import { sendMail, getMailTransport, renderEmailLayout, escapeHtml } from '@/lib/mail'
+import { isPostExpired, toISOString, toOptionalISOString } from '@/lib/utils'
+import { siteConfig } from '@/data'
+import { BlogPost } from '@/types/blog'
+import { DigestSendRow, DigestSendStatus } from '@/types/admin'
+
+export const DIGEST_SENDS_COLLECTION = 'digest_sends'
+export const DIGEST_WINDOW_DAYS = 7
+
+// Emails handed to the transport at once
+const DIGEST_BATCH_SIZE = 10
+// Subscribers handled per call, so a run fits in a request's time limit
+const DIGEST_CHUNK_SIZE = 100
+// How long a chunk may take before its run is considered stalled and resumable
+const DIGEST_LOCK_SECONDS = 5 * 60
+const MAX_DIGEST_POSTS = 10
+
+export interface DigestWindow {
+  start: Date
+  end: Date
+}
+
+export interface DigestEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+export interface DigestPreview extends DigestEmail {
+  postCount: number
+  recipientCount: number
+  window: { start: string; end: string }
+}
+
+export class DigestError extends StatusError {
+  name = 'DigestError'
+}
+
+function formatCategory(slug: string): string {
+  return slug.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: siteConfig.timezone })
+}
+
+function getPostUrl(post: BlogPost): string {
+  return `${siteConfig.baseUrl}/blog/${post.slug}?utm_source=newsletter&utm_medium=email&utm_campaign=digest`
+}
+
+function getAbsoluteImageUrl(image: string): string | null {
+  if (!image) return null
+  if (/^https?:\/\//.test(image)) return image
+  return image.startsWith('/') ? `${siteConfig.baseUrl}${image}` : null
+}
+
+export function getDigestWindow(days: number = DIGEST_WINDOW_DAYS, end: Date = new Date()): DigestWindow {
+  return {
+    start: new Date(end.getTime() - days * 24 * 60 * 60 * 1000),
+    end
+  }
+}
+
+/**
+ * Published, unexpired posts dated inside the window, newest first
+ */
+export async function getDigestPosts(window: DigestWindow): Promise<BlogPost[]> {
+  const posts = await getAllPostsFromDB()
+
+  return posts
+    .filter((post) => {
+      if (isPostExpired(post)) return false
+      const date = new Date(post.date).getTime()
+      return date > window.start.getTime() && date <= window.end.getTime()
+    })
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+}
+
+/**
+ * Posts for one subscriber: those in their categories, or everything when
+ * they haven't picked any
+ */
+export function selectDigestPosts(posts: BlogPost[], categories: string[] = []): BlogPost[] {
+  const selected = categories.length > 0
+    ? posts.filter((post) => categories.includes(post.category))
+    : posts
+
+  return selected.slice(0, MAX_DIGEST_POSTS)
+}
+
+export function renderDigestEmail(
+  posts: BlogPost[],
+  options: { window: DigestWindow; manageUrl: string }
+): DigestEmail {
+  const [lead, ...rest] = posts
+  const period = `${formatDay(options.window.start)} – ${formatDay(options.window.end)}`
+  const subject = rest.length > 0
+    ? `${lead.title} and ${rest.length} more from ${siteConfig.name}`
+    : `${lead.title} | ${siteConfig.name}`
+
+  const postsHtml = posts.map((post) => {
+    const image = getAbsoluteImageUrl(post.image)
+    return `<tr>
+                  <td style="padding:0 0 28px;">
+                    ${image ? `<a href="${escapeHtml(getPostUrl(post))}"><img src="${escapeHtml(image)}" alt="${escapeHtml(post.imageAlt || post.title)}" width="496" style="display:block;width:100%;height:auto;border-radius:6px;margin-bottom:12px;" /></a>` : ''}
+                    <div style="font-size:12px;font-weight:600;text-transform:uppercase;letter-spacing:0.05em;color:#2563eb;margin-bottom:4px;">${escapeHtml(formatCategory(post.category))}</div>
+                    <a href="${escapeHtml(getPostUrl(post))}" style="font-size:18px;font-weight:700;line-height:1.4;color:#111827;text-decoration:none;">${escapeHtml(post.title)}</a>
+                    <p style="font-size:15px;line-height:1.6;color:#4b5563;margin:6px 0 0;">${escapeHtml(post.description)}</p>
+                    <p style="font-size:13px;color:#6b7280;margin:6px 0 0;">${post.readingTime} min read</p>
+                  </td>
+                </tr>`
+  }).join('\n')
+
+  const html = renderEmailLayout(
+    `<h1 style="font-size:22px;margin:0 0 4px;">This week on ${escapeHtml(siteConfig.name)}</h1>
+              <p style="font-size:14px;color:#6b7280;margin:0 0 24px;">${escapeHtml(period)}</p>
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+                ${postsHtml}
+              </table>
+              <a href="${escapeHtml(`${siteConfig.baseUrl}/blog`)}" style="display:inline-block;background:#2563eb;color:#ffffff;text-decoration:none;font-weight:600;padding:12px 24px;border-radius:6px;">Read more on the blog</a>`,
+    `You're receiving this because you subscribed to ${escapeHtml(siteConfig.name)}. <a href="${escapeHtml(options.manageUrl)}" style="color:#6b7280;">Change your topics or unsubscribe</a>.`
+  )
+
+  const text = [
+    `This week on ${siteConfig.name}`,
+    period,
+    '',
+    ...posts.flatMap((post) => [
+      `${post.title} (${formatCategory(post.category)}, ${post.readingTime} min read)`,
+      post.description,
+      getPostUrl(post),
+      ''
+    ]),
+    `Read more: ${siteConfig.baseUrl}/blog`,
+    '',
+    `You're receiving this because you subscribed to ${siteConfig.name}.`,
+    `Change your topics or unsubscribe: ${options.manageUrl}`
+  ].join('\n')
+
+  return { subject, html, text }
+}
+
+/**
+ * The digest as a subscriber with the given categories would receive it
+ */
+export async function buildDigestPreview(options: { days?: number; categories?: string[] } = {}): Promise<DigestPreview | null> {
+  const window = getDigestWindow(options.days)
+  const [posts, subscribers] = await Promise.all([
+    getDigestPosts(window),
+    listSubscribers('confirmed')
+  ])
+  const selected = selectDigestPosts(posts, options.categories)
+
+  if (selected.length === 0) {
+    return null
+  }
+
+  return {
+    ...renderDigestEmail(selected, { window, manageUrl: `${siteConfig.baseUrl}/newsletter` }),
+    postCount: selected.length,
+    recipientCount: subscribers.length,
+    window: { start: window.start.toISOString(), end: window.end.toISOString() }
+  }
+}
+
+// The cursor and lock are internal to the sender and left out
+function serializeDigestSend(id: string, data: any): DigestSendRow {
+  return {
+    id,
+    postSlugs: data.postSlugs || [],
+    status: data.status,
+    recipients: data.recipients || 0,
+    delivered: data.delivered || 0,
+    skipped: data.skipped || 0,
+    failed: data.failed || 0,
+    transport: data.transport,
+    triggeredBy: data.triggeredBy,
+    periodStart: toOptionalISOString(data.periodStart) || '',
+    periodEnd: toOptionalISOString(data.periodEnd) || '',
+    startedAt: toISOString(data.startedAt),
+    completedAt: toOptionalISOString(data.completedAt)
+  }
+}
+
+interface DigestRun {
+  ref: DocumentReference
+  window: DigestWindow
+  posts: BlogPost[]
+  // Id of the last subscriber handled by an earlier chunk
+  cursor: string | null
+}
+
+/**
+ * Claims the run to work on: an unfinished run is resumed (whatever day it
+ * started), otherwise today's run is started. A run is locked while a chunk
+ * is being sent; a lock that has expired means that chunk died mid-way, and
+ * the run is picked up again from its cursor.
+ */
+async function claimDigestRun(options: { days?: number; triggeredBy: string; force?: boolean }): Promise<DigestRun> {
+  const db = getAdminDb()
+  const lockedUntil = Timestamp.fromMillis(Date.now() + DIGEST_LOCK_SECONDS * 1000)
+
+  const unfinished = await db.collection(DIGEST_SENDS_COLLECTION).where('status', '==', 'sending').limit(1).get()
+  if (!unfinished.empty) {
+    const ref = unfinished.docs[0].ref
+    const data = await db.runTransaction(async (transaction) => {
+      const current = (await transaction.get(ref)).data()
+      if (current?.status !== 'sending') {
+        throw new DigestError('The digest run changed while it was being resumed, please try again', 409)
+      }
+      if (current.lockedUntil && current.lockedUntil.toMillis() > Date.now()) {
+        throw new DigestError('The digest is already being sent', 409)
+      }
+
+      transaction.update(ref, { lockedUntil })
+      return current
+    })
+
+    // Keep sending the posts the run started with
+    const posts = await getAllPostsFromDB()
+    return {
+      ref,
+      window: { start: data.periodStart.toDate(), end: data.periodEnd.toDate() },
+      posts: (data.postSlugs as string[])
+        .map((slug) => posts.find((post) => post.slug === slug))
+        .filter((post): post is BlogPost => Boolean(post)),
+      cursor: data.cursor || null
+    }
+  }
+
+  const window = getDigestWindow(options.days)
+  const ref = db.collection(DIGEST_SENDS_COLLECTION).doc(`digest-${window.end.toISOString().split('T')[0]}`)
+
+  const posts = await getDigestPosts(window)
+  if (posts.length === 0) {
+    throw new DigestError('No posts were published in this period')
+  }
+
+  const recipients = (await db.collection(SUBSCRIBERS_COLLECTION).where('status', '==', 'confirmed').count().get()).data().count
+
+  // Claim the run so overlapping triggers can't double-send
+  await db.runTransaction(async (transaction) => {
+    const existing = (await transaction.get(ref)).data()
+    if (existing && existing.status !== 'failed' && !options.force) {
+      throw new DigestError("Today's digest has already been sent", 409)
+    }
+
+    transaction.set(ref, {
+      periodStart: Timestamp.fromDate(window.start),
+      periodEnd: Timestamp.fromDate(window.end),
+      postSlugs: posts.map((post) => post.slug),
+      status: 'sending',
+      recipients,
+      delivered: 0,
+      skipped: 0,
+      failed: 0,
+      transport: getMailTransport().name,
+      triggeredBy: options.triggeredBy,
+      startedAt: FieldValue.serverTimestamp(),
+      cursor: null,
+      lockedUntil
+    })
+  })
+
+  return { ref, window, posts, cursor: null }
+}
+
+/**
+ * Sends the next chunk of the digest: resumes an unfinished run, or starts
+ * the one for the window ending now. Each call sends to at most
+ * DIGEST_CHUNK_SIZE subscribers so it fits in one request; the run stays
+ * 'sending' until a call finds no subscribers left. Each day's digest is
+ * started once unless `force` is set.
+ */
+export async function sendDigest(options: { days?: number; triggeredBy: string; force?: boolean }): Promise<DigestSendRow> {
+  const db = getAdminDb()
+  const { ref, window, posts, cursor } = await claimDigestRun(options)
+
+  let query = db.collection(SUBSCRIBERS_COLLECTION)
+    .where('status', '==', 'confirmed')
+    .orderBy(FieldPath.documentId())
+  if (cursor) {
+    query = query.startAfter(cursor)
+  }
+  const chunk = (await query.limit(DIGEST_CHUNK_SIZE).get()).docs
+
+  let delivered = 0
+  let skipped = 0
+  let failed = 0
+
+  for (let i = 0; i < chunk.length; i += DIGEST_BATCH_SIZE) {
+    const batch = chunk.slice(i, i + DIGEST_BATCH_SIZE)
+    const results = await Promise.allSettled(batch.map(async (doc) => {
+      const subscriber = doc.data()
+      const selected = selectDigestPosts(posts, subscriber.categories || [])
+      if (selected.length === 0) {
+        return 'skipped'
+      }
+
+      const [manageUrl, headers] = await Promise.all([
+        getManageUrl(subscriber.email),
+        getUnsubscribeHeaders(subscriber.email)
+      ])
+      await sendMail({
+        to: subscriber.email,
+        headers,
+        ...renderDigestEmail(selected, { window, manageUrl })
+      })
+      return 'delivered'
+    }))
+
+    results.forEach((result) => {
+      if (result.status === 'rejected') {
+        console.error('Error sending digest:', result.reason)
+        failed++
+      } else if (result.value === 'skipped') {
+        skipped++
+      } else {
+        delivered++
+      }
+    })
+  }
+
+  const progress = {
+    delivered: FieldValue.increment(delivered),
+    skipped: FieldValue.increment(skipped),
+    failed: FieldValue.increment(failed),
+    cursor: chunk.length > 0 ? chunk[chunk.length - 1].id : cursor,
+    lockedUntil: null
+  }
+
+  if (chunk.length === DIGEST_CHUNK_SIZE) {
+    await ref.update(progress)
+  } else {
+    // Last chunk: settle the run's status from its totals
+    await db.runTransaction(async (transaction) => {
+      const totals = (await transaction.get(ref)).data() || {}
+      const totalDelivered = (totals.delivered || 0) + delivered
+      const totalFailed = (totals.failed || 0) + failed
+      const status: DigestSendStatus = totalFailed === 0 ? 'sent' : totalDelivered > 0 ? 'partial' : 'failed'
+
+      transaction.update(ref, { ...progress, status, completedAt: FieldValue.serverTimestamp() })
+    })
+  }
+
+  return serializeDigestSend(ref.id, (await ref.get()).data())
+}
+
+export function getDigestSendMessage(send: DigestSendRow): string {
+  if (send.status === 'sending') {
+    const handled = send.delivered + send.skipped + send.failed
+    return `Digest sending: ${handled} of ${send.recipients} subscribers so far, the rest follow on the next run`
+  }
+  return `Digest sent to ${send.delivered} of ${send.recipients} subscribers`
+}
+
+/**
+ * True when a digest run is unfinished, or the last one started at least
+ * DIGEST_WINDOW_DAYS ago. Lets a scheduler call the digest job often without
+ * sending more than one digest a week.
+ */
+export async function isDigestDue(now: Date = new Date()): Promise<boolean> {
+  const [latest] = await listDigestSends(1)
+  if (!latest || latest.status === 'sending') {
+    return true
+  }
+
+  return now.getTime() - new Date(latest.startedAt).getTime() >= DIGEST_WINDOW_DAYS * 24 * 60 * 60 * 1000
+}
+
+/**
+ * Most recent digest runs, newest first
+ */
+export async function listDigestSends(limit = 20): Promise<DigestSendRow[]> {
+  const snapshot = await getAdminDb()
+    .collection(DIGEST_SENDS_COLLECTION)
+    .orderBy('startedAt', 'desc')
+    .limit(limit)
+    .get()
+
+  return snapshot.docs.map((doc) => serializeDigestSend(doc.id, doc.data()))
+}
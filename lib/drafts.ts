@@ -0,0 +1,72 @@
+// Post editor autosave: one draft slot per user and post in post_drafts,
+// separate from the post so autosaved text never goes live. A manual save
+// clears the slot. Server-only.
+import { FieldValue, Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebase/admin'
+import { StatusError } from '@/lib/errors'
+import { toISOString } from '@/lib/utils'
+import { PostDraft } from '@/types/admin'
+
+export const POST_DRAFTS_COLLECTION = 'post_drafts'
+
+// Abandoned drafts are removed after this long (via a Firestore TTL policy)
+const DRAFT_TTL = 30 * 24 * 60 * 60 * 1000
+
+// Stay clear of Firestore's 1 MiB document limit
+const MAX_DRAFT_SIZE = 900 * 1024
+
+export class DraftError extends StatusError {
+  name = 'DraftError'
+}
+
+/**
+ * The user's draft slot for a post, or for the post they are creating
+ */
+export function getDraftRef(uid: string, postId: string | null) {
+  return getAdminDb().collection(POST_DRAFTS_COLLECTION).doc(`${uid}_${postId || 'new'}`)
+}
+
+export async function getPostDraft(uid: string, postId: string | null): Promise<PostDraft | null> {
+  const doc = await getDraftRef(uid, postId).get()
+  if (!doc.exists) return null
+
+  const data = doc.data()!
+  return {
+    postId: data.postId || null,
+    data: JSON.parse(data.data),
+    savedAt: toISOString(data.savedAt),
+    baseUpdatedAt: data.baseUpdatedAt || null
+  }
+}
+
+export async function savePostDraft(
+  uid: string,
+  postId: string | null,
+  data: unknown,
+  baseUpdatedAt: string | null
+): Promise<PostDraft> {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new DraftError('Draft data must be an object')
+  }
+
+  // Stored as JSON: form state can hold undefined values Firestore rejects
+  const json = JSON.stringify(data)
+  if (Buffer.byteLength(json) > MAX_DRAFT_SIZE) {
+    throw new DraftError('Draft is too large to autosave', 413)
+  }
+
+  await getDraftRef(uid, postId).set({
+    uid,
+    postId,
+    data: json,
+    baseUpdatedAt,
+    savedAt: FieldValue.serverTimestamp(),
+    expiresAt: Timestamp.fromMillis(Date.now() + DRAFT_TTL)
+  })
+
+  return { postId, data: JSON.parse(json), savedAt: new Date().toISOString(), baseUpdatedAt }
+}
+
+export async function deletePostDraft(uid: string, postId: string | null): Promise<void> {
+  await getDraftRef(uid, postId).delete()
+}
@@ -0,0 +1,11 @@
+/**
+ * An error whose message is safe to show the client, with the HTTP status
+ * the API route should answer with. Each module subclasses it so routes can
+ * tell their own errors apart.
+ */
+export class StatusError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'StatusError'
+  }
+}
@@ -0,0 +1,298 @@
+import { createHash } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { getAllPostsFromDB, getAllCategoriesFromDB } from '@/lib/blog-db'
+import { getAllPosts, getCategoryBySlug } from '@/lib/blog'
+import { renderMarkdown } from '@/lib/markdown'
+import { getTagSlug, isPostExpired, normalizeTag } from '@/lib/utils'
+import { siteConfig, performanceConfig } from '@/data'
+import { BlogPost } from '@/types/blog'
+
+export type FeedFormat = 'rss' | 'atom' | 'json'
+
+interface FeedItem {
+  url: string
+  title: string
+  summary: string
+  // Rendered post body, only in full-content mode
+  contentHtml?: string
+  date: string
+  author: string
+  category: string
+  tags: string[]
+  image?: {
+    url: string
+    type: string
+  }
+}
+
+interface Feed {
+  title: string
+  description: string
+  homeUrl: string
+  feedUrl: string
+  updated: string
+  items: FeedItem[]
+}
+
+const FEED_PATHS: Record<FeedFormat, string> = {
+  rss: '/feed.xml',
+  atom: '/atom.xml',
+  json: '/feed.json'
+}
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8'
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml'
+}
+
+function absoluteUrl(path: string): string {
+  return /^https?:\/\//.test(path) ? path : `${siteConfig.baseUrl.replace(/\/$/, '')}${path.startsWith('/') ? '' : '/'}${path}`
+}
+
+function getImageType(url: string): string {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase() || ''
+  return IMAGE_TYPES[extension] || 'image/jpeg'
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`
+}
+
+/**
+ * Feed URL for a format, optionally scoped to a category or tag slug
+ */
+export function getFeedUrl(format: FeedFormat, scope: { category?: string; tag?: string } = {}): string {
+  const params = new URLSearchParams()
+  if (scope.category) params.set('category', scope.category)
+  if (scope.tag) params.set('tag', scope.tag)
+  const queryString = params.toString()
+  return queryString ? `${FEED_PATHS[format]}?${queryString}` : FEED_PATHS[format]
+}
+
+/**
+ * <link rel="alternate"> entries for metadata.alternates.types
+ */
+export function getFeedAlternates(scope: { category?: string; tag?: string } = {}): Record<string, string> | undefined {
+  if (!siteConfig.features.rss) {
+    return undefined
+  }
+
+  return {
+    'application/rss+xml': getFeedUrl('rss', scope),
+    'application/atom+xml': getFeedUrl('atom', scope),
+    'application/feed+json': getFeedUrl('json', scope)
+  }
+}
+
+// Published posts for the feed, newest first, or null for an unknown category/tag
+async function getFeed(request: NextRequest): Promise<Feed | null> {
+  const { searchParams } = request.nextUrl
+  const category = searchParams.get('category')
+  const tag = searchParams.get('tag')
+  const contentMode = searchParams.get('content')
+  const fullContent = contentMode ? contentMode === 'full' : siteConfig.feed.fullContent
+
+  // Firestore is the primary source, content/posts/*.mdx files are the fallback
+  const dbPosts = await getAllPostsFromDB()
+  // Expired posts stay readable but are no longer promoted
+  let posts: BlogPost[] = (dbPosts.length > 0 ? dbPosts : getAllPosts()).filter((post) => !isPostExpired(post))
+  let title = siteConfig.name
+  let description = siteConfig.description
+  let homePath = '/blog'
+
+  if (category) {
+    const categories = await getAllCategoriesFromDB()
+    const categoryName = categories.find((item) => item.slug === category)?.name || getCategoryBySlug(category)?.name
+    if (!categoryName) {
+      return null
+    }
+    posts = posts.filter((post) => post.category === category)
+    title = `${categoryName} | ${siteConfig.name}`
+    description = `The latest ${categoryName.toLowerCase()} articles from ${siteConfig.name}.`
+    homePath = `/category/${category}`
+  } else if (tag) {
+    posts = posts.filter((post) => post.tags?.some((postTag) => getTagSlug(postTag) === tag))
+    const tagName = posts[0]?.tags.find((postTag) => getTagSlug(postTag) === tag)
+    if (!tagName) {
+      return null
+    }
+    title = `#${normalizeTag(tagName)} | ${siteConfig.name}`
+    description = `The latest articles tagged "${normalizeTag(tagName)}" from ${siteConfig.name}.`
+    homePath = `/tag/${tag}`
+  }
+
+  posts = posts.slice(0, siteConfig.feed.itemCount)
+
+  const items = await Promise.all(posts.map(async (post): Promise<FeedItem> => ({
+    url: absoluteUrl(`/blog/${post.slug}`),
+    title: post.title,
+    summary: post.description,
+    contentHtml: fullContent ? await renderMarkdown(post.content) : undefined,
+    date: new Date(post.date).toISOString(),
+    author: post.author || siteConfig.author,
+    category: post.category,
+    tags: post.tags || [],
+    image: post.image ? { url: absoluteUrl(post.image), type: getImageType(post.image) } : undefined
+  })))
+
+  return {
+    title,
+    description,
+    homeUrl: absoluteUrl(homePath),
+    feedUrl: absoluteUrl(`${request.nextUrl.pathname}${request.nextUrl.search}`),
+    updated: items[0]?.date || new Date(0).toISOString(),
+    items
+  }
+}
+
+function renderRss(feed: Feed): string {
+  const items = feed.items.map((item) => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="true">${escapeXml(item.url)}</guid>
+      <pubDate>${new Date(item.date).toUTCString()}</pubDate>
+      <dc:creator>${escapeXml(item.author)}</dc:creator>
+      <description>${escapeXml(item.summary)}</description>${item.contentHtml ? `
+      <content:encoded>${cdata(item.contentHtml)}</content:encoded>` : ''}${[item.category, ...item.tags].filter(Boolean).map((term) => `
+      <category>${escapeXml(term)}</category>`).join('')}${item.image ? `
+      <enclosure url="${escapeXml(item.image.url)}" length="0" type="${item.image.type}" />` : ''}
+    </item>`).join('\n')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.homeUrl)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <language>${siteConfig.language}</language>
+    <lastBuildDate>${new Date(feed.updated).toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml" />
+${items}
+  </channel>
+</rss>
+`
+}
+
+function renderAtom(feed: Feed): string {
+  const entries = feed.items.map((item) => `  <entry>
+    <title>${escapeXml(item.title)}</title>
+    <link href="${escapeXml(item.url)}" />
+    <id>${escapeXml(item.url)}</id>
+    <published>${item.date}</published>
+    <updated>${item.date}</updated>
+    <author>
+      <name>${escapeXml(item.author)}</name>
+    </author>
+    <summary type="text">${escapeXml(item.summary)}</summary>${item.contentHtml ? `
+    <content type="html">${escapeXml(item.contentHtml)}</content>` : ''}${[item.category, ...item.tags].filter(Boolean).map((term) => `
+    <category term="${escapeXml(term)}" />`).join('')}${item.image ? `
+    <link rel="enclosure" href="${escapeXml(item.image.url)}" type="${item.image.type}" length="0" />` : ''}
+  </entry>`).join('\n')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${siteConfig.language}">
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link href="${escapeXml(feed.homeUrl)}" />
+  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrl)}" />
+  <id>${escapeXml(feed.homeUrl)}</id>
+  <updated>${feed.updated}</updated>
+${entries}
+</feed>
+`
+}
+
+function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrl,
+    description: feed.description,
+    language: siteConfig.language,
+    items: feed.items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      ...(item.contentHtml ? { content_html: item.contentHtml } : { content_text: item.summary }),
+      ...(item.image ? { image: item.image.url } : {}),
+      date_published: item.date,
+      authors: [{ name: item.author }],
+      tags: [item.category, ...item.tags].filter(Boolean),
+      ...(item.image ? { attachments: [{ url: item.image.url, mime_type: item.image.type }] } : {})
+    }))
+  }, null, 2)
+}
+
+const renderers: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJsonFeed
+}
+
+/**
+ * GET handler for a feed route. Supports ?category=, ?tag= and
+ * ?content=full|excerpt, and answers conditional requests with 304.
+ */
+export function createFeedHandler(format: FeedFormat) {
+  return async function GET(request: NextRequest) {
+    if (!siteConfig.features.rss) {
+      return new NextResponse('Not Found', { status: 404 })
+    }
+
+    try {
+      const feed = await getFeed(request)
+
+      if (!feed) {
+        return new NextResponse('Feed not found', { status: 404 })
+      }
+
+      const body = renderers[format](feed)
+      const etag = `W/"${createHash('sha1').update(body).digest('base64url')}"`
+      const lastModified = new Date(feed.updated).toUTCString()
+      const headers = {
+        'Content-Type': CONTENT_TYPES[format],
+        'Cache-Control': `public, max-age=${performanceConfig.cache.api}`,
+        ETag: etag,
+        'Last-Modified': lastModified
+      }
+
+      // If-None-Match wins over If-Modified-Since when both are sent
+      const ifNoneMatch = request.headers.get('if-none-match')
+      const ifModifiedSince = request.headers.get('if-modified-since')
+      const notModified = ifNoneMatch
+        ? ifNoneMatch.split(',').some((tag) => tag.trim() === etag || tag.trim() === '*')
+        : Boolean(ifModifiedSince) && new Date(lastModified).getTime() <= new Date(ifModifiedSince!).getTime()
+
+      if (notModified) {
+        return new NextResponse(null, { status: 304, headers })
+      }
+
+      return new NextResponse(body, { headers })
+    } catch (error) {
+      console.error(`Error generating ${format} feed:`, error)
+      return new NextResponse('Failed to generate feed', { status: 500 })
+    }
+  }
+}
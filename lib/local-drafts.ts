@@ -0,0 +1,58 @@
+// Post editor drafts kept in IndexedDB, so typing survives a lost connection,
+// an expired session or a closed tab until the server slot can be written.
+// Browser-only; every call resolves quietly when IndexedDB is unavailable.
+import { PostDraft } from '@/types/admin'
+
+const DB_NAME = 'admin-drafts'
+const DB_VERSION = 1
+const STORE_NAME = 'post_drafts'
+
+let databasePromise: Promise<IDBDatabase | null> | null = null
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null)
+
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME)
+      }
+      request.onsuccess = () => resolve(request.result)
+      // Private browsing modes can refuse storage
+      request.onerror = () => resolve(null)
+    })
+  }
+
+  return databasePromise
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> {
+  const database = await openDatabase()
+  if (!database) return null
+
+  return new Promise((resolve, reject) => {
+    const request = operation(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Key of a user's draft for a post, or for the post they are creating
+ */
+export function getLocalDraftKey(uid: string, postId: string | null): string {
+  return `${uid}:${postId || 'new'}`
+}
+
+export async function getLocalDraft(key: string): Promise<PostDraft | null> {
+  return (await runRequest<PostDraft | undefined>('readonly', (store) => store.get(key))) || null
+}
+
+export async function saveLocalDraft(key: string, draft: PostDraft): Promise<void> {
+  await runRequest('readwrite', (store) => store.put(draft, key))
+}
+
+export async function deleteLocalDraft(key: string): Promise<void> {
+  await runRequest('readwrite', (store) => store.delete(key))
+}
@@ -0,0 +1,131 @@
+// Outgoing email. Messages go through a pluggable transport so providers can
+// be swapped without touching callers; the built-in console and file
+// transports cover local development.
+import { promises as fs } from 'fs'
+import path from 'path'
+import { siteConfig } from '@/data'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+  // Extra headers, e.g. List-Unsubscribe
+  headers?: Record<string, string>
+}
+
+export interface OutgoingMail extends MailMessage {
+  from: string
+}
+
+export interface MailTransport {
+  name: string
+  send(message: OutgoingMail): Promise<void>
+}
+
+// Prints messages to the server log
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log([
+      '--- Outgoing email ---',
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      ...Object.entries(message.headers || {}).map(([name, value]) => `${name}: ${value}`),
+      '',
+      message.text,
+      '--- End email ---'
+    ].join('\n'))
+  }
+}
+
+/**
+ * Writes each message to `directory` as JSON (with the HTML alongside) so
+ * it can be opened in a browser
+ */
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true })
+      const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40)
+      const basename = `${Date.now()}-${slug}`
+
+      await Promise.all([
+        fs.writeFile(path.join(directory, `${basename}.json`), JSON.stringify(message, null, 2)),
+        fs.writeFile(path.join(directory, `${basename}.html`), message.html)
+      ])
+    }
+  }
+}
+
+let transport: MailTransport | null = null
+
+/**
+ * Transport selected by MAIL_TRANSPORT ('console' or 'file'), unless one has
+ * been plugged in with setMailTransport
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = process.env.MAIL_TRANSPORT === 'file'
+      ? createFileTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), '.mail-outbox'))
+      : consoleTransport
+  }
+  return transport
+}
+
+/**
+ * Plugs in a provider transport (SMTP, an email API, ...)
+ */
+export function setMailTransport(next: MailTransport): void {
+  transport = next
+}
+
+export function getMailFrom(): string {
+  return process.env.MAIL_FROM || `${siteConfig.name} <${siteConfig.contact.email}>`
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({ ...message, from: getMailFrom() })
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Wraps email body HTML in a minimal, inline-styled layout that renders
+ * consistently across mail clients
+ */
+export function renderEmailLayout(body: string, footer: string = ''): string {
+  return `<!DOCTYPE html>
+<html lang="${siteConfig.language}">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+</head>
+<body style="margin:0;padding:0;background:#f9fafb;font-family:system-ui,-apple-system,sans-serif;color:#111827;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f9fafb;padding:32px 16px;">
+    <tr>
+      <td align="center">
+        <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border-radius:8px;padding:32px;">
+          <tr>
+            <td>
+              <div style="color:#2563eb;font-weight:700;font-size:20px;margin-bottom:24px;">${escapeHtml(siteConfig.name)}</div>
+              ${body}
+            </td>
+          </tr>
+        </table>
+        ${footer ? `<p style="max-width:560px;font-size:12px;line-height:1.5;color:#6b7280;margin:16px auto 0;">${footer}</p>` : ''}
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`
+}
@@ -0,0 +1,121 @@
+// Maintenance mode lookup for the root middleware. Runs on the Edge
+// runtime, so it reads site_config over the Firestore REST API instead of
+// the Firebase SDKs.
+import { signToken, verifyToken } from '@/lib/signed-token'
+import { siteConfig } from '@/data'
+
+export interface MaintenanceStatus {
+  enabled: boolean
+  message?: string
+}
+
+// Cookie that lets signed-in admins browse the site during maintenance
+export const MAINTENANCE_BYPASS_COOKIE = 'vv_maintenance_bypass'
+export const MAINTENANCE_BYPASS_TTL = 60 * 60 * 12 // 12 hours
+
+// Seconds clients are told to wait before retrying
+export const MAINTENANCE_RETRY_AFTER = 60 * 30
+
+// How long a middleware instance trusts its last lookup
+const STATUS_TTL = 30 * 1000
+
+const DEFAULT_MESSAGE = "We're making some improvements and will be back shortly."
+
+let cachedStatus: { value: MaintenanceStatus; expiresAt: number } | null = null
+
+interface FirestoreRestDocument {
+  fields?: {
+    maintenanceMode?: { booleanValue?: boolean }
+    maintenanceMessage?: { stringValue?: string }
+  }
+}
+
+async function fetchMaintenanceStatus(): Promise<MaintenanceStatus> {
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID
+  if (!projectId) {
+    return { enabled: false }
+  }
+
+  const url = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/site_config/main?key=${process.env.NEXT_PUBLIC_FIREBASE_API_KEY}`
+  const response = await fetch(url, { cache: 'no-store' })
+
+  // No site_config document yet means maintenance was never switched on
+  if (response.status === 404) {
+    return { enabled: false }
+  }
+  if (!response.ok) {
+    throw new Error(`site_config lookup failed with ${response.status}`)
+  }
+
+  const document: FirestoreRestDocument = await response.json()
+  return {
+    enabled: document.fields?.maintenanceMode?.booleanValue === true,
+    message: document.fields?.maintenanceMessage?.stringValue || undefined
+  }
+}
+
+/**
+ * Current maintenance status, cached per instance for STATUS_TTL. A failed
+ * lookup keeps the last known status (or leaves the site up) rather than
+ * taking the site down.
+ */
+export async function getMaintenanceStatus(): Promise<MaintenanceStatus> {
+  if (cachedStatus && cachedStatus.expiresAt > Date.now()) {
+    return cachedStatus.value
+  }
+
+  try {
+    const value = await fetchMaintenanceStatus()
+    cachedStatus = { value, expiresAt: Date.now() + STATUS_TTL }
+    return value
+  } catch (error) {
+    console.error('Error checking maintenance mode:', error)
+    const value = cachedStatus?.value || { enabled: false }
+    cachedStatus = { value, expiresAt: Date.now() + STATUS_TTL }
+    return value
+  }
+}
+
+export function createMaintenanceBypassToken(uid: string): Promise<string> {
+  return signToken({ uid, purpose: 'maintenance-bypass' }, MAINTENANCE_BYPASS_TTL)
+}
+
+export async function isMaintenanceBypassValid(token: string | undefined): Promise<boolean> {
+  const data = await verifyToken<{ uid: string; purpose: string }>(token)
+  return data?.purpose === 'maintenance-bypass'
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export function renderMaintenancePage(message: string = DEFAULT_MESSAGE): string {
+  return `<!DOCTYPE html>
+<html lang="${siteConfig.language}">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <meta name="robots" content="noindex" />
+  <title>Down for maintenance | ${escapeHtml(siteConfig.name)}</title>
+  <style>
+    body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, -apple-system, sans-serif; background: #f9fafb; color: #111827; }
+    main { max-width: 32rem; padding: 2rem; text-align: center; }
+    h1 { font-size: 2rem; margin: 0 0 1rem; }
+    p { font-size: 1.125rem; line-height: 1.6; color: #4b5563; margin: 0; }
+    .brand { color: #3b82f6; font-weight: 600; margin-bottom: 1.5rem; }
+  </style>
+</head>
+<body>
+  <main>
+    <div class="brand">${escapeHtml(siteConfig.name)}</div>
+    <h1>Down for maintenance</h1>
+    <p>${escapeHtml(message || DEFAULT_MESSAGE)}</p>
+  </main>
+</body>
+</html>
+`
+}
@@ -0,0 +1,114 @@
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import remarkGfm from 'remark-gfm'
+import remarkRehype from 'remark-rehype'
+import rehypeSanitize, { defaultSchema, type Options as SanitizeSchema } from 'rehype-sanitize'
+import rehypeSlug from 'rehype-slug'
+import rehypeAutolinkHeadings from 'rehype-autolink-headings'
+import rehypeHighlight from 'rehype-highlight'
+import rehypeStringify from 'rehype-stringify'
+import GithubSlugger from 'github-slugger'
+import { toString } from 'mdast-util-to-string'
+import { visit } from 'unist-util-visit'
+import type { Heading } from 'mdast'
+import { TableOfContentsItem } from '@/types/blog'
+
+// Post bodies are written by authors in the admin panel, so they are treated as
+// untrusted: raw HTML is dropped, MDX/JSX is never evaluated and the resulting
+// tree is sanitized before we add our own heading anchors and highlighting.
+const sanitizeSchema: SanitizeSchema = {
+  ...defaultSchema,
+  // Heading ids are generated after sanitizing, so there is nothing to clobber
+  clobberPrefix: '',
+  protocols: {
+    ...defaultSchema.protocols,
+    href: ['http', 'https', 'mailto', 'tel'],
+    src: ['http', 'https'],
+  },
+}
+
+const markdownProcessor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  .use(remarkRehype)
+  .use(rehypeSanitize, sanitizeSchema)
+  .use(rehypeSlug)
+  .use(rehypeAutolinkHeadings, {
+    behavior: 'append',
+    properties: { className: ['heading-anchor'], ariaHidden: 'true', tabIndex: -1 },
+    content: { type: 'text', value: '#' },
+  })
+  .use(rehypeHighlight, { detect: false })
+  .use(rehypeStringify)
+
+// Strip the frontmatter block MDX files start with, if it is still present
+function stripFrontmatter(content: string): string {
+  return content.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, '')
+}
+
+/**
+ * Renders post Markdown (Firestore or content/posts/*.mdx) to safe HTML
+ */
+export async function renderMarkdown(content: string): Promise<string> {
+  if (!content) {
+    return ''
+  }
+
+  try {
+    const file = await markdownProcessor.process(stripFrontmatter(content))
+    return String(file)
+  } catch (error) {
+    console.error('Error rendering markdown:', error)
+    return ''
+  }
+}
+
+/**
+ * Extracts the headings of a post for its table of contents. Ids are slugged
+ * with the same slugger, in the same document order, as rehype-slug does when
+ * rendering, so every entry links to the matching rendered heading.
+ */
+export function extractTableOfContents(
+  content: string,
+  { minDepth = 2, maxDepth = 3 }: { minDepth?: number; maxDepth?: number } = {}
+): TableOfContentsItem[] {
+  if (!content) {
+    return []
+  }
+
+  const tree = unified().use(remarkParse).use(remarkGfm).parse(stripFrontmatter(content))
+  const slugger = new GithubSlugger()
+  const items: TableOfContentsItem[] = []
+
+  visit(tree, 'heading', (node: Heading) => {
+    const text = toString(node, { includeHtml: false, includeImageAlt: false }).trim()
+    // Every heading is slugged, even ones left out of the TOC, to keep duplicate suffixes in sync
+    const id = slugger.slug(text)
+
+    if (text && node.depth >= minDepth && node.depth <= maxDepth) {
+      items.push({ id, text, depth: node.depth })
+    }
+  })
+
+  return items
+}
+
+/**
+ * Flattens post Markdown to plain text, for search indexing and snippets
+ */
+export function extractPlainText(content: string): string {
+  if (!content) {
+    return ''
+  }
+
+  const tree = unified().use(remarkParse).use(remarkGfm).parse(stripFrontmatter(content))
+  const parts: string[] = []
+
+  visit(tree, (node) => {
+    if (node.type === 'text' || node.type === 'inlineCode' || node.type === 'code') {
+      parts.push((node as { value: string }).value)
+    }
+  })
+
+  return parts.join(' ').replace(/\s+/g, ' ').trim()
+}
@@ -1,57 +1,142 @@
+import fs from 'fs'
+import path from 'path'
 import { Metadata } from 'next'
-import { BlogPost } from '@/types/blog'
+import { BlogPost, Author } from '@/types/blog'
+import { getPostOgImageUrl, getCategoryOgImageUrl, OG_IMAGE_SIZE } from '@/lib/og-image'
+import { seoConfig } from '@/data'
+
+// Apply the site-wide "%s | Site Name" title template
+export function formatTitle(title: string): string {
+  return seoConfig.titleTemplate.replace('%s', title)
+}
+
+// Remote images are assumed to exist; local ones must be in public/, since
+// MDX front matter can point at files that were never added
+function hasFeaturedImage(post: BlogPost): boolean {
+  if (!post.image) return false
+  if (!post.image.startsWith('/')) return true
+  return fs.existsSync(path.join(process.cwd(), 'public', post.image))
+}
 
 export function generateBlogPostMetadata(post: BlogPost): Metadata {
+  const title = post.seo?.metaTitle || post.title
+  const description = post.seo?.metaDescription || post.description
+  const canonical = post.seo?.canonicalUrl || `/blog/${post.slug}`
+
+  // An explicit seo.ogImage wins, then the featured image, then the generated card
+  const image = post.seo?.ogImage
+    ? { url: post.seo.ogImage, alt: post.title }
+    : hasFeaturedImage(post)
+      ? {
+          url: post.image,
+          ...(post.imageWidth && post.imageHeight && { width: post.imageWidth, height: post.imageHeight }),
+          alt: post.imageAlt || post.title
+        }
+      : { url: getPostOgImageUrl(post.slug, post.updatedAt || post.date), ...OG_IMAGE_SIZE, alt: post.title }
+
   return {
-    title: `${post.title} | Variety Vibes`,
-    description: post.description,
+    title: formatTitle(title),
+    description,
+    keywords: post.seo?.keywords.length ? post.seo.keywords : post.tags,
+    alternates: {
+      canonical,
+    },
+    robots: post.seo?.noindex ? { index: false, follow: true } : undefined,
     openGraph: {
-      title: post.title,
-      description: post.description,
-      images: post.image ? [post.image] : [],
+      title,
+      description,
+      url: canonical,
+      images: [image],
       type: 'article',
       publishedTime: post.date,
+      modifiedTime: post.updatedAt,
       authors: [post.author || 'Anonymous'],
       tags: post.tags,
     },
     twitter: {
       card: 'summary_large_image',
-      title: post.title,
-      description: post.description,
-      images: post.image ? [post.image] : [],
+      title,
+      description,
+      images: [image],
     },
   }
 }
 
-export function generateCategoryMetadata(categoryName: string, description: string): Metadata {
+export function generateCategoryMetadata(categoryName: string, description: string, slug?: string): Metadata {
+  const images = slug
+    ? [{ url: getCategoryOgImageUrl(slug), ...OG_IMAGE_SIZE, alt: categoryName }]
+    : undefined
+
   return {
-    title: `${categoryName} | Variety Vibes`,
+    title: formatTitle(categoryName),
     description: `${description} - Discover articles and insights about ${categoryName.toLowerCase()}.`,
     openGraph: {
-      title: `${categoryName} | Variety Vibes`,
+      title: formatTitle(categoryName),
       description: `${description} - Discover articles and insights about ${categoryName.toLowerCase()}.`,
       type: 'website',
+      images,
     },
     twitter: {
-      card: 'summary',
-      title: `${categoryName} | Variety Vibes`,
+      card: slug ? 'summary_large_image' : 'summary',
+      title: formatTitle(categoryName),
       description: `${description} - Discover articles and insights about ${categoryName.toLowerCase()}.`,
+      images,
+    },
+  }
+}
+
+export function generateTagMetadata(tagName: string, postCount: number, page: number = 1): Metadata {
+  const title = page > 1 ? formatTitle(`#${tagName} - Page ${page}`) : formatTitle(`#${tagName}`)
+  const description = `Browse ${postCount} ${postCount === 1 ? 'article' : 'articles'} tagged with "${tagName}" on Variety Vibes.`
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: 'website',
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description,
+    },
+  }
+}
+
+export function generateAuthorMetadata(author: Author): Metadata {
+  const description = author.bio || `Articles and insights by ${author.name}.`
+
+  return {
+    title: formatTitle(author.name),
+    description,
+    openGraph: {
+      title: formatTitle(author.name),
+      description,
+      type: 'profile',
+      images: author.avatar ? [author.avatar] : [],
+    },
+    twitter: {
+      card: 'summary',
+      title: formatTitle(author.name),
+      description,
     },
   }
 }
 
 export function generatePageMetadata(title: string, description: string): Metadata {
   return {
-    title: `${title} | Variety Vibes`,
+    title: formatTitle(title),
     description,
     openGraph: {
-      title: `${title} | Variety Vibes`,
+      title: formatTitle(title),
       description,
       type: 'website',
     },
     twitter: {
       card: 'summary',
-      title: `${title} | Variety Vibes`,
+      title: formatTitle(title),
       description,
     },
   }
@@ -0,0 +1,297 @@
+// Newsletter subscribers with double opt-in. Server-only; links in emails
+// carry signed tokens instead of subscriber ids.
+import { createHash } from 'crypto'
+import { FieldValue } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebase/admin'
+import { StatusError } from '@/lib/errors'
+import { toOptionalISOString } from '@/lib/utils'
+import { signToken, verifyToken } from '@/lib/signed-token'
+import { sendMail, renderEmailLayout, escapeHtml } from '@/lib/mail'
+import { siteConfig } from '@/data'
+import { SubscriberRow, SubscriberStatus } from '@/types/admin'
+
+export const SUBSCRIBERS_COLLECTION = 'subscribers'
+export const SUBSCRIBER_STATUSES: SubscriberStatus[] = ['pending', 'confirmed', 'unsubscribed']
+
+const CONFIRM_TOKEN_TTL = 60 * 60 * 24 * 7 // 7 days
+// Manage links appear in every newsletter, so they outlive any single issue
+const MANAGE_TOKEN_TTL = 60 * 60 * 24 * 365 * 2 // 2 years
+// Repeated signups for a pending address re-send at most this often
+const CONFIRMATION_RESEND_INTERVAL = 10 * 60 * 1000 // 10 minutes
+const MAX_CATEGORIES = 20
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+type NewsletterTokenPurpose = 'newsletter-confirm' | 'newsletter-manage'
+
+interface NewsletterTokenData {
+  email: string
+  purpose: NewsletterTokenPurpose
+}
+
+export interface SubscriberPreferences {
+  email: string
+  status: SubscriberStatus
+  categories: string[]
+}
+
+export interface SubscribeInput {
+  email: string
+  categories?: string[]
+  source?: string
+}
+
+export class NewsletterError extends StatusError {
+  name = 'NewsletterError'
+}
+
+function toMillis(value: any): number {
+  if (!value) return 0
+  if (typeof value.toMillis === 'function') return value.toMillis()
+  return new Date(value).getTime()
+}
+
+// Subscriber documents are keyed by a hash of the address, so signing up
+// twice updates the same document
+function getSubscriberRef(email: string) {
+  const id = createHash('sha256').update(email).digest('hex')
+  return getAdminDb().collection(SUBSCRIBERS_COLLECTION).doc(id)
+}
+
+export function normalizeEmail(email: unknown): string {
+  return typeof email === 'string' ? email.trim().toLowerCase() : ''
+}
+
+export function normalizeCategories(categories: unknown): string[] {
+  if (!Array.isArray(categories)) return []
+
+  return Array.from(new Set(
+    categories
+      .filter((category): category is string => typeof category === 'string')
+      .map((category) => category.trim().toLowerCase())
+      .filter((category) => /^[a-z0-9-]+$/.test(category))
+  )).slice(0, MAX_CATEGORIES)
+}
+
+export function createNewsletterToken(email: string, purpose: NewsletterTokenPurpose): Promise<string> {
+  return signToken<NewsletterTokenData>(
+    { email, purpose },
+    purpose === 'newsletter-confirm' ? CONFIRM_TOKEN_TTL : MANAGE_TOKEN_TTL
+  )
+}
+
+async function verifyNewsletterToken(token: string | null | undefined, purpose: NewsletterTokenPurpose): Promise<string | null> {
+  const data = await verifyToken<NewsletterTokenData>(token)
+  return data?.purpose === purpose ? data.email : null
+}
+
+/**
+ * Link to the preferences page, where subscribers can change categories or
+ * unsubscribe
+ */
+export async function getManageUrl(email: string): Promise<string> {
+  const token = await createNewsletterToken(email, 'newsletter-manage')
+  return `${siteConfig.baseUrl}/newsletter?token=${encodeURIComponent(token)}`
+}
+
+/**
+ * RFC 8058 one-click unsubscribe headers for newsletter emails
+ */
+export async function getUnsubscribeHeaders(email: string): Promise<Record<string, string>> {
+  const token = await createNewsletterToken(email, 'newsletter-manage')
+  return {
+    'List-Unsubscribe': `<${siteConfig.baseUrl}/api/newsletter/unsubscribe?token=${encodeURIComponent(token)}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+  }
+}
+
+function renderConfirmationEmail(confirmUrl: string) {
+  const subject = `Confirm your subscription to ${siteConfig.name}`
+  const html = renderEmailLayout(
+    `<h1 style="font-size:22px;margin:0 0 16px;">Confirm your subscription</h1>
+              <p style="font-size:16px;line-height:1.6;color:#374151;margin:0 0 24px;">Thanks for signing up! Please confirm your email address to start receiving our newsletter.</p>
+              <a href="${escapeHtml(confirmUrl)}" style="display:inline-block;background:#2563eb;color:#ffffff;text-decoration:none;font-weight:600;padding:12px 24px;border-radius:6px;">Confirm subscription</a>
+              <p style="font-size:14px;line-height:1.6;color:#6b7280;margin:24px 0 0;">This link expires in 7 days.</p>`,
+    "If you didn't sign up, you can ignore this email and you won't hear from us again."
+  )
+  const text = [
+    'Confirm your subscription',
+    '',
+    'Thanks for signing up! Please confirm your email address to start receiving our newsletter:',
+    confirmUrl,
+    '',
+    'This link expires in 7 days.',
+    "If you didn't sign up, you can ignore this email and you won't hear from us again."
+  ].join('\n')
+
+  return { subject, html, text }
+}
+
+/**
+ * Records a signup and emails a confirmation link. Confirmed addresses are
+ * left untouched so nobody can change another reader's preferences, and the
+ * response never reveals whether an address was already subscribed.
+ */
+export async function subscribe(input: SubscribeInput): Promise<void> {
+  const email = normalizeEmail(input.email)
+  if (!EMAIL_PATTERN.test(email)) {
+    throw new NewsletterError('Please enter a valid email address')
+  }
+
+  const subscriberRef = getSubscriberRef(email)
+  const existing = (await subscriberRef.get()).data()
+
+  if (existing?.status === 'confirmed') {
+    return
+  }
+
+  if (
+    existing?.status === 'pending' &&
+    Date.now() - toMillis(existing.confirmationSentAt) < CONFIRMATION_RESEND_INTERVAL
+  ) {
+    return
+  }
+
+  await subscriberRef.set({
+    email,
+    status: 'pending',
+    categories: normalizeCategories(input.categories),
+    source: input.source || 'website',
+    createdAt: existing?.createdAt || FieldValue.serverTimestamp(),
+    confirmationSentAt: FieldValue.serverTimestamp()
+  }, { merge: true })
+
+  const token = await createNewsletterToken(email, 'newsletter-confirm')
+  const confirmUrl = `${siteConfig.baseUrl}/api/newsletter/confirm?token=${encodeURIComponent(token)}`
+  await sendMail({ to: email, ...renderConfirmationEmail(confirmUrl) })
+}
+
+/**
+ * Confirms the address in a confirmation token. Returns the email, or null
+ * when the token is invalid or the signup no longer exists.
+ */
+export async function confirmSubscription(token: string | null): Promise<string | null> {
+  const email = await verifyNewsletterToken(token, 'newsletter-confirm')
+  if (!email) return null
+
+  const subscriberRef = getSubscriberRef(email)
+  const subscriber = (await subscriberRef.get()).data()
+  if (!subscriber) return null
+
+  if (subscriber.status !== 'confirmed') {
+    await subscriberRef.update({
+      status: 'confirmed',
+      confirmedAt: FieldValue.serverTimestamp()
+    })
+  }
+
+  return email
+}
+
+export async function getSubscriberPreferences(token: string | null | undefined): Promise<SubscriberPreferences | null> {
+  const email = await verifyNewsletterToken(token, 'newsletter-manage')
+  if (!email) return null
+
+  const subscriber = (await getSubscriberRef(email).get()).data()
+  if (!subscriber) return null
+
+  return {
+    email,
+    status: subscriber.status,
+    categories: subscriber.categories || []
+  }
+}
+
+/**
+ * Replaces the subscriber's category interests. Re-subscribes an address
+ * that had unsubscribed, since the manage link proves ownership.
+ */
+export async function updateSubscriberPreferences(
+  token: string | null | undefined,
+  categories: unknown
+): Promise<SubscriberPreferences | null> {
+  const preferences = await getSubscriberPreferences(token)
+  if (!preferences) return null
+
+  const nextCategories = normalizeCategories(categories)
+  const resubscribe = preferences.status === 'unsubscribed'
+
+  await getSubscriberRef(preferences.email).update({
+    categories: nextCategories,
+    ...(resubscribe && {
+      status: 'confirmed',
+      confirmedAt: FieldValue.serverTimestamp(),
+      unsubscribedAt: FieldValue.delete()
+    })
+  })
+
+  return {
+    ...preferences,
+    status: resubscribe ? 'confirmed' : preferences.status,
+    categories: nextCategories
+  }
+}
+
+export async function unsubscribe(token: string | null | undefined): Promise<boolean> {
+  const email = await verifyNewsletterToken(token, 'newsletter-manage')
+  if (!email) return false
+
+  const subscriberRef = getSubscriberRef(email)
+  const subscriber = (await subscriberRef.get()).data()
+  if (!subscriber) return false
+
+  if (subscriber.status !== 'unsubscribed') {
+    await subscriberRef.update({
+      status: 'unsubscribed',
+      unsubscribedAt: FieldValue.serverTimestamp()
+    })
+  }
+
+  return true
+}
+
+/**
+ * Newest-first subscribers, optionally filtered by status
+ */
+export async function listSubscribers(status?: SubscriberStatus): Promise<SubscriberRow[]> {
+  const collection = getAdminDb().collection(SUBSCRIBERS_COLLECTION)
+  const query = status ? collection.where('status', '==', status) : collection
+
+  const snapshot = await query.orderBy('createdAt', 'desc').get()
+  return snapshot.docs.map((doc) => {
+    const data = doc.data()
+    return {
+      id: doc.id,
+      email: data.email,
+      status: data.status,
+      categories: data.categories || [],
+      source: data.source || '',
+      createdAt: toOptionalISOString(data.createdAt),
+      confirmedAt: toOptionalISOString(data.confirmedAt),
+      unsubscribedAt: toOptionalISOString(data.unsubscribedAt)
+    }
+  })
+}
+
+function escapeCsvField(value: string): string {
+  // Quote fields with delimiters and neutralize spreadsheet formulas
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export function subscribersToCsv(subscribers: SubscriberRow[]): string {
+  const header = ['email', 'status', 'categories', 'source', 'created_at', 'confirmed_at', 'unsubscribed_at']
+  const rows = subscribers.map((subscriber) => [
+    subscriber.email,
+    subscriber.status,
+    subscriber.categories.join(';'),
+    subscriber.source,
+    subscriber.createdAt || '',
+    subscriber.confirmedAt || '',
+    subscriber.unsubscribedAt || ''
+  ])
+
+  return [header, ...rows]
+    .map((row) => row.map(escapeCsvField).join(','))
+    .join('\n') + '\n'
+}
@@ -0,0 +1,123 @@
+import { ImageResponse } from 'next/og'
+import { siteConfig } from '@/data'
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 }
+
+// Brand blue, used when a category has no color of its own
+const DEFAULT_ACCENT = '#3B82F6'
+
+interface OgCardOptions {
+  title: string
+  // Small label above the title, e.g. the category name
+  eyebrow?: string
+  icon?: string
+  color?: string
+  // Line under the title, e.g. the author's name
+  byline?: string
+}
+
+/**
+ * OG image URL for a post; the version query busts caches when the post changes
+ */
+export function getPostOgImageUrl(slug: string, version?: string): string {
+  const timestamp = version ? new Date(version).getTime() : NaN
+  return Number.isFinite(timestamp) ? `/api/og/post/${slug}?v=${timestamp}` : `/api/og/post/${slug}`
+}
+
+export function getCategoryOgImageUrl(slug: string): string {
+  return `/api/og/category/${slug}`
+}
+
+// Long titles step down in size so they still fit in three lines
+function getTitleFontSize(title: string): number {
+  if (title.length > 90) return 52
+  if (title.length > 60) return 60
+  return 72
+}
+
+/**
+ * Branded 1200x630 card with the site name, an accent bar in the category
+ * color and the category icon
+ */
+export function renderOgImage({ title, eyebrow, icon, color, byline }: OgCardOptions): ImageResponse {
+  const accent = /^#[0-9a-f]{3,8}$/i.test(color || '') ? color! : DEFAULT_ACCENT
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          backgroundColor: '#ffffff'
+        }}
+      >
+        <div style={{ width: 24, height: '100%', backgroundColor: accent }} />
+
+        <div
+          style={{
+            flex: 1,
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'space-between',
+            padding: '64px 72px'
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: 20 }}>
+            {icon && (
+              <div
+                style={{
+                  width: 72,
+                  height: 72,
+                  borderRadius: 16,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  fontSize: 40,
+                  backgroundColor: accent,
+                  color: '#ffffff'
+                }}
+              >
+                {icon}
+              </div>
+            )}
+            {eyebrow && (
+              <div style={{ fontSize: 32, fontWeight: 600, color: accent }}>
+                {eyebrow}
+              </div>
+            )}
+          </div>
+
+          <div
+            style={{
+              display: 'flex',
+              fontSize: getTitleFontSize(title),
+              fontWeight: 700,
+              lineHeight: 1.15,
+              color: '#111827'
+            }}
+          >
+            {title}
+          </div>
+
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              fontSize: 28,
+              color: '#4B5563'
+            }}
+          >
+            <div style={{ display: 'flex' }}>{byline || ''}</div>
+            <div style={{ display: 'flex', fontWeight: 700, color: '#111827' }}>{siteConfig.name}</div>
+          </div>
+        </div>
+      </div>
+    ),
+    {
+      ...OG_IMAGE_SIZE,
+      emoji: 'twemoji'
+    }
+  )
+}
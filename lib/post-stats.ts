@@ -0,0 +1,259 @@
+// Post views, likes and shares. Each event increments one of a fixed set of
+// counter shards so popular posts don't hit Firestore's per-document write
+// limit; rollupPostStats later folds the shards into the post, category and
+// author totals the admin reads. Server-only.
+import { createHash, randomUUID } from 'crypto'
+import { DocumentReference, FieldValue, Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebase/admin'
+import { StatusError } from '@/lib/errors'
+import { signToken, verifyToken } from '@/lib/signed-token'
+import { PostStats, ShareNetwork } from '@/types/blog'
+
+export const POST_STATS_COLLECTION = 'post_stats'
+export const COUNTER_SHARDS_COLLECTION = 'counter_shards'
+export const POST_LIKES_COLLECTION = 'post_likes'
+// Dedupe markers for views and shares; expiresAt can drive a Firestore TTL policy
+export const POST_INTERACTIONS_COLLECTION = 'post_interactions'
+
+export const COUNTER_SHARD_COUNT = 10
+
+// Identifies a returning visitor for deduplication; holds no personal data
+export const VISITOR_COOKIE = 'vv_vid'
+export const VISITOR_COOKIE_MAX_AGE = 365 * 24 * 60 * 60 // 1 year
+
+export const SHARE_NETWORKS: ShareNetwork[] = ['twitter', 'facebook', 'linkedin', 'email', 'copy', 'native']
+
+// A visitor counts once per post (and per network for shares) in this window
+const DEDUPE_WINDOW = 24 * 60 * 60 * 1000 // 1 day
+
+// Firestore's ALREADY_EXISTS status code
+const ALREADY_EXISTS = 6
+
+const BOT_PATTERN = /bot|crawl|spider|slurp|scrape|fetch|preview|facebookexternalhit|embedly|headless|lighthouse|pingdom|monitor|curl|wget|python|java\/|go-http-client|okhttp|axios|node|httpclient|postman/i
+
+type Counter = 'views' | 'likes' | 'shares'
+
+interface VisitorTokenData {
+  purpose: 'visitor'
+  id: string
+}
+
+export class PostStatsError extends StatusError {
+  name = 'PostStatsError'
+}
+
+/**
+ * True for crawlers, link unfurlers, HTTP libraries and browser prefetches,
+ * none of which should count as a reader
+ */
+export function isBotRequest(headers: Headers): boolean {
+  const userAgent = headers.get('user-agent') || ''
+  const purpose = headers.get('sec-purpose') || headers.get('purpose') || ''
+
+  return !userAgent || BOT_PATTERN.test(userAgent) || purpose.includes('prefetch')
+}
+
+/**
+ * A new random visitor id and the signed cookie value that carries it
+ */
+export async function createVisitorCookie(): Promise<{ visitorId: string; value: string }> {
+  const visitorId = randomUUID()
+  const value = await signToken<VisitorTokenData>({ purpose: 'visitor', id: visitorId }, VISITOR_COOKIE_MAX_AGE)
+  return { visitorId, value }
+}
+
+/**
+ * The visitor id in a cookie value, or null when it is missing or wasn't
+ * signed by us, so clients can't pick their own id to dodge deduplication
+ */
+export async function verifyVisitorCookie(value: string | undefined): Promise<string | null> {
+  const data = await verifyToken<VisitorTokenData>(value)
+  return data?.purpose === 'visitor' && data.id ? data.id : null
+}
+
+function hashKey(...parts: string[]): string {
+  return createHash('sha256').update(parts.join('|')).digest('hex')
+}
+
+function shardsRef(slug: string) {
+  return getAdminDb().collection(POST_STATS_COLLECTION).doc(slug).collection(COUNTER_SHARDS_COLLECTION)
+}
+
+function randomShardRef(slug: string) {
+  return shardsRef(slug).doc(String(Math.floor(Math.random() * COUNTER_SHARD_COUNT)))
+}
+
+async function incrementCounter(slug: string, counter: Counter, amount: number = 1): Promise<void> {
+  await randomShardRef(slug).set({ [counter]: FieldValue.increment(amount) }, { merge: true })
+}
+
+/**
+ * Writes a marker for this visitor and window; false when one already exists
+ */
+async function claimInteraction(key: string, data: Record<string, string>): Promise<boolean> {
+  const window = Math.floor(Date.now() / DEDUPE_WINDOW)
+
+  try {
+    await getAdminDb()
+      .collection(POST_INTERACTIONS_COLLECTION)
+      .doc(hashKey(key, String(window)))
+      .create({
+        ...data,
+        createdAt: FieldValue.serverTimestamp(),
+        expiresAt: Timestamp.fromMillis((window + 1) * DEDUPE_WINDOW)
+      })
+    return true
+  } catch (error: any) {
+    if (error?.code === ALREADY_EXISTS) {
+      return false
+    }
+    throw error
+  }
+}
+
+/**
+ * Counts a view unless the visitor already viewed the post today
+ */
+export async function recordView(slug: string, visitorId: string): Promise<boolean> {
+  const claimed = await claimInteraction(`view|${slug}|${visitorId}`, { type: 'view', postSlug: slug })
+  if (claimed) {
+    await incrementCounter(slug, 'views')
+  }
+  return claimed
+}
+
+/**
+ * Counts a share unless the visitor already shared the post to this network today
+ */
+export async function recordShare(slug: string, visitorId: string, network: ShareNetwork): Promise<boolean> {
+  const claimed = await claimInteraction(`share|${slug}|${network}|${visitorId}`, { type: 'share', postSlug: slug, network })
+  if (claimed) {
+    await incrementCounter(slug, 'shares')
+  }
+  return claimed
+}
+
+/**
+ * Likes or unlikes the post for the visitor. Repeating the same action is a
+ * no-op, so each visitor counts at most once.
+ */
+export async function setLiked(slug: string, visitorId: string, liked: boolean): Promise<void> {
+  const db = getAdminDb()
+  const likeRef = db.collection(POST_LIKES_COLLECTION).doc(hashKey(slug, visitorId))
+  const shardRef = randomShardRef(slug)
+
+  await db.runTransaction(async (transaction) => {
+    const existing = await transaction.get(likeRef)
+    if (existing.exists === liked) return
+
+    if (liked) {
+      transaction.create(likeRef, { postSlug: slug, createdAt: FieldValue.serverTimestamp() })
+    } else {
+      transaction.delete(likeRef)
+    }
+    transaction.set(shardRef, { likes: FieldValue.increment(liked ? 1 : -1) }, { merge: true })
+  })
+}
+
+/**
+ * Live totals for a post, summed across its shards
+ */
+export async function getPostStats(slug: string, visitorId?: string): Promise<PostStats> {
+  const [shards, like] = await Promise.all([
+    shardsRef(slug).get(),
+    visitorId
+      ? getAdminDb().collection(POST_LIKES_COLLECTION).doc(hashKey(slug, visitorId)).get()
+      : null
+  ])
+
+  const stats: PostStats = { views: 0, likes: 0, shares: 0, liked: Boolean(like?.exists) }
+  shards.docs.forEach((shard) => {
+    const data = shard.data()
+    stats.views += data.views || 0
+    stats.likes += data.likes || 0
+    stats.shares += data.shares || 0
+  })
+
+  return stats
+}
+
+export interface StatsRollupResult {
+  // Posts whose counters changed
+  posts: number
+  // Categories and authors whose totalViews changed
+  totals: number
+}
+
+/**
+ * Copies the shard totals onto each post, then recomputes category and
+ * author totalViews from the posts. Safe to run repeatedly.
+ */
+export async function rollupPostStats(): Promise<StatsRollupResult> {
+  const db = getAdminDb()
+  const [shardsSnapshot, postsSnapshot] = await Promise.all([
+    db.collectionGroup(COUNTER_SHARDS_COLLECTION).get(),
+    db.collection('posts').get()
+  ])
+
+  // Shard totals keyed by post slug (the parent post_stats document id)
+  const totals = new Map<string, Record<Counter, number>>()
+  shardsSnapshot.docs.forEach((shard) => {
+    const slug = shard.ref.parent.parent?.id
+    if (!slug) return
+
+    const data = shard.data()
+    const total = totals.get(slug) || { views: 0, likes: 0, shares: 0 }
+    total.views += data.views || 0
+    total.likes += data.likes || 0
+    total.shares += data.shares || 0
+    totals.set(slug, total)
+  })
+
+  const categoryViews = new Map<string, number>()
+  const authorViews = new Map<string, number>()
+  const updates: { ref: DocumentReference; data: Record<string, number> }[] = []
+
+  postsSnapshot.docs.forEach((doc) => {
+    const post = doc.data()
+    const total = totals.get(post.slug)
+    const views = total ? total.views : post.views || 0
+
+    if (total && (total.views !== post.views || total.likes !== post.likes || total.shares !== post.shares)) {
+      updates.push({ ref: doc.ref, data: total })
+    }
+
+    if (post.categoryId) {
+      categoryViews.set(post.categoryId, (categoryViews.get(post.categoryId) || 0) + views)
+    }
+    if (post.authorId) {
+      authorViews.set(post.authorId, (authorViews.get(post.authorId) || 0) + views)
+    }
+  })
+  const postUpdates = updates.length
+
+  // Only touch categories and authors that still exist and have changed
+  const rollupRefs = [
+    ...Array.from(categoryViews.keys()).map((id) => ({ ref: db.collection('categories').doc(id), totalViews: categoryViews.get(id) || 0 })),
+    ...Array.from(authorViews.keys()).map((id) => ({ ref: db.collection('users').doc(id), totalViews: authorViews.get(id) || 0 }))
+  ]
+  const rollupDocs = rollupRefs.length > 0 ? await db.getAll(...rollupRefs.map(({ ref }) => ref)) : []
+
+  rollupDocs.forEach((doc, index) => {
+    const { ref, totalViews } = rollupRefs[index]
+    if (doc.exists && doc.data()?.totalViews !== totalViews) {
+      updates.push({ ref, data: { totalViews } })
+    }
+  })
+
+  // Firestore batches are capped at 500 writes
+  for (let i = 0; i < updates.length; i += 500) {
+    const batch = db.batch()
+    updates.slice(i, i + 500).forEach(({ ref, data }) => batch.update(ref, data))
+    await batch.commit()
+  }
+
+  return {
+    posts: postUpdates,
+    totals: updates.length - postUpdates
+  }
+}
@@ -0,0 +1,148 @@
+// Preview links: signed, expiring tokens that show any post, including
+// drafts and scheduled posts, through the public post layout. Each link has
+// a record in preview_links so it can be listed and revoked. Server-only.
+import { FieldValue, Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebase/admin'
+import { StatusError } from '@/lib/errors'
+import { toISOString } from '@/lib/utils'
+import { signToken, verifyToken } from '@/lib/signed-token'
+import { convertFirestorePostToBlogPost, getAuthorByIdFromDB } from '@/lib/blog-db'
+import { siteConfig } from '@/data'
+import { BlogPost } from '@/types/blog'
+import { FirestorePost, PreviewLinkRow, UserRole } from '@/types/admin'
+
+export const PREVIEW_LINKS_COLLECTION = 'preview_links'
+
+// Link lifetimes offered in the admin, in days
+export const PREVIEW_LINK_DURATIONS = [1, 7, 30]
+
+const DAY_SECONDS = 24 * 60 * 60
+
+export class PreviewError extends StatusError {
+  name = 'PreviewError'
+}
+
+interface PreviewTokenData {
+  purpose: 'post-preview'
+  linkId: string
+  postId: string
+}
+
+function toPreviewLinkRow(id: string, data: Record<string, any>): PreviewLinkRow {
+  const expiresAt = toISOString(data.expiresAt)
+  return {
+    id,
+    url: getPreviewUrl(data.token),
+    createdByName: data.createdByName,
+    createdAt: toISOString(data.createdAt),
+    expiresAt,
+    revokedAt: data.revokedAt ? toISOString(data.revokedAt) : null,
+    active: !data.revokedAt && new Date(expiresAt).getTime() > Date.now()
+  }
+}
+
+export function getPreviewUrl(token: string): string {
+  return `${siteConfig.baseUrl}/preview/${token}`
+}
+
+/**
+ * Checks that the user may share previews of a post: authors only their own
+ */
+export async function assertCanPreviewPost(postId: string, user: { uid: string; role: UserRole }): Promise<void> {
+  const postDoc = await getAdminDb().collection('posts').doc(postId).get()
+
+  if (!postDoc.exists) {
+    throw new PreviewError('Post not found', 404)
+  }
+  if (user.role === 'author' && postDoc.data()?.authorId !== user.uid) {
+    throw new PreviewError('Access denied', 403)
+  }
+}
+
+export async function createPreviewLink(
+  postId: string,
+  creator: { uid: string; name: string },
+  days: number
+): Promise<PreviewLinkRow> {
+  if (!PREVIEW_LINK_DURATIONS.includes(days)) {
+    throw new PreviewError(`Duration must be one of: ${PREVIEW_LINK_DURATIONS.join(', ')} days`)
+  }
+
+  const ref = getAdminDb().collection(PREVIEW_LINKS_COLLECTION).doc()
+  const token = await signToken<PreviewTokenData>(
+    { purpose: 'post-preview', linkId: ref.id, postId },
+    days * DAY_SECONDS
+  )
+  const data = {
+    postId,
+    token,
+    createdBy: creator.uid,
+    createdByName: creator.name,
+    createdAt: FieldValue.serverTimestamp(),
+    expiresAt: Timestamp.fromMillis(Date.now() + days * DAY_SECONDS * 1000),
+    revokedAt: null
+  }
+
+  await ref.create(data)
+  return toPreviewLinkRow(ref.id, { ...data, createdAt: new Date() })
+}
+
+/**
+ * A post's preview links, newest first
+ */
+export async function listPreviewLinks(postId: string): Promise<PreviewLinkRow[]> {
+  const snapshot = await getAdminDb()
+    .collection(PREVIEW_LINKS_COLLECTION)
+    .where('postId', '==', postId)
+    .orderBy('createdAt', 'desc')
+    .get()
+
+  return snapshot.docs.map((doc) => toPreviewLinkRow(doc.id, doc.data()))
+}
+
+export async function revokePreviewLink(postId: string, linkId: string): Promise<void> {
+  const ref = getAdminDb().collection(PREVIEW_LINKS_COLLECTION).doc(linkId)
+  const link = (await ref.get()).data()
+
+  if (!link || link.postId !== postId) {
+    throw new PreviewError('Preview link not found', 404)
+  }
+
+  if (!link.revokedAt) {
+    await ref.update({ revokedAt: FieldValue.serverTimestamp() })
+  }
+}
+
+/**
+ * The post behind a preview token, or null when the token is invalid,
+ * expired or revoked, or the post has been deleted
+ */
+export async function getPreviewPost(token: string): Promise<BlogPost | null> {
+  const data = await verifyToken<PreviewTokenData>(token)
+  if (data?.purpose !== 'post-preview') {
+    return null
+  }
+
+  const db = getAdminDb()
+  const [linkDoc, postDoc] = await db.getAll(
+    db.collection(PREVIEW_LINKS_COLLECTION).doc(data.linkId),
+    db.collection('posts').doc(data.postId)
+  )
+
+  const link = linkDoc.data()
+  if (!link || link.postId !== data.postId || link.revokedAt || !postDoc.exists) {
+    return null
+  }
+
+  const postData = { id: postDoc.id, ...postDoc.data() } as FirestorePost & { id: string }
+  const post = convertFirestorePostToBlogPost(postData)
+
+  const [categoryDoc, author] = await Promise.all([
+    postData.categoryId ? db.collection('categories').doc(postData.categoryId).get() : null,
+    postData.authorId ? getAuthorByIdFromDB(postData.authorId) : null
+  ])
+  post.category = categoryDoc?.data()?.slug || post.category
+  post.author = author?.name || 'Anonymous'
+
+  return post
+}
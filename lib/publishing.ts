@@ -0,0 +1,241 @@
+// Post publishing: the scheduler that publishes due scheduled posts and
+// expires time-sensitive ones, plus the counter bookkeeping shared with
+// manual publishes in the admin API. Server-only.
+import { DocumentReference, FieldValue, Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebase/admin'
+import { logActivity } from '@/lib/activity'
+import { updatePostSearchIndex } from '@/lib/search-index'
+import { cache } from '@/lib/cache'
+import { PostExpiryAction } from '@/types/admin'
+
+// Posts published (or expired) per scheduler run; the rest wait for the next run
+const MAX_POSTS_PER_RUN = 50
+
+export interface PublishedPost {
+  id: string
+  slug: string
+  title: string
+}
+
+export interface ExpiredPost extends PublishedPost {
+  action: PostExpiryAction
+}
+
+export interface PublishRunResult {
+  published: PublishedPost[]
+  failed: number
+}
+
+export interface ExpiryRunResult {
+  expired: ExpiredPost[]
+  failed: number
+}
+
+/**
+ * +1 when a post becomes published, -1 when it stops being published
+ */
+export function getPublishedCountDelta(fromStatus: string | null, toStatus: string | null): number {
+  if (fromStatus === toStatus) return 0
+  if (toStatus === 'published') return 1
+  if (fromStatus === 'published') return -1
+  return 0
+}
+
+/**
+ * Adjusts publishedCount on the post's category and author
+ */
+export async function updatePublishedCounters(
+  post: { categoryId?: string; authorId?: string },
+  delta: number
+): Promise<void> {
+  if (delta === 0) return
+
+  const db = getAdminDb()
+  await Promise.all([
+    post.categoryId && db.collection('categories').doc(post.categoryId).update({ publishedCount: FieldValue.increment(delta) }),
+    post.authorId && db.collection('users').doc(post.authorId).update({ publishedCount: FieldValue.increment(delta) })
+  ])
+}
+
+/**
+ * Drops cached public pages data so the next request sees the change
+ */
+export function invalidateBlogCache(): void {
+  cache.deleteByPrefix('blog:')
+}
+
+/**
+ * Publishes one scheduled post if it is still scheduled and due. The status
+ * change, counters and activity entry commit together.
+ */
+async function publishScheduledPost(postId: string, now: Date): Promise<PublishedPost | null> {
+  const db = getAdminDb()
+  const postRef = db.collection('posts').doc(postId)
+
+  const published = await db.runTransaction(async (transaction) => {
+    const post = (await transaction.get(postRef)).data()
+
+    // Unscheduled, rescheduled or published by an editor since the query ran
+    if (!post || post.status !== 'scheduled' || !post.scheduledFor || post.scheduledFor.toMillis() > now.getTime()) {
+      return null
+    }
+
+    const counterRefs: DocumentReference[] = []
+    if (post.categoryId) counterRefs.push(db.collection('categories').doc(post.categoryId))
+    if (post.authorId) counterRefs.push(db.collection('users').doc(post.authorId))
+    const counterDocs = counterRefs.length > 0 ? await transaction.getAll(...counterRefs) : []
+
+    transaction.update(postRef, {
+      status: 'published',
+      // Date the post as intended, even if the scheduler ran late
+      publishDate: post.scheduledFor,
+      scheduledFor: null
+    })
+
+    counterDocs
+      .filter((doc) => doc.exists)
+      .forEach((doc) => transaction.update(doc.ref, { publishedCount: FieldValue.increment(1) }))
+
+    await logActivity({
+      type: 'post_published',
+      title: 'Scheduled post published',
+      description: `"${post.title}" was published as scheduled`,
+      userId: null,
+      userName: 'Scheduler',
+      postId
+    }, transaction)
+
+    return { id: postId, slug: post.slug as string, title: post.title as string }
+  })
+
+  if (published) {
+    await updatePostSearchIndex(postId).catch((error) => {
+      console.error('Error updating search index:', error)
+    })
+  }
+
+  return published
+}
+
+/**
+ * Publishes every scheduled post whose scheduledFor has passed. Safe to run
+ * concurrently: each post is re-checked inside its own transaction.
+ */
+export async function publishDuePosts(now: Date = new Date()): Promise<PublishRunResult> {
+  const snapshot = await getAdminDb()
+    .collection('posts')
+    .where('status', '==', 'scheduled')
+    .where('scheduledFor', '<=', Timestamp.fromDate(now))
+    .orderBy('scheduledFor', 'asc')
+    .limit(MAX_POSTS_PER_RUN)
+    .get()
+
+  const result: PublishRunResult = { published: [], failed: 0 }
+
+  for (const doc of snapshot.docs) {
+    try {
+      const published = await publishScheduledPost(doc.id, now)
+      if (published) {
+        result.published.push(published)
+      }
+    } catch (error) {
+      console.error(`Error publishing scheduled post ${doc.id}:`, error)
+      result.failed++
+    }
+  }
+
+  if (result.published.length > 0) {
+    invalidateBlogCache()
+  }
+
+  return result
+}
+
+/**
+ * Expires one published post if it is still due: archives it, or leaves it
+ * live with expiredAt set so readers see the "outdated" banner.
+ */
+async function expirePost(postId: string, now: Date): Promise<ExpiredPost | null> {
+  const db = getAdminDb()
+  const postRef = db.collection('posts').doc(postId)
+
+  const expired = await db.runTransaction(async (transaction) => {
+    const post = (await transaction.get(postRef)).data()
+
+    // Unpublished or given a later expiry since the query ran
+    if (!post || post.status !== 'published' || !post.expiresAt || post.expiresAt.toMillis() > now.getTime()) {
+      return null
+    }
+
+    const action: PostExpiryAction = post.expiryAction === 'banner' ? 'banner' : 'archive'
+
+    const counterRefs: DocumentReference[] = []
+    if (action === 'archive' && post.categoryId) counterRefs.push(db.collection('categories').doc(post.categoryId))
+    if (action === 'archive' && post.authorId) counterRefs.push(db.collection('users').doc(post.authorId))
+    const counterDocs = counterRefs.length > 0 ? await transaction.getAll(...counterRefs) : []
+
+    transaction.update(postRef, {
+      ...(action === 'archive' && { status: 'archived' }),
+      expiredAt: post.expiresAt,
+      expiresAt: null
+    })
+
+    counterDocs
+      .filter((doc) => doc.exists)
+      .forEach((doc) => transaction.update(doc.ref, { publishedCount: FieldValue.increment(-1) }))
+
+    await logActivity({
+      type: 'post_expired',
+      title: action === 'archive' ? 'Expired post archived' : 'Post marked outdated',
+      description: action === 'archive'
+        ? `"${post.title}" reached its expiry date and was archived`
+        : `"${post.title}" reached its expiry date and now shows an outdated banner`,
+      userId: null,
+      userName: 'Scheduler',
+      postId
+    }, transaction)
+
+    return { id: postId, slug: post.slug as string, title: post.title as string, action }
+  })
+
+  if (expired) {
+    await updatePostSearchIndex(postId).catch((error) => {
+      console.error('Error updating search index:', error)
+    })
+  }
+
+  return expired
+}
+
+/**
+ * Expires every published post whose expiresAt has passed
+ */
+export async function expireDuePosts(now: Date = new Date()): Promise<ExpiryRunResult> {
+  const snapshot = await getAdminDb()
+    .collection('posts')
+    .where('status', '==', 'published')
+    .where('expiresAt', '<=', Timestamp.fromDate(now))
+    .orderBy('expiresAt', 'asc')
+    .limit(MAX_POSTS_PER_RUN)
+    .get()
+
+  const result: ExpiryRunResult = { expired: [], failed: 0 }
+
+  for (const doc of snapshot.docs) {
+    try {
+      const expired = await expirePost(doc.id, now)
+      if (expired) {
+        result.expired.push(expired)
+      }
+    } catch (error) {
+      console.error(`Error expiring post ${doc.id}:`, error)
+      result.failed++
+    }
+  }
+
+  if (result.expired.length > 0) {
+    invalidateBlogCache()
+  }
+
+  return result
+}
@@ -0,0 +1,127 @@
+import { BlogPost, RelatedPost } from '@/types/blog'
+import { getAllPostsFromDB } from '@/lib/blog-db'
+import { getAllPosts } from '@/lib/blog'
+import { getCachedOrFetch, CACHE_KEYS, CACHE_TTL } from '@/lib/cache'
+import { tokenize } from '@/lib/search'
+import { getTagSlug } from '@/lib/utils'
+import { siteConfig } from '@/data'
+
+// How much each signal contributes to a candidate's score
+const SHARED_TAG_WEIGHT = 3
+const SAME_CATEGORY_WEIGHT = 2
+const CONTENT_SIMILARITY_WEIGHT = 5
+
+type TermVector = Map<string, number>
+
+// TF-IDF vectors over title + content, normalized to unit length
+function buildTermVectors(posts: BlogPost[]): Map<string, TermVector> {
+  const termCounts = posts.map((post) => {
+    const counts = new Map<string, number>()
+    for (const term of tokenize(`${post.title} ${post.content}`)) {
+      counts.set(term, (counts.get(term) || 0) + 1)
+    }
+    return counts
+  })
+
+  const documentFrequency = new Map<string, number>()
+  for (const counts of termCounts) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)
+    }
+  }
+
+  const vectors = new Map<string, TermVector>()
+  posts.forEach((post, i) => {
+    const vector: TermVector = new Map()
+    let norm = 0
+
+    for (const [term, count] of termCounts[i]) {
+      const weight = (1 + Math.log(count)) * Math.log(1 + posts.length / documentFrequency.get(term)!)
+      vector.set(term, weight)
+      norm += weight * weight
+    }
+
+    norm = Math.sqrt(norm)
+    for (const [term, weight] of vector) {
+      vector.set(term, weight / norm)
+    }
+    vectors.set(post.slug, vector)
+  })
+
+  return vectors
+}
+
+function cosineSimilarity(a: TermVector, b: TermVector): number {
+  const [smaller, larger] = a.size < b.size ? [a, b] : [b, a]
+  let dot = 0
+  for (const [term, weight] of smaller) {
+    dot += weight * (larger.get(term) || 0)
+  }
+  return dot
+}
+
+function toRelatedPost(post: BlogPost): RelatedPost {
+  return {
+    slug: post.slug,
+    title: post.title,
+    image: post.image,
+    category: post.category,
+    readingTime: post.readingTime
+  }
+}
+
+/**
+ * Ranks candidates by shared tags, same category and content similarity to
+ * the post. Candidates with nothing in common are left out.
+ */
+export function findRelatedPosts(post: BlogPost, candidates: BlogPost[], count: number): RelatedPost[] {
+  const others = candidates.filter((candidate) => candidate.slug !== post.slug)
+  if (others.length === 0 || count <= 0) {
+    return []
+  }
+
+  const vectors = buildTermVectors([post, ...others])
+  const postVector = vectors.get(post.slug)!
+  const postTags = new Set(post.tags.map(getTagSlug))
+
+  return others
+    .map((candidate) => {
+      const sharedTags = candidate.tags.filter((tag) => postTags.has(getTagSlug(tag))).length
+      const sameCategory = Boolean(post.category) && candidate.category === post.category
+      const similarity = cosineSimilarity(postVector, vectors.get(candidate.slug)!)
+
+      return {
+        candidate,
+        score: sharedTags * SHARED_TAG_WEIGHT
+          + (sameCategory ? SAME_CATEGORY_WEIGHT : 0)
+          + similarity * CONTENT_SIMILARITY_WEIGHT
+      }
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || new Date(b.candidate.date).getTime() - new Date(a.candidate.date).getTime())
+    .slice(0, count)
+    .map(({ candidate }) => toRelatedPost(candidate))
+}
+
+/**
+ * Related posts for the article page, drawn from the same source (Firestore
+ * or content/posts) as the post itself
+ */
+export async function getRelatedPosts(
+  post: BlogPost,
+  count: number = siteConfig.content.relatedPostsCount
+): Promise<RelatedPost[]> {
+  if (!siteConfig.content.enableRelatedPosts) {
+    return []
+  }
+
+  return getCachedOrFetch(
+    CACHE_KEYS.RELATED_POSTS(post.slug, count),
+    async () => {
+      const dbPosts = await getAllPostsFromDB()
+      const candidates = dbPosts.some((dbPost) => dbPost.slug === post.slug) ? dbPosts : getAllPosts()
+      return findRelatedPosts(post, candidates, count)
+    },
+    CACHE_TTL.LONG
+  )
+}
@@ -0,0 +1,204 @@
+// Post revision history: a snapshot of the editable fields in
+// posts/{id}/revisions on every save, plus restoring an earlier one.
+// Server-only.
+import { FieldValue, Transaction, WriteBatch } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebase/admin'
+import { StatusError } from '@/lib/errors'
+import { toISOString } from '@/lib/utils'
+import { logActivity } from '@/lib/activity'
+import { updatePostSearchIndex } from '@/lib/search-index'
+import { PostRevision, PostRevisionRow, UserRole } from '@/types/admin'
+
+export const REVISIONS_COLLECTION = 'revisions'
+
+// Revisions listed in the admin, newest first
+const MAX_REVISIONS_LISTED = 100
+
+export class RevisionError extends StatusError {
+  name = 'RevisionError'
+}
+
+export interface RevisionEditor {
+  uid: string
+  name: string
+}
+
+// Calculate reading time (words per minute = 200)
+function calculateReadingTime(content: string): number {
+  const words = content.trim().split(/\s+/).length
+  return Math.ceil(words / 200)
+}
+
+function getRevisionsRef(postId: string) {
+  return getAdminDb().collection('posts').doc(postId).collection(REVISIONS_COLLECTION)
+}
+
+/**
+ * Queues a snapshot of the post on the writer so the revision commits
+ * together with the save it records. Returns the new revision's id.
+ */
+export function addPostRevision(
+  writer: Transaction | WriteBatch,
+  postId: string,
+  post: Record<string, any>,
+  editor: RevisionEditor,
+  options: { restoredFrom?: string; createdAt?: any } = {}
+): string {
+  const ref = getRevisionsRef(postId).doc()
+
+  writer.create(ref, {
+    title: post.title,
+    description: post.description || '',
+    content: post.content || '',
+    seo: post.seo || null,
+    status: post.status,
+    lastModifiedBy: editor.uid,
+    lastModifiedByName: editor.name,
+    restoredFrom: options.restoredFrom || null,
+    createdAt: options.createdAt || FieldValue.serverTimestamp()
+  })
+
+  return ref.id
+}
+
+/**
+ * Records the current state of a post saved before revision history
+ * existed, dated to its last save, so the first edit can still be undone
+ */
+export async function addBaselineRevision(
+  writer: Transaction | WriteBatch,
+  postId: string,
+  post: Record<string, any>
+): Promise<void> {
+  const existing = await getRevisionsRef(postId).limit(1).get()
+  if (!existing.empty) return
+
+  const editorId = post.lastModifiedBy || post.authorId || ''
+  const editorDoc = editorId ? await getAdminDb().collection('users').doc(editorId).get() : null
+
+  addPostRevision(writer, postId, post, {
+    uid: editorId,
+    name: editorDoc?.data()?.displayName || 'Unknown'
+  }, { createdAt: post.updatedAt || post.createdAt })
+}
+
+/**
+ * Loads a post, checking that the user may edit it: authors only their own
+ */
+export async function getEditablePost(
+  postId: string,
+  user: { uid: string; role: UserRole }
+): Promise<Record<string, any>> {
+  const postDoc = await getAdminDb().collection('posts').doc(postId).get()
+
+  if (!postDoc.exists) {
+    throw new RevisionError('Post not found', 404)
+  }
+
+  const post = postDoc.data()!
+  if (user.role === 'author' && post.authorId !== user.uid) {
+    throw new RevisionError('Access denied', 403)
+  }
+
+  return post
+}
+
+export async function listPostRevisions(postId: string): Promise<PostRevisionRow[]> {
+  const snapshot = await getRevisionsRef(postId)
+    .orderBy('createdAt', 'desc')
+    .limit(MAX_REVISIONS_LISTED)
+    .get()
+
+  return snapshot.docs.map((doc) => {
+    const data = doc.data()
+    return {
+      id: doc.id,
+      title: data.title,
+      status: data.status,
+      lastModifiedBy: data.lastModifiedBy,
+      lastModifiedByName: data.lastModifiedByName,
+      restoredFrom: data.restoredFrom || null,
+      createdAt: toISOString(data.createdAt)
+    }
+  })
+}
+
+export async function getPostRevision(postId: string, revisionId: string): Promise<PostRevision | null> {
+  const doc = await getRevisionsRef(postId).doc(revisionId).get()
+  if (!doc.exists) return null
+
+  const data = doc.data()!
+  return {
+    id: doc.id,
+    title: data.title,
+    description: data.description,
+    content: data.content,
+    seo: data.seo || null,
+    status: data.status,
+    lastModifiedBy: data.lastModifiedBy,
+    lastModifiedByName: data.lastModifiedByName,
+    restoredFrom: data.restoredFrom || null,
+    createdAt: toISOString(data.createdAt)
+  }
+}
+
+/**
+ * Puts a revision's title, description, content and SEO back on the post
+ * and records the result as a new revision. The status and slug are left
+ * alone so restoring text never unpublishes a post or changes its URL.
+ */
+export async function restorePostRevision(
+  postId: string,
+  revisionId: string,
+  editor: RevisionEditor
+): Promise<string> {
+  const db = getAdminDb()
+  const postRef = db.collection('posts').doc(postId)
+  const revisionRef = getRevisionsRef(postId).doc(revisionId)
+
+  const restoredRevisionId = await db.runTransaction(async (transaction) => {
+    const [postDoc, revisionDoc] = await transaction.getAll(postRef, revisionRef)
+
+    if (!postDoc.exists) {
+      throw new RevisionError('Post not found', 404)
+    }
+    if (!revisionDoc.exists) {
+      throw new RevisionError('Revision not found', 404)
+    }
+
+    const post = postDoc.data()!
+    const revision = revisionDoc.data()!
+    const restored = {
+      title: revision.title,
+      description: revision.description,
+      content: revision.content,
+      seo: revision.seo || post.seo || null,
+      readingTime: calculateReadingTime(revision.content)
+    }
+
+    transaction.update(postRef, {
+      ...restored,
+      updatedAt: FieldValue.serverTimestamp(),
+      lastModifiedBy: editor.uid
+    })
+
+    const id = addPostRevision(transaction, postId, { ...post, ...restored }, editor, { restoredFrom: revisionId })
+
+    await logActivity({
+      type: 'post_updated',
+      title: 'Revision restored',
+      description: `"${restored.title}" was restored to an earlier revision`,
+      userId: editor.uid,
+      userName: editor.name,
+      postId
+    }, transaction)
+
+    return id
+  })
+
+  await updatePostSearchIndex(postId).catch((error) => {
+    console.error('Error updating search index:', error)
+  })
+
+  return restoredRevisionId
+}
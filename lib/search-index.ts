@@ -0,0 +1,72 @@
+// Maintains the searchIndex collection: one entry per published post, keyed by post id
+import { getAdminDb } from '@/lib/firebase/admin'
+import { buildSearchDocument } from '@/lib/search'
+import { normalizeTags, toISOString } from '@/lib/utils'
+import { cache, CACHE_KEYS } from '@/lib/cache'
+
+const SEARCH_INDEX_COLLECTION = 'searchIndex'
+
+/**
+ * Re-indexes a post after it is created, updated or deleted. Posts that are
+ * missing or not published are removed from the index.
+ */
+export async function updatePostSearchIndex(postId: string): Promise<void> {
+  const db = getAdminDb()
+  const postDoc = await db.collection('posts').doc(postId).get()
+  const post = postDoc.data()
+
+  if (!postDoc.exists || !post || post.status !== 'published') {
+    await db.collection(SEARCH_INDEX_COLLECTION).doc(postId).delete()
+    cache.delete(CACHE_KEYS.SEARCH_INDEX)
+    return
+  }
+
+  const [categoryDoc, authorDoc] = await Promise.all([
+    post.categoryId ? db.collection('categories').doc(post.categoryId).get() : null,
+    post.authorId ? db.collection('users').doc(post.authorId).get() : null
+  ])
+
+  const document = buildSearchDocument({
+    slug: post.slug,
+    title: post.title,
+    description: post.description || '',
+    content: post.content || '',
+    category: categoryDoc?.data()?.slug || '',
+    tags: normalizeTags(post.tags || []),
+    author: authorDoc?.data()?.displayName || 'Anonymous',
+    authorId: post.authorId,
+    date: toISOString(post.publishDate || post.publishedAt || post.createdAt),
+    image: post.featuredImage?.url || '',
+    readingTime: post.readingTime || 5,
+    featured: post.featured || false
+  })
+
+  await db.collection(SEARCH_INDEX_COLLECTION).doc(postId).set(document)
+  cache.delete(CACHE_KEYS.SEARCH_INDEX)
+}
+
+/**
+ * Rebuilds the whole index, e.g. for posts published before it existed or
+ * after a category is renamed. Returns the number of posts indexed.
+ */
+export async function rebuildSearchIndex(): Promise<number> {
+  const db = getAdminDb()
+  const [postsSnapshot, indexSnapshot] = await Promise.all([
+    db.collection('posts').where('status', '==', 'published').get(),
+    db.collection(SEARCH_INDEX_COLLECTION).get()
+  ])
+
+  // Drop entries for posts that are no longer published
+  const publishedIds = new Set(postsSnapshot.docs.map((doc) => doc.id))
+  await Promise.all(
+    indexSnapshot.docs
+      .filter((doc) => !publishedIds.has(doc.id))
+      .map((doc) => doc.ref.delete())
+  )
+
+  for (const postDoc of postsSnapshot.docs) {
+    await updatePostSearchIndex(postDoc.id)
+  }
+
+  return postsSnapshot.size
+}
@@ -0,0 +1,461 @@
+import {
+  SearchDocument,
+  SearchFacet,
+  SearchField,
+  SearchFilters,
+  SearchResponse,
+  SearchResult
+} from '@/types/blog'
+import { extractPlainText } from '@/lib/markdown'
+import { capitalizeWords, getTagSlug } from '@/lib/utils'
+
+// How much a match in each field counts towards a result's score
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 10,
+  tags: 6,
+  description: 4,
+  category: 3,
+  author: 2,
+  content: 1
+}
+
+// Matches on a term's prefix or on a near miss count for less than exact matches
+const PREFIX_MATCH_FACTOR = 0.6
+const FUZZY_MATCH_FACTOR = 0.4
+
+// Number of words shown in a result snippet
+const SNIPPET_WORDS = 30
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'our', 'so',
+  'that', 'the', 'their', 'then', 'there', 'these', 'this', 'to', 'was', 'we', 'what',
+  'when', 'which', 'who', 'why', 'will', 'with', 'you', 'your'
+])
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+interface Posting {
+  document: number
+  field: SearchField
+  frequency: number
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[]
+  postings: Map<string, Posting[]>
+  // Indexed terms grouped by length, for typo-tolerant lookups
+  termsByLength: Map<number, string[]>
+}
+
+export interface SearchablePost {
+  slug: string
+  title: string
+  description: string
+  content: string
+  category: string
+  tags: string[]
+  author: string
+  authorId?: string
+  date: string
+  image: string
+  readingTime: number
+  featured: boolean
+}
+
+// Lowercase and strip accents so "Café" and "cafe" index the same
+function foldWord(word: string): string {
+  return word.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+}
+
+/**
+ * Light suffix-stripping stemmer, so "policies", "policy" and "insured",
+ * "insurance" meet on the same term. Applied to both documents and queries.
+ */
+export function stemWord(word: string): string {
+  if (word.length <= 3 || /^\d+$/.test(word)) {
+    return word
+  }
+
+  let stem = word
+
+  // Plurals
+  if (stem.endsWith('sses')) {
+    stem = stem.slice(0, -2)
+  } else if (stem.endsWith('ies') && stem.length > 4) {
+    stem = `${stem.slice(0, -3)}y`
+  } else if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1)
+  }
+
+  // Verb endings, undoubling the final consonant ("running" -> "run")
+  for (const suffix of ['ing', 'ed']) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= 3) {
+      stem = stem.slice(0, -suffix.length)
+      if (/([^aeiouslz])\1$/.test(stem)) {
+        stem = stem.slice(0, -1)
+      }
+      break
+    }
+  }
+
+  // Derivational endings
+  for (const suffix of ['ness', 'ment', 'ance', 'ence', 'able', 'ible', 'ion', 'ful', 'ly']) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= 4) {
+      stem = stem.slice(0, -suffix.length)
+      break
+    }
+  }
+
+  if (stem.length > 4 && stem.endsWith('e')) {
+    stem = stem.slice(0, -1)
+  }
+  if (stem.length > 3 && stem.endsWith('y')) {
+    stem = `${stem.slice(0, -1)}i`
+  }
+
+  return stem
+}
+
+/**
+ * Splits text into stemmed search terms, dropping stop words
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = []
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = foldWord(match[0])
+    if (word.length > 1 && !STOP_WORDS.has(word)) {
+      terms.push(stemWord(word))
+    }
+  }
+
+  return terms
+}
+
+function countTerms(text: string): Record<string, number> {
+  const counts: Record<string, number> = {}
+  for (const term of tokenize(text)) {
+    counts[term] = (counts[term] || 0) + 1
+  }
+  return counts
+}
+
+/**
+ * Builds the index entry for a published post
+ */
+export function buildSearchDocument(post: SearchablePost): SearchDocument {
+  const text = extractPlainText(post.content)
+
+  return {
+    slug: post.slug,
+    title: post.title,
+    description: post.description,
+    category: post.category,
+    tags: post.tags,
+    author: post.author,
+    ...(post.authorId ? { authorId: post.authorId } : {}),
+    date: post.date,
+    image: post.image,
+    readingTime: post.readingTime,
+    featured: post.featured,
+    text,
+    terms: {
+      title: countTerms(post.title),
+      tags: countTerms(post.tags.join(' ')),
+      description: countTerms(post.description),
+      category: countTerms(post.category.replace(/-/g, ' ')),
+      author: countTerms(post.author),
+      content: countTerms(text)
+    }
+  }
+}
+
+/**
+ * Inverts the per-post term counts into term -> postings lists
+ */
+export function createSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const postings = new Map<string, Posting[]>()
+
+  documents.forEach((document, documentIndex) => {
+    for (const [field, counts] of Object.entries(document.terms)) {
+      for (const [term, frequency] of Object.entries(counts || {})) {
+        const list = postings.get(term) || []
+        list.push({ document: documentIndex, field: field as SearchField, frequency })
+        postings.set(term, list)
+      }
+    }
+  })
+
+  const termsByLength = new Map<number, string[]>()
+  for (const term of postings.keys()) {
+    const terms = termsByLength.get(term.length) || []
+    terms.push(term)
+    termsByLength.set(term.length, terms)
+  }
+
+  return { documents, postings, termsByLength }
+}
+
+// Levenshtein distance, giving up once it exceeds maxDistance
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      rowMin = Math.min(rowMin, current[j])
+    }
+
+    if (rowMin > maxDistance) {
+      return maxDistance + 1
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+// Indexed terms a query term should match, with how much each match counts
+function expandTerm(index: SearchIndex, term: string, allowPrefix: boolean): { term: string; factor: number }[] {
+  const matches: { term: string; factor: number }[] = []
+
+  if (index.postings.has(term)) {
+    matches.push({ term, factor: 1 })
+  }
+
+  // The last query word may still be being typed
+  if (allowPrefix && term.length >= 3) {
+    for (const candidate of index.postings.keys()) {
+      if (candidate !== term && candidate.startsWith(term)) {
+        matches.push({ term: candidate, factor: PREFIX_MATCH_FACTOR })
+      }
+    }
+  }
+
+  // Typo tolerance only kicks in when nothing matched and the word is long enough to judge
+  if (matches.length === 0 && term.length >= 4) {
+    const maxDistance = term.length >= 8 ? 2 : 1
+    for (let length = term.length - maxDistance; length <= term.length + maxDistance; length++) {
+      for (const candidate of index.termsByLength.get(length) || []) {
+        if (editDistance(term, candidate, maxDistance) <= maxDistance) {
+          matches.push({ term: candidate, factor: FUZZY_MATCH_FACTOR })
+        }
+      }
+    }
+  }
+
+  return matches
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Escapes text for HTML and wraps words matching any of the terms in <mark>
+ */
+export function highlightTerms(text: string, terms: Set<string>): string {
+  let html = ''
+  let lastIndex = 0
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const start = match.index ?? 0
+    html += escapeHtml(text.slice(lastIndex, start))
+    html += terms.has(stemWord(foldWord(match[0])))
+      ? `<mark>${escapeHtml(match[0])}</mark>`
+      : escapeHtml(match[0])
+    lastIndex = start + match[0].length
+  }
+
+  return html + escapeHtml(text.slice(lastIndex))
+}
+
+// The passage of the text with the most matched words, highlighted
+function buildSnippet(text: string, fallback: string, terms: Set<string>): string {
+  const words = Array.from(text.matchAll(WORD_PATTERN))
+  const hits = words
+    .map((word, i) => (terms.has(stemWord(foldWord(word[0]))) ? i : -1))
+    .filter((i) => i >= 0)
+
+  if (hits.length === 0) {
+    return highlightTerms(fallback, terms)
+  }
+
+  // Pick the window with the most hits, starting a few words before its first hit
+  let bestStart = hits[0]
+  let bestCount = 0
+  for (const hit of hits) {
+    const count = hits.filter((other) => other >= hit && other < hit + SNIPPET_WORDS).length
+    if (count > bestCount) {
+      bestStart = hit
+      bestCount = count
+    }
+  }
+
+  const startWord = Math.max(0, bestStart - 5)
+  const endWord = Math.min(words.length - 1, startWord + SNIPPET_WORDS - 1)
+  const start = words[startWord].index ?? 0
+  const end = (words[endWord].index ?? 0) + words[endWord][0].length
+
+  return `${startWord > 0 ? '… ' : ''}${highlightTerms(text.slice(start, end), terms)}${endWord < words.length - 1 ? ' …' : ''}`
+}
+
+// Whether a document passes the filters, optionally ignoring the one a facet is built for
+function matchesFilters(document: SearchDocument, filters: SearchFilters, ignore?: 'category' | 'tags'): boolean {
+  if (ignore !== 'category' && filters.category && document.category !== filters.category) {
+    return false
+  }
+
+  if (ignore !== 'tags' && filters.tags && filters.tags.length > 0) {
+    const documentTags = document.tags.map(getTagSlug)
+    if (!filters.tags.every((tag) => documentTags.includes(getTagSlug(tag)))) {
+      return false
+    }
+  }
+
+  if (filters.author && document.authorId !== filters.author && document.author !== filters.author) {
+    return false
+  }
+
+  if (filters.featured && !document.featured) {
+    return false
+  }
+
+  if (filters.dateRange) {
+    const date = new Date(document.date).getTime()
+    if (filters.dateRange.start && date < new Date(filters.dateRange.start).getTime()) {
+      return false
+    }
+    if (filters.dateRange.end && date > new Date(filters.dateRange.end).getTime()) {
+      return false
+    }
+  }
+
+  return true
+}
+
+function sortFacets(facets: Map<string, SearchFacet>): SearchFacet[] {
+  return Array.from(facets.values()).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+}
+
+/**
+ * Ranks indexed posts against the query and filters. Every query word has to
+ * match (exactly, by prefix for the last word, or within a typo's distance);
+ * scores are field-weighted TF-IDF. Facet counts for a dimension ignore that
+ * dimension's own filter, so other categories/tags stay selectable.
+ */
+export function searchIndex(index: SearchIndex, filters: SearchFilters): SearchResponse {
+  const query = (filters.query || '').trim()
+  const queryTerms = Array.from(new Set(tokenize(query)))
+  const documentCount = index.documents.length
+  const highlightedTerms = new Set<string>()
+
+  let scores: Map<number, number>
+
+  if (queryTerms.length === 0) {
+    scores = new Map(index.documents.map((_, i) => [i, 0]))
+  } else {
+    scores = new Map()
+    const matchedTermCounts = new Map<number, number>()
+
+    queryTerms.forEach((queryTerm, termIndex) => {
+      const matchedDocuments = new Set<number>()
+
+      for (const { term, factor } of expandTerm(index, queryTerm, termIndex === queryTerms.length - 1)) {
+        const postings = index.postings.get(term) || []
+        const documentFrequency = new Set(postings.map((posting) => posting.document)).size
+        const idf = Math.log(1 + documentCount / documentFrequency)
+        highlightedTerms.add(term)
+
+        for (const posting of postings) {
+          const weight = SEARCH_FIELD_WEIGHTS[posting.field] * (1 + Math.log(posting.frequency))
+          scores.set(posting.document, (scores.get(posting.document) || 0) + weight * idf * factor)
+          matchedDocuments.add(posting.document)
+        }
+      }
+
+      for (const document of matchedDocuments) {
+        matchedTermCounts.set(document, (matchedTermCounts.get(document) || 0) + 1)
+      }
+    })
+
+    for (const document of scores.keys()) {
+      if (matchedTermCounts.get(document) !== queryTerms.length) {
+        scores.delete(document)
+      }
+    }
+  }
+
+  const categoryFacets = new Map<string, SearchFacet>()
+  const tagFacets = new Map<string, SearchFacet>()
+  const matches: { document: SearchDocument; score: number }[] = []
+
+  for (const [documentIndex, score] of scores) {
+    const document = index.documents[documentIndex]
+
+    if (document.category && matchesFilters(document, filters, 'category')) {
+      const facet = categoryFacets.get(document.category)
+        || { value: document.category, label: capitalizeWords(document.category.replace(/-/g, ' ')), count: 0 }
+      facet.count++
+      categoryFacets.set(document.category, facet)
+    }
+
+    if (matchesFilters(document, filters, 'tags')) {
+      for (const tag of document.tags) {
+        const slug = getTagSlug(tag)
+        const facet = tagFacets.get(slug) || { value: slug, label: tag, count: 0 }
+        facet.count++
+        tagFacets.set(slug, facet)
+      }
+    }
+
+    if (matchesFilters(document, filters)) {
+      matches.push({ document, score })
+    }
+  }
+
+  // Best match first, newest first on ties (and when browsing without a query)
+  matches.sort(
+    (a, b) => b.score - a.score || new Date(b.document.date).getTime() - new Date(a.document.date).getTime()
+  )
+
+  const results: SearchResult[] = matches.map(({ document, score }) => ({
+    slug: document.slug,
+    title: document.title,
+    description: document.description,
+    category: document.category,
+    tags: document.tags,
+    author: document.author,
+    date: document.date,
+    image: document.image,
+    readingTime: document.readingTime,
+    featured: document.featured,
+    score,
+    titleHtml: highlightTerms(document.title, highlightedTerms),
+    snippetHtml: buildSnippet(document.text, document.description, highlightedTerms)
+  }))
+
+  return {
+    query,
+    results,
+    total: results.length,
+    facets: {
+      categories: sortFacets(categoryFacets),
+      tags: sortFacets(tagFacets)
+    }
+  }
+}
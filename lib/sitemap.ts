@@ -0,0 +1,171 @@
+import { getAllPostsFromDB, getAllCategoriesFromDB, getTagsWithCountsFromDB, getAuthorByIdFromDB } from '@/lib/blog-db'
+import { getTagSlug, isPostExpired } from '@/lib/utils'
+import { siteConfig, authorConfig } from '@/data'
+import { BlogPost, Author } from '@/types/blog'
+
+export const SITEMAP_TYPES = ['pages', 'posts', 'categories', 'tags', 'authors'] as const
+
+export type SitemapType = typeof SITEMAP_TYPES[number]
+
+// Search engines accept at most 50,000 URLs per sitemap file
+export const SITEMAP_MAX_URLS = 50000
+
+interface SitemapEntry {
+  url: string
+  lastModified?: string
+  changeFrequency?: 'always' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never'
+  priority?: number
+  images?: string[]
+}
+
+function absoluteUrl(path: string): string {
+  return /^https?:\/\//.test(path) ? path : `${siteConfig.baseUrl.replace(/\/$/, '')}${path}`
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// A post was last modified when it was last saved, or failing that, published
+function getPostLastModified(post: BlogPost): string {
+  return new Date(post.updatedAt || post.date).toISOString()
+}
+
+// Most recent modification among a group of posts
+function getLatestModified(posts: BlogPost[]): string | undefined {
+  const latest = Math.max(...posts.map((post) => new Date(getPostLastModified(post)).getTime()))
+  return Number.isFinite(latest) ? new Date(latest).toISOString() : undefined
+}
+
+/**
+ * URLs of one section of the sitemap, built from published Firestore data
+ */
+export async function getSitemapEntries(type: SitemapType): Promise<SitemapEntry[]> {
+  const posts = await getAllPostsFromDB()
+
+  switch (type) {
+    case 'pages': {
+      const lastModified = getLatestModified(posts)
+      return [
+        { url: absoluteUrl('/'), lastModified, changeFrequency: 'daily', priority: 1 },
+        { url: absoluteUrl('/blog'), lastModified, changeFrequency: 'daily', priority: 0.8 },
+        { url: absoluteUrl('/categories'), lastModified, changeFrequency: 'weekly', priority: 0.7 },
+        { url: absoluteUrl('/tags'), lastModified, changeFrequency: 'weekly', priority: 0.5 }
+      ]
+    }
+
+    case 'posts':
+      return posts
+        .filter((post) => !post.seo?.noindex && !isPostExpired(post))
+        .map((post) => ({
+          url: absoluteUrl(`/blog/${post.slug}`),
+          lastModified: getPostLastModified(post),
+          changeFrequency: 'monthly',
+          priority: 0.6,
+          images: post.image ? [absoluteUrl(post.image)] : undefined
+        }))
+
+    case 'categories': {
+      const categories = await getAllCategoriesFromDB()
+      return categories.map((category) => ({
+        url: absoluteUrl(`/category/${category.slug}`),
+        lastModified: getLatestModified(posts.filter((post) => post.category === category.slug)),
+        changeFrequency: 'weekly',
+        priority: 0.5
+      }))
+    }
+
+    case 'tags': {
+      const tags = await getTagsWithCountsFromDB()
+      return tags.map((tag) => ({
+        url: absoluteUrl(`/tag/${tag.slug}`),
+        lastModified: getLatestModified(posts.filter((post) => post.tags.some((postTag) => getTagSlug(postTag) === tag.slug))),
+        changeFrequency: 'weekly',
+        priority: 0.4
+      }))
+    }
+
+    case 'authors': {
+      if (!authorConfig.enableAuthorPages) {
+        return []
+      }
+
+      const authorIds = Array.from(new Set(posts.map((post) => post.authorId).filter((id): id is string => Boolean(id))))
+      const authors = await Promise.all(authorIds.map((authorId) => getAuthorByIdFromDB(authorId)))
+
+      return authors
+        .filter((author): author is Author => author !== null)
+        .map((author) => ({
+          url: absoluteUrl(`/author/${author.id}`),
+          lastModified: getLatestModified(posts.filter((post) => post.authorId === author.id)),
+          changeFrequency: 'weekly',
+          priority: 0.4
+        }))
+    }
+  }
+}
+
+/**
+ * Child sitemaps for the index: one per section, split into numbered
+ * files once a section grows past SITEMAP_MAX_URLS
+ */
+export async function getSitemapIndexEntries(): Promise<{ url: string; lastModified?: string }[]> {
+  const sections = await Promise.all(SITEMAP_TYPES.map(async (type) => ({
+    type,
+    entries: await getSitemapEntries(type)
+  })))
+
+  return sections.flatMap(({ type, entries }) => {
+    const fileCount = Math.ceil(entries.length / SITEMAP_MAX_URLS)
+
+    return Array.from({ length: fileCount }, (_, i) => {
+      const chunk = entries.slice(i * SITEMAP_MAX_URLS, (i + 1) * SITEMAP_MAX_URLS)
+      const lastModified = chunk
+        .map((entry) => entry.lastModified)
+        .filter((date): date is string => Boolean(date))
+        .sort()
+        .pop()
+
+      return {
+        url: absoluteUrl(`/sitemaps/${type}-${i + 1}.xml`),
+        lastModified
+      }
+    })
+  })
+}
+
+export function renderSitemapIndex(sitemaps: { url: string; lastModified?: string }[]): string {
+  const items = sitemaps.map((sitemap) => `  <sitemap>
+    <loc>${escapeXml(sitemap.url)}</loc>${sitemap.lastModified ? `
+    <lastmod>${sitemap.lastModified}</lastmod>` : ''}
+  </sitemap>`).join('\n')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${items}
+</sitemapindex>
+`
+}
+
+export function renderUrlSet(entries: SitemapEntry[]): string {
+  const items = entries.map((entry) => `  <url>
+    <loc>${escapeXml(entry.url)}</loc>${entry.lastModified ? `
+    <lastmod>${entry.lastModified}</lastmod>` : ''}${entry.changeFrequency ? `
+    <changefreq>${entry.changeFrequency}</changefreq>` : ''}${entry.priority !== undefined ? `
+    <priority>${entry.priority}</priority>` : ''}${(entry.images || []).map((image) => `
+    <image:image>
+      <image:loc>${escapeXml(image)}</image:loc>
+    </image:image>`).join('')}
+  </url>`).join('\n')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+${items}
+</urlset>
+`
+}
@@ -0,0 +1,215 @@
+import { siteConfig, authorConfig } from '@/data'
+import { BlogPost, Author } from '@/types/blog'
+import { getSocialLinkUrl } from '@/lib/utils'
+
+// A schema.org node as emitted in <script type="application/ld+json">
+export interface JsonLdNode {
+  '@context'?: 'https://schema.org'
+  '@type': string
+  [property: string]: unknown
+}
+
+export interface BreadcrumbItem {
+  name: string
+  // Omitted for the current page, which is the last crumb
+  path?: string
+}
+
+// Google rejects Article headlines longer than this
+const MAX_HEADLINE_LENGTH = 110
+
+// Properties each node type must carry for rich results
+const REQUIRED_PROPERTIES: Record<string, string[]> = {
+  Organization: ['name', 'url'],
+  Person: ['name'],
+  ImageObject: ['url'],
+  WebPage: ['@id'],
+  BlogPosting: ['headline', 'datePublished', 'author', 'publisher', 'mainEntityOfPage'],
+  Article: ['headline', 'datePublished', 'author', 'publisher', 'mainEntityOfPage'],
+  BreadcrumbList: ['itemListElement'],
+  ListItem: ['position', 'name']
+}
+
+function absoluteUrl(path: string): string {
+  return /^https?:\/\//.test(path) ? path : `${siteConfig.baseUrl.replace(/\/$/, '')}${path.startsWith('/') ? '' : '/'}${path}`
+}
+
+// Social handles in siteConfig are stored without their host
+function getSiteSocialUrls(): string[] {
+  const { twitter, facebook, instagram, linkedin, youtube } = siteConfig.social
+  return [
+    twitter && `https://twitter.com/${twitter.replace(/^@/, '')}`,
+    facebook && `https://www.facebook.com/${facebook}`,
+    instagram && `https://www.instagram.com/${instagram}`,
+    linkedin && `https://www.linkedin.com/${linkedin}`,
+    youtube && `https://www.youtube.com/${youtube}`
+  ].filter((url): url is string => Boolean(url))
+}
+
+// Unparseable dates are passed through so validation reports them
+function toIsoDate(date: string): string {
+  const parsed = new Date(date)
+  return isNaN(parsed.getTime()) ? date : parsed.toISOString()
+}
+
+function withContext(node: JsonLdNode): JsonLdNode {
+  return { '@context': 'https://schema.org', ...node }
+}
+
+function toPublisher(): JsonLdNode {
+  return {
+    '@type': 'Organization',
+    name: siteConfig.name,
+    url: siteConfig.baseUrl,
+    logo: {
+      '@type': 'ImageObject',
+      url: absoluteUrl(siteConfig.logo)
+    }
+  }
+}
+
+function toPerson(author: Author): JsonLdNode {
+  const sameAs = Object.entries(author.social)
+    .filter(([network]) => network !== 'email')
+    .map(([network, value]) => getSocialLinkUrl(network, value))
+    .filter((url): url is string => url !== null)
+
+  return {
+    '@type': 'Person',
+    name: author.name,
+    ...(authorConfig.enableAuthorPages ? { url: absoluteUrl(`/author/${author.id}`) } : {}),
+    ...(author.avatar ? { image: absoluteUrl(author.avatar) } : {}),
+    ...(author.role ? { jobTitle: author.role } : {}),
+    ...(sameAs.length > 0 ? { sameAs } : {})
+  }
+}
+
+/**
+ * The publishing organization, built from siteConfig
+ */
+export function getOrganizationJsonLd(): JsonLdNode {
+  const sameAs = getSiteSocialUrls()
+
+  return withContext({
+    ...toPublisher(),
+    description: siteConfig.description,
+    ...(siteConfig.contact.email ? {
+      contactPoint: {
+        '@type': 'ContactPoint',
+        contactType: 'customer support',
+        email: siteConfig.contact.email
+      }
+    } : {}),
+    ...(sameAs.length > 0 ? { sameAs } : {})
+  })
+}
+
+/**
+ * An author profile page's subject
+ */
+export function getPersonJsonLd(author: Author): JsonLdNode {
+  return withContext({
+    ...toPerson(author),
+    ...(author.bio ? { description: author.bio } : {}),
+    ...(author.expertise.length > 0 ? { knowsAbout: author.expertise } : {})
+  })
+}
+
+/**
+ * BlogPosting for a post page. Posts without a resolved author are
+ * credited to the site itself.
+ */
+export function getBlogPostingJsonLd(post: BlogPost, author?: Author | null): JsonLdNode {
+  const url = absoluteUrl(`/blog/${post.slug}`)
+  const headline = post.title.length > MAX_HEADLINE_LENGTH
+    ? `${post.title.slice(0, MAX_HEADLINE_LENGTH - 1).trimEnd()}…`
+    : post.title
+
+  return withContext({
+    '@type': 'BlogPosting',
+    headline,
+    description: post.description,
+    ...(post.image ? { image: [absoluteUrl(post.image)] } : {}),
+    datePublished: toIsoDate(post.date),
+    dateModified: toIsoDate(post.updatedAt || post.date),
+    author: author
+      ? toPerson(author)
+      : post.author
+        ? { '@type': 'Person', name: post.author }
+        : toPublisher(),
+    publisher: toPublisher(),
+    mainEntityOfPage: {
+      '@type': 'WebPage',
+      '@id': url
+    },
+    url,
+    articleSection: post.category.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase()),
+    ...(post.tags.length > 0 ? { keywords: post.tags.join(', ') } : {}),
+    inLanguage: siteConfig.language
+  })
+}
+
+/**
+ * BreadcrumbList mirroring a page's visible breadcrumb trail
+ */
+export function getBreadcrumbJsonLd(items: BreadcrumbItem[]): JsonLdNode {
+  return withContext({
+    '@type': 'BreadcrumbList',
+    itemListElement: items.map((item, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: item.name,
+      ...(item.path ? { item: absoluteUrl(item.path) } : {})
+    }))
+  })
+}
+
+function isNode(value: unknown): value is JsonLdNode {
+  return typeof value === 'object' && value !== null && '@type' in value
+}
+
+function validateNode(node: JsonLdNode, path: string): string[] {
+  const errors: string[] = []
+
+  for (const property of REQUIRED_PROPERTIES[node['@type']] || []) {
+    const value = node[property]
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      errors.push(`${path}: missing required property "${property}"`)
+    }
+  }
+
+  if (typeof node.headline === 'string' && node.headline.length > MAX_HEADLINE_LENGTH) {
+    errors.push(`${path}: headline exceeds ${MAX_HEADLINE_LENGTH} characters`)
+  }
+
+  for (const property of ['datePublished', 'dateModified']) {
+    const value = node[property]
+    if (value !== undefined && (typeof value !== 'string' || isNaN(new Date(value).getTime()))) {
+      errors.push(`${path}: "${property}" is not a valid ISO 8601 date`)
+    }
+  }
+
+  for (const [property, value] of Object.entries(node)) {
+    const children = Array.isArray(value) ? value : [value]
+    children.forEach((child, index) => {
+      if (isNode(child)) {
+        const childPath = Array.isArray(value) ? `${path}.${property}[${index}]` : `${path}.${property}`
+        errors.push(...validateNode(child, childPath))
+      }
+    })
+  }
+
+  return errors
+}
+
+/**
+ * Checks a node and every nested node against REQUIRED_PROPERTIES.
+ * Returns a list of problems, empty when the data is valid.
+ */
+export function validateJsonLd(node: JsonLdNode): string[] {
+  const errors = node['@context'] === 'https://schema.org'
+    ? []
+    : [`${node['@type']}: missing @context "https://schema.org"`]
+
+  return [...errors, ...validateNode(node, node['@type'])]
+}
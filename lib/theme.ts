@@ -0,0 +1,34 @@
+// Reader theme preference. Shared by the ThemeProvider and the inline script
+// that applies the theme before first paint.
+
+export type Theme = 'system' | 'light' | 'dark'
+export type ResolvedTheme = 'light' | 'dark'
+
+export const THEMES: Theme[] = ['system', 'light', 'dark']
+export const THEME_STORAGE_KEY = 'vv_theme'
+
+// The admin panel is light-only
+const LIGHT_ONLY_PREFIX = '/admin'
+
+export function isTheme(value: unknown): value is Theme {
+  return typeof value === 'string' && THEMES.includes(value as Theme)
+}
+
+export function isLightOnlyPath(pathname: string): boolean {
+  return pathname.startsWith(LIGHT_ONLY_PREFIX)
+}
+
+/**
+ * Toggles the `dark` class and color-scheme on <html>
+ */
+export function applyTheme(theme: ResolvedTheme): void {
+  const root = document.documentElement
+  root.classList.toggle('dark', theme === 'dark')
+  root.style.colorScheme = theme
+}
+
+/**
+ * Inline script for <head>. Runs before hydration so a stored or system
+ * dark preference never flashes the light theme.
+ */
+export const themeInitScript = `(function(){try{var t=localStorage.getItem('${THEME_STORAGE_KEY}');var d=t==='dark'||(t!=='light'&&window.matchMedia('(prefers-color-scheme: dark)').matches);if(location.pathname.indexOf('${LIGHT_ONLY_PREFIX}')===0)d=false;document.documentElement.classList.toggle('dark',d);document.documentElement.style.colorScheme=d?'dark':'light'}catch(e){}})()`
@@ -46,6 +46,27 @@ export function formatRelativeTime(date: Date | string | number): string {
   return `${years}y ago`
 }
 
+// Firestore Timestamps are matched by shape so client bundles don't pull in the SDK
+type DateValue = { toDate(): Date } | Date | string | number | null | undefined
+
+/**
+ * Converts a stored date (Firestore Timestamp, Date or date string) to an
+ * ISO string; null when the value is empty
+ */
+export function toOptionalISOString(value: DateValue): string | null {
+  if (!value) return null
+  if (typeof value === 'object' && 'toDate' in value) return value.toDate().toISOString()
+  return new Date(value).toISOString()
+}
+
+/**
+ * Like toOptionalISOString, but falls back to now for an empty value, such as
+ * a server timestamp read back before it resolved
+ */
+export function toISOString(value: DateValue): string {
+  return toOptionalISOString(value) || new Date().toISOString()
+}
+
 /**
  * Generates a URL-friendly slug from a string
  */
@@ -60,6 +81,53 @@ export function generateSlug(text: string): string {
     .replace(/-+$/, '')
 }
 
+/**
+ * Normalizes a tag for storage and display (trimmed, single-spaced, lowercase)
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Generates the URL slug used by /tag/[tag] pages. Unlike generateSlug it
+ * keeps letters and digits from any script ("日本") and spells out + and #
+ * so "C++" and "C#" get different slugs. Accents on Latin letters are
+ * dropped ("café" -> "cafe"); a tag with no letters or digits at all is
+ * slugged by its code points, so no non-empty tag ends up without a slug.
+ */
+export function getTagSlug(tag: string): string {
+  const name = normalizeTag(tag)
+  const slug = name
+    .replace(/\+/g, ' plus ')
+    .replace(/#/g, ' sharp ')
+    .normalize('NFKD')
+    .replace(/(\p{Script=Latin})\p{M}+/gu, '$1')
+    .normalize('NFC')
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+
+  return slug || Array.from(name).map((char) => char.codePointAt(0)!.toString(16)).join('-')
+}
+
+/**
+ * Normalizes a list of tags, dropping empty entries and duplicates that share a slug
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>()
+  const normalized: string[] = []
+
+  for (const tag of tags) {
+    if (typeof tag !== 'string') continue
+    const name = normalizeTag(tag)
+    const slug = getTagSlug(name)
+    if (!name || seen.has(slug)) continue
+    seen.add(slug)
+    normalized.push(name)
+  }
+
+  return normalized
+}
+
 /**
  * Truncates text to a specified length
  */
@@ -90,6 +158,24 @@ export function capitalizeWords(text: string): string {
   )
 }
 
+/**
+ * Whether a time-sensitive post has passed its expiry date, whether or not
+ * the scheduler has processed it yet
+ */
+export function isPostExpired(post: { expiresAt?: string; expiredAt?: string }, now: Date = new Date()): boolean {
+  return Boolean(post.expiredAt) || (Boolean(post.expiresAt) && new Date(post.expiresAt!).getTime() <= now.getTime())
+}
+
+/**
+ * Formats a date for a datetime-local input, in the browser's time zone
+ */
+export function toDateTimeLocalValue(date: Date | string | null | undefined): string {
+  if (!date) return ''
+  const d = new Date(date)
+  if (isNaN(d.getTime())) return ''
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
 /**
  * Validates email address format
  */
@@ -98,6 +184,39 @@ export function isValidEmail(email: string): boolean {
   return emailRegex.test(email)
 }
 
+const socialProfileUrls: Record<string, string> = {
+  twitter: 'https://twitter.com/',
+  linkedin: 'https://linkedin.com/in/',
+  instagram: 'https://instagram.com/',
+  github: 'https://github.com/'
+}
+
+/**
+ * Resolves a profile's social value to a link that is safe to render, or null.
+ * Accepts http(s) URLs, a valid address for email, and bare handles for the
+ * networks above; anything else (such as a javascript: URL) is rejected.
+ */
+export function getSocialLinkUrl(network: string, value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null
+  const trimmed = value.trim()
+
+  if (network === 'email') {
+    return isValidEmail(trimmed) ? `mailto:${trimmed}` : null
+  }
+
+  const profileUrl = socialProfileUrls[network]
+  if (profileUrl && /^@?[\w.-]+$/.test(trimmed)) {
+    return profileUrl + trimmed.replace(/^@/, '')
+  }
+
+  try {
+    const url = new URL(trimmed)
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.href : null
+  } catch {
+    return null
+  }
+}
+
 /**
  * Generates a random ID
  */
@@ -143,8 +262,11 @@ export function isBrowser(): boolean {
  * Get contrast color (black or white) for a given background color
  */
 export function getContrastColor(hexColor: string): string {
-  // Remove # if present
-  const hex = hexColor.replace('#', '')
+  // Remove # if present and expand shorthand (#abc -> aabbcc)
+  let hex = hexColor.replace('#', '')
+  if (hex.length === 3) {
+    hex = hex.split('').map(c => c + c).join('')
+  }
   
   // Convert to RGB
   const r = parseInt(hex.substr(0, 2), 16)
@@ -155,4 +277,20 @@ export function getContrastColor(hexColor: string): string {
   const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255
   
   return luminance > 0.5 ? '#000000' : '#ffffff'
+}
+
+/**
+ * Client IP as seen by the hosting proxy, or null when not behind one. Route
+ * handlers have no socket address, so the IP comes from a proxy header: the
+ * one named by CLIENT_IP_HEADER (e.g. cf-connecting-ip) when set, otherwise
+ * X-Forwarded-For. Clients can send their own X-Forwarded-For, so only its
+ * last entry (the one the proxy appended) is trusted.
+ */
+export function getClientIp(headers: Headers): string | null {
+  const headerName = process.env.CLIENT_IP_HEADER?.trim() || 'x-forwarded-for'
+  const value = headers.get(headerName)
+  if (!value) return null
+
+  const hops = value.split(',').map((hop) => hop.trim()).filter(Boolean)
+  return hops.length > 0 ? hops[hops.length - 1] : null
 }
\ No newline at end of file
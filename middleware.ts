@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getMaintenanceStatus,
+  isMaintenanceBypassValid,
+  renderMaintenancePage,
+  MAINTENANCE_BYPASS_COOKIE,
+  MAINTENANCE_RETRY_AFTER
+} from '@/lib/maintenance'
+
+// The admin panel and its API stay reachable so maintenance can be switched off
+function isAdminPath(pathname: string): boolean {
+  return pathname === '/admin' ||
+    pathname.startsWith('/admin/') ||
+    pathname.startsWith('/api/admin/')
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+
+  // Scheduled jobs (e.g. publishing) keep running during maintenance
+  if (isAdminPath(pathname) || pathname.startsWith('/api/cron/')) {
+    return NextResponse.next()
+  }
+
+  const status = await getMaintenanceStatus()
+  if (!status.enabled) {
+    return NextResponse.next()
+  }
+
+  // Signed-in admins get a bypass cookie from /api/admin/session
+  if (await isMaintenanceBypassValid(request.cookies.get(MAINTENANCE_BYPASS_COOKIE)?.value)) {
+    return NextResponse.next()
+  }
+
+  const headers = {
+    'Retry-After': String(MAINTENANCE_RETRY_AFTER),
+    'Cache-Control': 'no-store'
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { error: status.message || 'Site is down for maintenance' },
+      { status: 503, headers }
+    )
+  }
+
+  return new NextResponse(renderMaintenancePage(status.message), {
+    status: 503,
+    headers: { ...headers, 'Content-Type': 'text/html; charset=utf-8' }
+  })
+}
+
+export const config = {
+  // Skip Next.js internals and static files
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|images/|icons/).*)']
+}
@@ -18,6 +18,20 @@ const nextConfig = {
   httpAgentOptions: {
     keepAlive: true,
   },
+  async headers() {
+    return [
+      {
+        // Preview links show unpublished posts: keep them out of search
+        // engines and caches, and don't leak the token in Referer headers
+        source: '/preview/:token*',
+        headers: [
+          { key: 'X-Robots-Tag', value: 'noindex, nofollow' },
+          { key: 'Cache-Control', value: 'private, no-store' },
+          { key: 'Referrer-Policy', value: 'no-referrer' },
+        ],
+      },
+    ]
+  },
 }
 
 const withMDX = require('@next/mdx')({
@@ -1024,7 +1024,7 @@ async function createAdditionalPosts() {
         excerpt: postData.excerpt,
         slug: slug,
         categoryId: categoryId,
-        tags: postData.tags || [],
+        tags: (postData.tags || []).map(tag => tag.trim().toLowerCase()),
         featured: postData.featured || false,
         featuredImage: null,
         seo: {
@@ -710,7 +710,7 @@ async function createPosts() {
         excerpt: postData.excerpt,
         slug: slug,
         categoryId: categoryId,
-        tags: postData.tags || [],
+        tags: (postData.tags || []).map(tag => tag.trim().toLowerCase()),
         featured: postData.featured || false,
         featuredImage: null,
         seo: {
@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+
+/**
+ * Normalize Post Tags
+ * One-off migration for posts saved before tags were normalized on save.
+ * The /blog tag filter matches the stored tag name exactly, so tags like
+ * "Car Insurance " are rewritten to "car insurance". Use --dry-run to list
+ * the changes without writing them.
+ */
+
+require('dotenv').config({ path: '.env' })
+const { initializeApp, cert } = require('firebase-admin/app')
+const { getFirestore } = require('firebase-admin/firestore')
+
+// Keep in step with normalizeTag, getTagSlug and normalizeTags in lib/utils.ts
+function normalizeTag(tag) {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+function getTagSlug(tag) {
+  const name = normalizeTag(tag)
+  const slug = name
+    .replace(/\+/g, ' plus ')
+    .replace(/#/g, ' sharp ')
+    .normalize('NFKD')
+    .replace(/(\p{Script=Latin})\p{M}+/gu, '$1')
+    .normalize('NFC')
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+
+  return slug || Array.from(name).map((char) => char.codePointAt(0).toString(16)).join('-')
+}
+
+function normalizeTags(tags) {
+  const seen = new Set()
+  const normalized = []
+
+  for (const tag of tags) {
+    if (typeof tag !== 'string') continue
+    const name = normalizeTag(tag)
+    const slug = getTagSlug(name)
+    if (!name || seen.has(slug)) continue
+    seen.add(slug)
+    normalized.push(name)
+  }
+
+  return normalized
+}
+
+async function normalizePostTags() {
+  const dryRun = process.argv.includes('--dry-run')
+
+  const app = initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n')
+    })
+  })
+  const db = getFirestore(app)
+
+  const snapshot = await db.collection('posts').get()
+  let updated = 0
+
+  for (const doc of snapshot.docs) {
+    const tags = Array.isArray(doc.data().tags) ? doc.data().tags : []
+    const normalized = normalizeTags(tags)
+
+    if (JSON.stringify(tags) === JSON.stringify(normalized)) continue
+
+    console.log(`${doc.id}: ${JSON.stringify(tags)} -> ${JSON.stringify(normalized)}`)
+    if (!dryRun) {
+      await doc.ref.update({ tags: normalized })
+    }
+    updated++
+  }
+
+  console.log(`${dryRun ? 'Would update' : 'Updated'} ${updated} of ${snapshot.size} posts`)
+}
+
+normalizePostTags()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Error normalizing post tags:', error)
+    process.exit(1)
+  })
@@ -24,6 +24,10 @@ export interface RolePermissions {
 }
 
 // Firestore document interfaces
+// What happens when a post reaches expiresAt: it is archived, or stays live
+// with an "outdated" banner
+export type PostExpiryAction = 'archive' | 'banner'
+
 export interface FirestorePost {
   id?: string
   slug: string
@@ -38,6 +42,11 @@ export interface FirestorePost {
   createdAt: Timestamp | Date
   updatedAt: Timestamp | Date
   scheduledFor?: Timestamp | Date
+  // Optional expiry for time-sensitive posts (rates, promotions)
+  expiresAt?: Timestamp | Date
+  expiryAction?: PostExpiryAction
+  // Set by the scheduler once the post has expired
+  expiredAt?: Timestamp | Date
   
   // Author & Category
   authorId: string
@@ -54,6 +63,7 @@ export interface FirestorePost {
   tags: string[]
   featured: boolean
   readingTime: number
+  hideTableOfContents?: boolean
   
   // SEO & Social
   seo: {
@@ -62,6 +72,8 @@ export interface FirestorePost {
     keywords: string[]
     ogImage?: string
     canonicalUrl?: string
+    // Keep the post out of search engines and the sitemap
+    noindex?: boolean
   }
   
   // Analytics
@@ -75,6 +87,77 @@ export interface FirestorePost {
   lastModifiedBy: string
 }
 
+// Post as returned by the admin posts API, with dates as ISO strings
+export interface PostRow extends Omit<FirestorePost, 'id' | 'publishDate' | 'createdAt' | 'updatedAt' | 'scheduledFor' | 'expiresAt' | 'expiredAt'> {
+  id: string
+  publishDate: string | null
+  createdAt: string
+  updatedAt: string
+  scheduledFor: string | null
+  expiresAt: string | null
+  expiredAt: string | null
+}
+
+// Snapshot of a post at one save, kept in posts/{id}/revisions
+export interface FirestorePostRevision {
+  id?: string
+  title: string
+  description: string
+  content: string
+  seo: FirestorePost['seo'] | null
+  status: FirestorePost['status']
+  lastModifiedBy: string
+  lastModifiedByName: string
+  // Revision this one was restored from, if any
+  restoredFrom: string | null
+  createdAt: Timestamp | Date
+}
+
+// Revision list entry; the content is only loaded for a single revision
+export interface PostRevisionRow extends Omit<FirestorePostRevision, 'id' | 'description' | 'content' | 'seo' | 'createdAt'> {
+  id: string
+  createdAt: string
+}
+
+export interface PostRevision extends PostRevisionRow {
+  description: string
+  content: string
+  seo: FirestorePost['seo'] | null
+}
+
+// Unsaved post editor state, autosaved per user and post apart from the post
+// itself so it never goes live. postId is null for a post not created yet.
+export interface PostDraft {
+  postId: string | null
+  data: Record<string, any>
+  savedAt: string
+  // The post's updatedAt when editing started, to spot saves made since
+  baseUpdatedAt: string | null
+}
+
+// Shareable link that shows an unpublished post to reviewers outside the admin
+export interface FirestorePreviewLink {
+  id?: string
+  postId: string
+  // The signed token in the link, kept so the link can be copied again
+  token: string
+  createdBy: string
+  createdByName: string
+  createdAt: Timestamp | Date
+  expiresAt: Timestamp | Date
+  revokedAt: Timestamp | Date | null
+}
+
+export interface PreviewLinkRow {
+  id: string
+  url: string
+  createdByName: string
+  createdAt: string
+  expiresAt: string
+  revokedAt: string | null
+  active: boolean
+}
+
 export interface FirestoreCategory {
   id?: string
   slug: string
@@ -112,6 +195,8 @@ export interface FirestoreCategory {
   
   // Statistics
   postCount: number
+  // Posts currently published, maintained on publish/unpublish
+  publishedCount?: number
   totalViews: number
 }
 
@@ -144,6 +229,7 @@ export interface FirestoreUser {
   // Statistics
   postsCount: number
   draftsCount: number
+  publishedCount?: number
   totalViews: number
 }
 
@@ -173,6 +259,131 @@ export interface FirestoreMedia {
   usedInCategories: string[]
 }
 
+export type CommentStatus = 'pending' | 'approved' | 'spam' | 'rejected'
+
+export interface FirestoreComment {
+  id?: string
+  postSlug: string
+  postTitle: string
+  postAuthorId?: string
+  // null for top-level comments
+  parentId: string | null
+  depth: number
+
+  authorName: string
+  authorEmail: string
+  content: string
+
+  // Moderation
+  status: CommentStatus
+  spamReasons: string[]
+  moderatedAt?: Timestamp | Date
+  moderatedBy?: string
+
+  // SHA-256 of the client IP, used for rate limiting
+  ipHash: string
+  userAgent: string
+  createdAt: Timestamp | Date
+}
+
+// In-admin notification shown under the header bell
+export interface FirestoreNotification {
+  id?: string
+  userId: string
+  type: 'comment'
+  title: string
+  message: string
+  link: string
+  read: boolean
+  createdAt: Timestamp | Date
+}
+
+export type SubscriberStatus = 'pending' | 'confirmed' | 'unsubscribed'
+
+export interface FirestoreSubscriber {
+  id?: string
+  email: string
+  status: SubscriberStatus
+  // Category slugs the subscriber wants to hear about; empty means all
+  categories: string[]
+  // Where the signup came from, e.g. 'footer' or 'newsletter-page'
+  source: string
+  createdAt: Timestamp | Date
+  confirmationSentAt?: Timestamp | Date
+  confirmedAt?: Timestamp | Date
+  unsubscribedAt?: Timestamp | Date
+}
+
+// Serialized subscriber for the admin list and CSV export
+export interface SubscriberRow {
+  id: string
+  email: string
+  status: SubscriberStatus
+  categories: string[]
+  source: string
+  createdAt: string | null
+  confirmedAt: string | null
+  unsubscribedAt: string | null
+}
+
+export type DigestSendStatus = 'sending' | 'sent' | 'partial' | 'failed'
+
+// One digest run; the send-history log in the admin
+export interface FirestoreDigestSend {
+  id?: string
+  periodStart: Timestamp | Date
+  periodEnd: Timestamp | Date
+  postSlugs: string[]
+  status: DigestSendStatus
+  // Confirmed subscribers at send time
+  recipients: number
+  delivered: number
+  // Subscribers with no posts in their categories this period
+  skipped: number
+  failed: number
+  transport: string
+  // uid of the admin who sent it, or 'cron'
+  triggeredBy: string
+  startedAt: Timestamp | Date
+  completedAt?: Timestamp | Date
+  // Last subscriber id sent to; the next chunk starts after it
+  cursor: string | null
+  // Set while a chunk is being sent
+  lockedUntil: Timestamp | Date | null
+}
+
+export interface DigestSendRow extends Omit<FirestoreDigestSend, 'id' | 'periodStart' | 'periodEnd' | 'startedAt' | 'completedAt' | 'cursor' | 'lockedUntil'> {
+  id: string
+  periodStart: string
+  periodEnd: string
+  startedAt: string
+  completedAt: string | null
+}
+
+export type ActivityType = 'post_created' | 'post_updated' | 'post_published' | 'post_expired' | 'post_deleted' | 'user_login'
+
+// Audit trail entry shown under Recent Activity on the dashboard
+export interface FirestoreActivity {
+  id?: string
+  type: ActivityType
+  title: string
+  description: string
+  // uid of the user who acted; null for scheduled jobs
+  userId: string | null
+  userName: string
+  postId?: string
+  createdAt: Timestamp | Date
+}
+
+export interface ActivityRow {
+  id: string
+  type: ActivityType
+  title: string
+  description: string
+  user: string
+  timestamp: string
+}
+
 export interface FirestoreSiteConfig {
   id: 'main'
   siteName: string
@@ -250,6 +461,11 @@ export interface PostFilters {
   search?: string
 }
 
+export interface CommentFilters {
+  status?: CommentStatus
+  postSlug?: string
+}
+
 export interface CategoryFilters {
   active?: boolean
   featured?: boolean
@@ -288,6 +504,7 @@ export interface PostFormData {
   categoryId: string
   tags: string[]
   featured: boolean
+  hideTableOfContents?: boolean
   featuredImage: {
     url: string
     alt: string
@@ -296,9 +513,14 @@ export interface PostFormData {
     metaTitle: string
     metaDescription: string
     keywords: string[]
+    ogImage?: string
+    canonicalUrl?: string
+    noindex?: boolean
   }
   status: 'draft' | 'published' | 'scheduled'
   scheduledFor?: Date
+  expiresAt?: Date
+  expiryAction?: PostExpiryAction
 }
 
 export interface CategoryFormData {
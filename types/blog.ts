@@ -5,13 +5,35 @@ export interface BlogPost {
   title: string
   description: string
   date: string
+  updatedAt?: string
   author: string
+  authorId?: string
   category: string
   image: string
+  // Stored alongside Firestore featured images; MDX posts only have the URL
+  imageAlt?: string
+  imageWidth?: number
+  imageHeight?: number
+  seo?: PostSeo
   tags: string[]
   featured: boolean
   content: string
   readingTime: number
+  hideTableOfContents?: boolean
+  // Time-sensitive posts: when the content goes stale, and when it did
+  expiresAt?: string
+  expiredAt?: string
+}
+
+// Per-post overrides from the admin editor's SEO section
+export interface PostSeo {
+  metaTitle?: string
+  metaDescription?: string
+  keywords: string[]
+  // Explicit social sharing image, overrides the generated card
+  ogImage?: string
+  canonicalUrl?: string
+  noindex?: boolean
 }
 
 export interface Category {
@@ -107,15 +129,98 @@ export interface SearchFilters {
   featured?: boolean
 }
 
+// Per-post entry of the search index, stored in the searchIndex collection
+export interface SearchDocument {
+  slug: string
+  title: string
+  description: string
+  category: string
+  tags: string[]
+  author: string
+  authorId?: string
+  date: string
+  image: string
+  readingTime: number
+  featured: boolean
+  // Plain text body, used to build result snippets
+  text: string
+  // Stemmed term frequencies per indexed field
+  terms: Partial<Record<SearchField, Record<string, number>>>
+}
+
+export type SearchField = 'title' | 'tags' | 'description' | 'category' | 'author' | 'content'
+
+export interface SearchResult {
+  slug: string
+  title: string
+  description: string
+  category: string
+  tags: string[]
+  author: string
+  date: string
+  image: string
+  readingTime: number
+  featured: boolean
+  score: number
+  // HTML-escaped, with matched terms wrapped in <mark>
+  titleHtml: string
+  snippetHtml: string
+}
+
+export interface SearchFacet {
+  value: string
+  label: string
+  count: number
+}
+
+export interface SearchResponse {
+  query: string
+  results: SearchResult[]
+  total: number
+  facets: {
+    categories: SearchFacet[]
+    tags: SearchFacet[]
+  }
+}
+
+export type PostSortOption = 'recent' | 'oldest' | 'popular' | 'title'
+
+export interface PostListFilters {
+  featured?: boolean
+  category?: string
+  tag?: string
+  sort?: PostSortOption
+}
+
+export interface PostListPage {
+  posts: BlogPost[]
+  // Id of the last post on the page, to continue from; null when there are no more posts
+  nextCursor: string | null
+  total: number
+}
+
+export interface Tag {
+  name: string
+  slug: string
+  postCount: number
+}
+
 export interface PaginationProps {
   currentPage: number
   totalPages: number
-  onPageChange: (page: number) => void
+  getPageHref: (page: number) => string
+  onPageChange?: (page: number) => void
   showPrevNext?: boolean
   showFirstLast?: boolean
   maxVisiblePages?: number
 }
 
+export interface TableOfContentsItem {
+  id: string
+  text: string
+  depth: number
+}
+
 export interface RelatedPost {
   slug: string
   title: string
@@ -133,4 +238,35 @@ export interface PostNavigation {
     slug: string
     title: string
   }
-}
\ No newline at end of file
+}
+// Approved reader comment as returned by the public comments API
+export interface Comment {
+  id: string
+  parentId: string | null
+  authorName: string
+  content: string
+  date: string
+  replies: Comment[]
+}
+
+export interface CommentInput {
+  authorName: string
+  authorEmail: string
+  content: string
+  parentId?: string | null
+  // Honeypot field; real readers never see or fill it
+  website?: string
+}
+
+// Reader engagement as returned by the public stats API
+export interface PostStats {
+  views: number
+  likes: number
+  shares: number
+  // Whether the current visitor has liked the post
+  liked: boolean
+}
+
+export type PostEngagementEvent = 'view' | 'like' | 'unlike' | 'share'
+
+export type ShareNetwork = 'twitter' | 'facebook' | 'linkedin' | 'email' | 'copy' | 'native'
@@ -30,6 +30,7 @@ export interface SiteConfig {
     newsletter: boolean
     search: boolean
     comments: boolean
+    engagement: boolean
     darkMode: boolean
     rss: boolean
     sitemap: boolean
@@ -46,6 +47,11 @@ export interface SiteConfig {
     enableCategories: boolean
     enableAuthors: boolean
   }
+
+  feed: {
+    itemCount: number
+    fullContent: boolean
+  }
 }
 
 export interface SEOConfig {